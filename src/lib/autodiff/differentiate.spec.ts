@@ -0,0 +1,119 @@
+import test from 'ava';
+
+import { Dual, DualField } from '../scalar/field/dual';
+import { lerp, smoothstep } from '../scalar/math/field-math';
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { derivative, evaluate, gradient, jacobian, ScalarFunction, valueAndGradient, VectorFunction } from './differentiate';
+
+const h = 1e-6;
+
+// Central differences, accurate to about h².
+const numericDerivative = (f: (x: number) => number, x: number) => (f(x + h) - f(x - h)) / (2 * h);
+
+const close = (actual: number, expected: number, tolerance = 1e-6) =>
+  Math.abs(actual - expected) <= tolerance * Math.max(1, Math.abs(expected));
+
+test('dual arithmetic follows the rules of differentiation', (t) => {
+  const x = Dual.variable(3);
+  t.deepEqual([x.mul(x).value, x.mul(x).derivative], [9, 6]);
+  t.deepEqual([x.div(2).value, x.div(2).derivative], [1.5, 0.5]);
+  t.deepEqual([x.inv().value, x.inv().derivative], [1 / 3, -1 / 9]);
+  t.is(x.add(1).sub(x).derivative, 0);
+  t.is(x.pow(0).derivative, 0);
+  t.is(Dual.constant(5).mul(x).derivative, 5);
+  t.is(x.toString(), '3+1ε');
+  t.true(DualField.mul(x, DualField.fromNumber(2)).equals(new Dual(6, 2)));
+});
+
+test('elementary functions agree with finite differences', (t) => {
+  const cases: [string, (x: Dual) => Dual, (x: number) => number][] = [
+    ['sqrt', (x) => x.sqrt(), Math.sqrt],
+    ['exp', (x) => x.exp(), Math.exp],
+    ['log', (x) => x.log(), Math.log],
+    ['sin', (x) => x.sin(), Math.sin],
+    ['cos', (x) => x.cos(), Math.cos],
+    ['tan', (x) => x.tan(), Math.tan],
+    ['atan', (x) => x.atan(), Math.atan],
+    ['tanh', (x) => x.tanh(), Math.tanh],
+    ['abs', (x) => x.abs(), Math.abs],
+    ['pow', (x) => x.pow(2.5), (x) => Math.pow(x, 2.5)],
+    ['composite', (x) => x.mul(x).add(1).log().div(x.sin().add(2)), (x) => Math.log(x * x + 1) / (Math.sin(x) + 2)],
+  ];
+  for (const [name, dual, plain] of cases) {
+    for (const x of [0.3, 1.1, 2.7]) {
+      t.true(close(derivative(dual, x), numericDerivative(plain, x)), `${name} at ${x}`);
+      t.is(dual(Dual.constant(x)).value, plain(x));
+    }
+  }
+});
+
+const rosenbrock: ScalarFunction<2> = ({ components: [x, y] }) => {
+  const a = Dual.constant(1).sub(x);
+  const b = y.sub(x.mul(x));
+  return a.mul(a).add(b.mul(b).mul(100));
+};
+
+const rosenbrockPlain = ([x, y]: number[]) => (1 - x) * (1 - x) + 100 * (y - x * x) * (y - x * x);
+
+test('gradient agrees with finite differences', (t) => {
+  for (const point of [[0, 0], [-1.2, 1], [0.5, -0.3]] as [number, number][]) {
+    const g = gradient(rosenbrock, point);
+    point.forEach((_, i) => {
+      const numeric = numericDerivative((x) => rosenbrockPlain(point.map((p, j) => (i === j ? x : p))), point[i]);
+      t.true(close(g.components[i], numeric, 1e-5), `∂/∂x${i} at ${point}`);
+    });
+  }
+  t.deepEqual(gradient(rosenbrock, new NDimVector<2>([1, 1])).components, [0, 0]);
+  t.is(evaluate(rosenbrock, [0, 0]), 1);
+});
+
+test('gradient uses the vector operations of dual vectors', (t) => {
+  // f(v) = |v|, whose gradient is the unit vector.
+  const length: ScalarFunction<3> = (v) => v.dot(v).sqrt();
+  const { value, gradient: g } = valueAndGradient(length, [1, 2, 2]);
+  t.is(value, 3);
+  t.true(g.approxEquals([1 / 3, 2 / 3, 2 / 3]));
+
+  // f(v) = a · v has gradient a.
+  const a = new NDimVector<3, Dual>([1, -2, 4].map(Dual.constant) as [Dual, Dual, Dual], DualField);
+  t.deepEqual(gradient<3>((v) => v.dot(a), [7, 8, 9]).components, [1, -2, 4]);
+});
+
+test('jacobian agrees with finite differences', (t) => {
+  // Polar to cartesian coordinates, from (r, θ) to 3 outputs.
+  const f: VectorFunction<2, 3> = ({ components: [r, theta] }) => [r.mul(theta.cos()), r.mul(theta.sin()), r.mul(r)];
+  const plain = ([r, theta]: number[]) => [r * Math.cos(theta), r * Math.sin(theta), r * r];
+  const point: [number, number] = [2, 0.7];
+
+  const j = jacobian(f, point);
+  t.is(j.rowCount, 3);
+  t.is(j.columnCount, 2);
+  for (let col = 0; col < 2; col++) {
+    const shifted = (d: number) => plain(point.map((p, k) => (k === col ? p + d : p)));
+    const numeric = shifted(h).map((n, row) => (n - shifted(-h)[row]) / (2 * h));
+    numeric.forEach((n, row) => t.true(close(j.getItem(row, col), n), `∂f${row}/∂x${col}`));
+  }
+
+  const linear = jacobian<2, 2>((v) => v.mul(Dual.constant(3)), [1, 2]);
+  t.deepEqual(linear.components, [
+    [3, 0],
+    [0, 3],
+  ]);
+});
+
+test('scalar helpers differentiate over dual numbers', (t) => {
+  const eased = (x: Dual) => smoothstep(DualField, Dual.constant(0), Dual.constant(2), x);
+  [0.3, 1, 1.7].forEach((x) => {
+    const u = x / 2;
+    t.true(close(derivative(eased, x), 3 * u * (1 - u)), `smoothstep at ${x}`);
+  });
+  t.is(derivative(eased, 3), 0);
+
+  const cost: ScalarFunction<2> = ({ components: [a, b] }) => {
+    const mid = lerp(DualField, a, b, Dual.constant(0.25));
+    return mid.mul(mid);
+  };
+  const g = gradient(cost, [2, 6]);
+  t.true(close(g.x, 2 * 3 * 0.75) && close(g.y, 2 * 3 * 0.25));
+});
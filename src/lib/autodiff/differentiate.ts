@@ -0,0 +1,105 @@
+import { NDimMatrix } from "../matrix/n-dim-matrix";
+import { NMat } from "../matrix/math";
+import { Dual, DualField } from "../scalar/field/dual";
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+
+type NVec<N extends Dim> = FArray<N, number>
+type Point<N extends Dim> = NVec<N> | NDimVector<N>
+
+/**
+ * A scalar function of a vector, written with dual number arithmetic so that
+ * it can be differentiated.
+ *
+ * @typeParam N - The dimension of the input.
+ */
+export type ScalarFunction<N extends Dim> = (v: NDimVector<N, Dual>) => Dual
+
+/**
+ * A vector function of a vector, written with dual number arithmetic so that
+ * it can be differentiated.
+ *
+ * @typeParam N - The dimension of the input.
+ * @typeParam M - The dimension of the output.
+ */
+export type VectorFunction<N extends Dim, M extends Dim> =
+    (v: NDimVector<N, Dual>) => NDimVector<M, Dual> | FArray<M, Dual>
+
+/**
+ * Lifts a point to dual numbers, seeding the derivative of one component.
+ *
+ * @param point the point to lift.
+ * @param seed the component to differentiate with respect to; none if negative.
+ * @returns a vector of dual numbers.
+ */
+const seeded = <N extends Dim>(point: NVec<N>, seed: number): NDimVector<N, Dual> =>
+    new NDimVector<N, Dual>(point.map((n, i) => new Dual(n, i === seed ? 1 : 0)) as FArray<N, Dual>, DualField)
+
+const outputs = <M extends Dim>(result: NDimVector<M, Dual> | FArray<M, Dual>): FArray<M, Dual> =>
+    result instanceof NDimVector ? result.components : result
+
+/**
+ * Calculates the derivative of a function of one variable.
+ *
+ * @param f the function, written with dual number arithmetic.
+ * @param x the point to differentiate at.
+ * @returns f'(x).
+ */
+export const derivative = (f: (x: Dual) => Dual, x: number): number =>
+    f(Dual.variable(x)).derivative
+
+/**
+ * Evaluates a function written with dual number arithmetic at a plain point.
+ *
+ * @param f the function to evaluate.
+ * @param point the point to evaluate at.
+ * @returns f(point).
+ */
+export const evaluate = <N extends Dim>(f: ScalarFunction<N>, point: Point<N>): number =>
+    f(seeded(NDimVector.getComponents<N>(point), -1)).value
+
+/**
+ * Calculates the value and gradient of a scalar function of a vector, with
+ * one forward pass per component.
+ *
+ * @param f the function, written with dual number arithmetic.
+ * @param point the point to differentiate at.
+ * @returns f(point) and the vector of partial derivatives ∂f/∂xᵢ there.
+ */
+export const valueAndGradient = <N extends Dim>(f: ScalarFunction<N>, point: Point<N>): { value: number, gradient: NDimVector<N> } => {
+    const p = NDimVector.getComponents<N>(point)
+    let value = 0
+    const gradient = p.map((_, i) => {
+        const result = f(seeded(p, i))
+        value = result.value
+        return result.derivative
+    }) as NVec<N>
+    return { value: p.length === 0 ? evaluate(f, p) : value, gradient: new NDimVector<N>(gradient) }
+}
+
+/**
+ * Calculates the gradient of a scalar function of a vector.
+ *
+ * @param f the function, written with dual number arithmetic.
+ * @param point the point to differentiate at.
+ * @returns the vector of partial derivatives ∂f/∂xᵢ.
+ */
+export const gradient = <N extends Dim>(f: ScalarFunction<N>, point: Point<N>): NDimVector<N> =>
+    valueAndGradient(f, point).gradient
+
+/**
+ * Calculates the Jacobian matrix of a vector function, with one forward pass
+ * per input component.
+ *
+ * @param f the function, written with dual number arithmetic.
+ * @param point the point to differentiate at.
+ * @returns the M x N matrix of partial derivatives, ∂fᵢ/∂xⱼ in row i and column j.
+ */
+export const jacobian = <N extends Dim, M extends Dim>(f: VectorFunction<N, M>, point: Point<N>): NDimMatrix<M, N> => {
+    const p = NDimVector.getComponents<N>(point)
+    const columns = p.map((_, j) => outputs(f(seeded(p, j))).map(d => d.derivative))
+    const m = columns.length > 0 ? columns[0].length : outputs(f(seeded(p, -1))).length
+    const rows = Array.from({ length: m }, (_, i) => columns.map(column => column[i]))
+    return new NDimMatrix<M, N>(rows as unknown as NMat<M, N>)
+}
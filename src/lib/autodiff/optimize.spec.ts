@@ -0,0 +1,62 @@
+import test from 'ava';
+
+import { Dual } from '../scalar/field/dual';
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { ScalarFunction } from './differentiate';
+import { gradientDescent } from './optimize';
+
+test('minimizes a quadratic bowl', (t) => {
+  const center = new NDimVector<3>([1, -2, 3]);
+  const bowl: ScalarFunction<3> = (v) => {
+    const d = v.sub(center.components.map(Dual.constant) as [Dual, Dual, Dual]);
+    return d.dot(d);
+  };
+  const result = gradientDescent(bowl, [0, 0, 0]);
+  t.true(result.converged);
+  t.true(result.point.approxEquals(center, { absolute: 1e-8 }));
+  t.true(result.value < 1e-15);
+});
+
+test('minimizes a badly scaled function', (t) => {
+  const valley: ScalarFunction<2> = ({ components: [x, y] }) => x.mul(x).add(y.mul(y).mul(50));
+  const result = gradientDescent(valley, [3, 1], { tolerance: 1e-10 });
+  t.true(result.converged);
+  t.true(result.point.magnitude < 1e-9);
+});
+
+test('makes progress on the Rosenbrock function', (t) => {
+  const rosenbrock: ScalarFunction<2> = ({ components: [x, y] }) => {
+    const a = Dual.constant(1).sub(x);
+    const b = y.sub(x.mul(x));
+    return a.mul(a).add(b.mul(b).mul(100));
+  };
+  const result = gradientDescent(rosenbrock, [-1.2, 1], { maxIterations: 20000, tolerance: 1e-6 });
+  t.true(result.point.distance([1, 1]) < 1e-3);
+  t.true(result.value < 1e-6);
+});
+
+test('reports when it runs out of iterations', (t) => {
+  const bowl: ScalarFunction<1> = ({ components: [x] }) => x.mul(x);
+  const result = gradientDescent(bowl, [10], { maxIterations: 1, initialStep: 0.1 });
+  t.false(result.converged);
+  t.is(result.iterations, 1);
+  t.true(result.value < 100);
+  t.throws(() => gradientDescent(bowl, [1], { shrink: 1 }), { instanceOf: RangeError });
+});
+
+test('stops at a point where the function is not differentiable', (t) => {
+  const cone: ScalarFunction<2> = (v) => v.dot(v).sqrt();
+  const result = gradientDescent(cone, [0, 0]);
+  t.false(result.converged);
+  t.is(result.iterations, 0);
+  t.true(Number.isNaN(result.gradient.x));
+});
+
+test('gives up after the most backtracking steps allowed', (t) => {
+  const bowl: ScalarFunction<1> = ({ components: [x] }) => x.mul(x);
+  const result = gradientDescent(bowl, [10], { initialStep: 1e6, maxBacktracks: 3 });
+  t.false(result.converged);
+  t.is(result.iterations, 0);
+  t.deepEqual(result.point.components, [10]);
+});
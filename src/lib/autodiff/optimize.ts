@@ -0,0 +1,118 @@
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { evaluate, ScalarFunction, valueAndGradient } from "./differentiate";
+
+/**
+ * Settings for `gradientDescent`. Any that are left out take their value from
+ * `DEFAULT_DESCENT_OPTIONS`.
+ *
+ * - `maxIterations`: the most steps to take before giving up.
+ * - `tolerance`: the gradient magnitude at which a point counts as a minimum.
+ * - `initialStep`: the first step length tried by the line search.
+ * - `shrink`: the factor the step length is cut by when a step is rejected.
+ * - `maxBacktracks`: the most times the step length is cut in one line search.
+ * - `sufficientDecrease`: the Armijo constant; the fraction of the decrease
+ * predicted by the gradient that a step must achieve to be accepted.
+ */
+export type DescentOptions = {
+    maxIterations?: number
+    tolerance?: number
+    initialStep?: number
+    shrink?: number
+    maxBacktracks?: number
+    sufficientDecrease?: number
+}
+
+export const DEFAULT_DESCENT_OPTIONS: Readonly<Required<DescentOptions>> = {
+    maxIterations: 1000,
+    tolerance: 1e-8,
+    initialStep: 1,
+    shrink: 0.5,
+    maxBacktracks: 100,
+    sufficientDecrease: 1e-4,
+}
+
+/**
+ * The outcome of a minimization.
+ *
+ * @typeParam N - The dimension of the input.
+ */
+export type DescentResult<N extends Dim> = {
+    /** The best point found. */
+    point: NDimVector<N>
+    /** The value of the function at `point`. */
+    value: number
+    /** The gradient of the function at `point`. */
+    gradient: NDimVector<N>
+    /** The number of steps taken. */
+    iterations: number
+    /**
+     * Whether the gradient fell below the tolerance. False when the search
+     * stalls, runs out of iterations or meets a value or gradient that is not
+     * finite, such as at a point where the function is not differentiable.
+     */
+    converged: boolean
+}
+
+/**
+ * Minimizes a function by gradient descent with a backtracking line search.
+ * Each step moves against the gradient, halving the step length (by default)
+ * until the function decreases enough. Gradients are found by automatic
+ * differentiation, so only the function itself is needed.
+ *
+ * The search finds a local minimum, which depends on the starting point.
+ *
+ * @param f the function to minimize, written with dual number arithmetic.
+ * @param start the point to start from.
+ * @param options settings for the search.
+ * @returns the best point found and how the search ended.
+ */
+export const gradientDescent = <N extends Dim>(
+    f: ScalarFunction<N>,
+    start: FArray<N, number> | NDimVector<N>,
+    options: DescentOptions = {},
+): DescentResult<N> => {
+    const { maxIterations, tolerance, initialStep, shrink, maxBacktracks, sufficientDecrease } = { ...DEFAULT_DESCENT_OPTIONS, ...options }
+    if (!(shrink > 0 && shrink < 1)) {
+        throw new RangeError(`The step shrink factor must lie strictly between 0 and 1, got ${shrink}`)
+    }
+
+    let point = new NDimVector<N>([...NDimVector.getComponents<N>(start)] as FArray<N, number>)
+    let { value, gradient } = valueAndGradient(f, point)
+    let step = initialStep
+
+    for (let iteration = 0; iteration < maxIterations; iteration++) {
+        const slope = gradient.magnitudeSquared
+        if (!(Number.isFinite(value) && Number.isFinite(slope))) {
+            // Every comparison with NaN fails, so the line search could not end.
+            return { point, value, gradient, iterations: iteration, converged: false }
+        }
+        if (Math.sqrt(slope) <= tolerance) {
+            return { point, value, gradient, iterations: iteration, converged: true }
+        }
+
+        // Backtrack until the Armijo condition holds. Starting from twice the
+        // last accepted step lets the step grow again after a hard region.
+        let candidate = point.sub(gradient.mul(step))
+        let candidateValue = evaluate(f, candidate)
+        for (let backtracks = 0; !(candidateValue <= value - sufficientDecrease * step * slope); backtracks++) {
+            step *= shrink
+            if (backtracks >= maxBacktracks || step * Math.sqrt(slope) <= Number.EPSILON * Math.max(1, point.magnitude)) {
+                // No step the search is allowed to try, or can represent,
+                // decreases the function any further.
+                return { point, value, gradient, iterations: iteration, converged: false }
+            }
+            candidate = point.sub(gradient.mul(step))
+            candidateValue = evaluate(f, candidate)
+        }
+
+        const next = valueAndGradient(f, candidate)
+        point = candidate
+        value = next.value
+        gradient = next.gradient
+        step *= 2
+    }
+
+    return { point, value, gradient, iterations: maxIterations, converged: gradient.magnitude <= tolerance }
+}
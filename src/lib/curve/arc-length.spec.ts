@@ -0,0 +1,34 @@
+import test from 'ava';
+
+import { ArcLengthTable } from './arc-length';
+import { BezierCurve } from './bezier';
+
+test('the length of a straight line', (t) => {
+  const line = new BezierCurve<2>([
+    [0, 0],
+    [3, 4],
+  ]);
+  const table = new ArcLengthTable(line, 8);
+  t.true(Math.abs(table.length - 5) < 1e-12);
+  t.true(Math.abs(table.parameterAt(2.5) - 0.5) < 1e-12);
+  t.true(Math.abs(table.distanceAt(0.5) - 2.5) < 1e-12);
+});
+
+test('points are evenly spaced by distance', (t) => {
+  // A straight quadratic whose speed varies strongly along the curve, so
+  // equal parameter steps would give very unequal distances.
+  const curve = new BezierCurve<2>([
+    [0, 0],
+    [0.3, 0.4],
+    [3, 4],
+  ]);
+  const table = new ArcLengthTable(curve, 1024);
+  const points = table.evenlySpaced(6);
+  const gaps = points.slice(1).map((p, i) => p.distance(points[i]));
+  gaps.forEach((gap) => t.true(Math.abs(gap - 1) < 1e-4));
+
+  t.is(table.parameterAt(-1), 0);
+  t.is(table.parameterAt(table.length + 1), 1);
+  t.true(Math.abs(table.distanceAt(table.parameterAt(1.5)) - 1.5) < 1e-9);
+  t.true(Math.abs(table.tangentAt(table.length).magnitude - 1) < 1e-12);
+});
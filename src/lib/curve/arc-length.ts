@@ -0,0 +1,113 @@
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Curve } from "./curve";
+
+/**
+ * Reparameterizes a curve by arc length, so that points can be placed at
+ * given distances along it. The curve is approximated by a polyline through
+ * evenly spaced parameters; more samples give a more accurate length at the
+ * cost of a larger table.
+ *
+ * @typeParam N - The dimension of the space the curve lies in.
+ */
+export class ArcLengthTable<N extends Dim> {
+    public readonly curve: Curve<N>
+    private readonly distances: number[]
+
+    /**
+     * @param curve The curve to measure.
+     * @param samples The number of polyline segments, defaults to 256.
+     */
+    constructor(curve: Curve<N>, samples: number = 256) {
+        if (!Number.isInteger(samples) || samples < 1) {
+            throw new RangeError("At least one sample segment is required")
+        }
+
+        this.curve = curve
+        this.distances = [0]
+        let previous = curve.point(0)
+        for (let i = 1; i <= samples; i++) {
+            const point = curve.point(i / samples)
+            this.distances.push(this.distances[i - 1] + point.distance(previous))
+            previous = point
+        }
+    }
+
+    /**
+     * The total length of the curve.
+     */
+    public get length(): number {
+        return this.distances[this.distances.length - 1]
+    }
+
+    /**
+     * Finds the curve parameter at which a given distance along the curve is
+     * reached. Distances outside [0, length] are clamped.
+     *
+     * @param distance The distance from the start of the curve.
+     * @returns The curve parameter, in [0, 1].
+     */
+    public parameterAt(distance: number): number {
+        const samples = this.distances.length - 1
+        if (distance <= 0) return 0
+        if (distance >= this.length) return 1
+
+        let lo = 0
+        let hi = samples
+        while (hi - lo > 1) {
+            const mid = (lo + hi) >> 1
+            if (this.distances[mid] <= distance) lo = mid
+            else hi = mid
+        }
+
+        const span = this.distances[hi] - this.distances[lo]
+        const fraction = span === 0 ? 0 : (distance - this.distances[lo]) / span
+        return (lo + fraction) / samples
+    }
+
+    /**
+     * Calculates the distance along the curve at which a parameter is reached.
+     *
+     * @param t The curve parameter, in [0, 1].
+     * @returns The distance from the start of the curve.
+     */
+    public distanceAt(t: number): number {
+        const samples = this.distances.length - 1
+        const scaled = Math.min(Math.max(t, 0), 1) * samples
+        const i = Math.min(Math.floor(scaled), samples - 1)
+        return this.distances[i] + (this.distances[i + 1] - this.distances[i]) * (scaled - i)
+    }
+
+    /**
+     * Evaluates the curve at a distance along it.
+     *
+     * @param distance The distance from the start of the curve.
+     * @returns The point at that distance.
+     */
+    public pointAt(distance: number): NDimVector<N> {
+        return this.curve.point(this.parameterAt(distance))
+    }
+
+    /**
+     * Calculates the unit tangent at a distance along the curve.
+     *
+     * @param distance The distance from the start of the curve.
+     * @returns The unit tangent at that distance.
+     */
+    public tangentAt(distance: number): NDimVector<N> {
+        return this.curve.tangent(this.parameterAt(distance))
+    }
+
+    /**
+     * Places points at equal distances along the curve, including both ends.
+     *
+     * @param count The number of points, at least 2.
+     * @returns The points, in order.
+     */
+    public evenlySpaced(count: number): NDimVector<N>[] {
+        if (!Number.isInteger(count) || count < 2) {
+            throw new RangeError("At least 2 points are required")
+        }
+        return Array.from({ length: count }, (_, i) => this.pointAt(this.length * i / (count - 1)))
+    }
+}
@@ -0,0 +1,67 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { BezierCurve } from './bezier';
+import { BSpline } from './b-spline';
+
+const close = (a: NDimVector<2>, b: NDimVector<2>, epsilon = 1e-9) =>
+  a.components.every((n, i) => Math.abs(n - b.components[i]) < epsilon);
+
+const points: [number, number][] = [
+  [0, 0],
+  [1, 2],
+  [3, 3],
+  [4, 1],
+  [6, 2],
+  [7, 0],
+];
+
+test('clamped splines start and end at their control points', (t) => {
+  const spline = new BSpline<2>(points);
+  t.deepEqual(BSpline.clampedKnots(6, 3), [0, 0, 0, 0, 1 / 3, 2 / 3, 1, 1, 1, 1]);
+  t.true(close(spline.point(0), new NDimVector<2>(points[0])));
+  t.true(close(spline.point(1), new NDimVector<2>(points[5])));
+});
+
+test('a single span cubic B-spline is a Bezier curve', (t) => {
+  const ps = points.slice(0, 4);
+  const spline = new BSpline<2>(ps);
+  const bezier = new BezierCurve<2>(ps);
+  [0.1, 0.5, 0.9].forEach((u) => {
+    t.true(close(spline.point(u), bezier.point(u)));
+    t.true(close(spline.derivative(u), bezier.derivative(u)));
+    t.true(close(spline.derivative(u, 2), bezier.derivative(u, 2)));
+  });
+});
+
+test('derivatives match finite differences', (t) => {
+  const spline = new BSpline<2>(points, 3, [0, 0, 0, 0, 1, 3, 4, 4, 4, 4]);
+  const h = 1e-6;
+  [0.2, 0.45, 0.8].forEach((u) => {
+    const numeric = spline
+      .point(u + h)
+      .sub(spline.point(u - h))
+      .mul(1 / (2 * h));
+    t.true(close(spline.derivative(u), numeric, 1e-4));
+  });
+});
+
+test('knot insertion and subdivision preserve the curve', (t) => {
+  const spline = new BSpline<2>(points, 2);
+  const inserted = spline.insertKnot(0.3);
+  t.is(inserted.controlPoints.length, points.length + 1);
+  [0, 0.2, 0.5, 0.95].forEach((u) => t.true(close(inserted.point(u), spline.point(u))));
+
+  const [left, right] = spline.subdivide(0.4);
+  [0, 0.5, 1].forEach((u) => {
+    t.true(close(left.point(u), spline.point(u * 0.4)));
+    t.true(close(right.point(u), spline.point(0.4 + u * 0.6)));
+  });
+});
+
+test('invalid splines are rejected', (t) => {
+  t.throws(() => new BSpline<2>(points.slice(0, 3)), { instanceOf: RangeError });
+  t.throws(() => new BSpline<2>(points, 1, [0, 1, 2]), { instanceOf: RangeError });
+  t.throws(() => new BSpline<2>(points, 1, [0, 0, 1, 2, 3, 2, 4, 4]), { instanceOf: RangeError });
+});
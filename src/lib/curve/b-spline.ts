@@ -0,0 +1,190 @@
+import { FArray } from "../types/array";
+import { Dim, lerp, mul, sub } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { ControlPoint, Curve, tangent, toComponents } from "./curve";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * Finds the knot span containing `u`: the index k with
+ * `knots[k] <= u < knots[k + 1]`, limited to the spans of the curve's domain.
+ */
+const findSpan = (knots: readonly number[], degree: number, count: number, u: number): number => {
+    let k = degree
+    while (k < count - 1 && knots[k + 1] <= u) k++
+    return k
+}
+
+/**
+ * Evaluates a B-spline with de Boor's algorithm.
+ *
+ * @param points the control points.
+ * @param knots the knot vector, with `points.length + degree + 1` knots.
+ * @param degree the degree of the spline.
+ * @param u the knot parameter to evaluate at.
+ * @returns the point on the spline at `u`.
+ */
+export const deBoor = <N extends Dim>(points: NVec<N>[], knots: readonly number[], degree: number, u: number): NVec<N> => {
+    const k = findSpan(knots, degree, points.length, u)
+    const d = points.slice(k - degree, k + 1)
+    for (let r = 1; r <= degree; r++) {
+        for (let j = degree; j >= r; j--) {
+            const i = j + k - degree
+            const alpha = (u - knots[i]) / (knots[i + 1 + degree - r] - knots[i])
+            d[j] = lerp(d[j - 1], d[j], alpha)
+        }
+    }
+    return d[degree]
+}
+
+/**
+ * A B-spline curve of any degree in N dimensions. The curve is smooth where
+ * its knots are distinct, and each control point only influences the span of
+ * `degree + 1` knot intervals around it.
+ *
+ * @typeParam N - The dimension of the space the curve lies in.
+ */
+export class BSpline<N extends Dim> implements Curve<N> {
+    public readonly degree: number
+    public readonly knots: readonly number[]
+    private readonly points: NVec<N>[]
+
+    /**
+     * @param points The control points; at least `degree + 1`.
+     * @param degree The degree of the curve, defaults to 3 (cubic).
+     * @param knots The non-decreasing knot vector, of `points.length + degree + 1`
+     * knots. Defaults to a clamped uniform vector, which makes the curve start at
+     * the first control point and end at the last.
+     */
+    constructor(points: ControlPoint<N>[], degree: number = 3, knots: readonly number[] = BSpline.clampedKnots(points.length, degree)) {
+        if (!Number.isInteger(degree) || degree < 0) {
+            throw new RangeError("The degree of a B-spline must be a non-negative integer")
+        }
+        if (points.length < degree + 1) {
+            throw new RangeError(`A B-spline of degree ${degree} needs at least ${degree + 1} control points`)
+        }
+        if (knots.length !== points.length + degree + 1) {
+            throw new RangeError(`Expected ${points.length + degree + 1} knots but found ${knots.length}`)
+        }
+        if (knots.some((k, i) => i > 0 && k < knots[i - 1]) || knots[degree] >= knots[points.length]) {
+            throw new RangeError("Knots must be non-decreasing and span a non-empty domain")
+        }
+
+        this.degree = degree
+        this.knots = knots
+        this.points = toComponents(points)
+    }
+
+    /**
+     * Creates a clamped uniform knot vector: `degree + 1` zeros, evenly spaced
+     * interior knots, and `degree + 1` ones.
+     *
+     * @param count The number of control points.
+     * @param degree The degree of the curve.
+     * @returns The knot vector.
+     */
+    public static clampedKnots(count: number, degree: number): number[] {
+        const spans = count - degree
+        return Array.from({ length: count + degree + 1 }, (_, i) =>
+            Math.min(Math.max(i - degree, 0), spans) / spans)
+    }
+
+    public get controlPoints(): NDimVector<N>[] {
+        return this.points.map(p => new NDimVector<N>(p))
+    }
+
+    /**
+     * The range of knot values the curve parameter [0, 1] is mapped onto.
+     */
+    public get domain(): [number, number] {
+        return [this.knots[this.degree], this.knots[this.points.length]]
+    }
+
+    private toKnot(t: number): number {
+        const [start, end] = this.domain
+        return start + (end - start) * t
+    }
+
+    public point(t: number): NDimVector<N> {
+        return new NDimVector<N>(deBoor(this.points, this.knots, this.degree, this.toKnot(t)))
+    }
+
+    public derivative(t: number, order: number = 1): NDimVector<N> {
+        let points = this.points
+        let knots = this.knots
+        let degree = this.degree
+        for (let o = 0; o < order; o++) {
+            if (degree === 0) {
+                return new NDimVector<N>(mul(points[0], 0))
+            }
+            // The derivative of a B-spline is a B-spline of one degree lower
+            // on the same knots without the first and last.
+            const ps = points, ks = knots, p = degree
+            points = ps.slice(1).map((q, i) => {
+                const span = ks[i + p + 1] - ks[i + 1]
+                return mul(sub(q, ps[i]), span === 0 ? 0 : p / span)
+            })
+            knots = ks.slice(1, -1)
+            degree = p - 1
+        }
+
+        const [start, end] = this.domain
+        return new NDimVector<N>(mul(deBoor(points, knots, degree, this.toKnot(t)), Math.pow(end - start, order)))
+    }
+
+    public tangent(t: number): NDimVector<N> {
+        return tangent(this, t)
+    }
+
+    /**
+     * Inserts a knot with Boehm's algorithm. The curve keeps exactly the same
+     * shape but gains a control point.
+     *
+     * @param u The knot value to insert, within the domain.
+     * @returns A new BSpline with the knot inserted.
+     */
+    public insertKnot(u: number): BSpline<N> {
+        const [start, end] = this.domain
+        if (u < start || u > end) {
+            throw new RangeError(`Knot ${u} is outside the domain [${start}, ${end}]`)
+        }
+
+        const p = this.degree
+        const k = findSpan(this.knots, p, this.points.length, u)
+        const points = [...this.points.slice(0, k - p + 1)]
+        for (let i = k - p + 1; i <= k; i++) {
+            const alpha = (u - this.knots[i]) / (this.knots[i + p] - this.knots[i])
+            points.push(lerp(this.points[i - 1], this.points[i], alpha))
+        }
+        points.push(...this.points.slice(k))
+
+        const knots = [...this.knots.slice(0, k + 1), u, ...this.knots.slice(k + 1)]
+        return new BSpline<N>(points, p, knots)
+    }
+
+    /**
+     * Splits this curve in two at a parameter, by inserting knots until the
+     * curve passes through a control point there.
+     *
+     * @param t The parameter to split at, strictly between 0 and 1.
+     * @returns The part of the curve before `t` and the part after it.
+     */
+    public subdivide(t: number): [BSpline<N>, BSpline<N>] {
+        if (!(t > 0 && t < 1)) {
+            throw new RangeError("A B-spline can only be split strictly inside its domain")
+        }
+
+        const u = this.toKnot(t)
+        const p = this.degree
+        let spline: BSpline<N> = this
+        while (spline.knots.filter(k => k === u).length < Math.max(p, 1)) {
+            spline = spline.insertKnot(u)
+        }
+
+        const r = spline.knots.indexOf(u)
+        return [
+            new BSpline<N>(spline.points.slice(0, r), p, [...spline.knots.slice(0, r + p), u]),
+            new BSpline<N>(spline.points.slice(r - 1), p, [u, ...spline.knots.slice(r)]),
+        ]
+    }
+}
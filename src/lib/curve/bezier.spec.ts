@@ -0,0 +1,100 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { BezierCurve, deCasteljau } from './bezier';
+import { catmullRom } from './catmull-rom';
+import { Curve, sample } from './curve';
+
+const close = (a: NDimVector<2> | NDimVector<3>, b: readonly number[], epsilon = 1e-9) =>
+  a.components.every((n, i) => Math.abs(n - b[i]) < epsilon);
+
+const numericDerivative = <N extends 2 | 3>(curve: Curve<N>, t: number) => {
+  const h = 1e-6;
+  return curve
+    .point(t + h)
+    .sub(curve.point(t - h))
+    .mul(1 / (2 * h)).components;
+};
+
+test('closed forms agree with de Casteljau', (t) => {
+  const points: [number, number][] = [
+    [0, 0],
+    [1, 3],
+    [4, 3],
+    [5, 0],
+  ];
+  for (let degree = 1; degree <= 3; degree++) {
+    const ps = points.slice(0, degree + 1);
+    const curve = new BezierCurve<2>(ps);
+    [0, 0.3, 0.5, 1].forEach((u) => t.true(close(curve.point(u), deCasteljau(ps, u))));
+  }
+  t.true(close(new BezierCurve<2>(points).point(0.5), [2.5, 2.25]));
+});
+
+test('higher degree curves interpolate their end points', (t) => {
+  const curve = new BezierCurve<3>([
+    [0, 0, 0],
+    [1, 2, 0],
+    [2, -1, 1],
+    [3, 4, 2],
+    [4, 0, 0],
+    [5, 1, 1],
+  ]);
+  t.is(curve.degree, 5);
+  t.true(close(curve.point(0), [0, 0, 0]));
+  t.true(close(curve.point(1), [5, 1, 1]));
+  t.true(close(curve.derivative(0.4), numericDerivative(curve, 0.4), 1e-5));
+});
+
+test('derivatives and tangents', (t) => {
+  const curve = new BezierCurve<2>([
+    [0, 0],
+    [1, 2],
+    [3, 2],
+    [4, 0],
+  ]);
+  t.true(close(curve.derivative(0), [3, 6]));
+  t.true(close(curve.derivative(0.7), numericDerivative(curve, 0.7), 1e-5));
+  t.true(close(curve.derivative(0.5, 2), [0, -12]));
+  t.true(close(curve.derivative(0.5, 4), [0, 0]));
+  t.true(close(curve.tangent(0.5), [1, 0]));
+  t.is(curve.hodograph().degree, 2);
+});
+
+test('subdivision preserves the curve', (t) => {
+  const curve = new BezierCurve<2>([
+    [0, 0],
+    [1, 2],
+    [3, 2],
+    [4, 0],
+  ]);
+  const [left, right] = curve.subdivide(0.25);
+  [0, 0.5, 1].forEach((u) => {
+    t.true(close(left.point(u), curve.point(u * 0.25).components));
+    t.true(close(right.point(u), curve.point(0.25 + u * 0.75).components));
+  });
+});
+
+test('catmull-rom splines pass through their points', (t) => {
+  const points: [number, number][] = [
+    [0, 0],
+    [1, 1],
+    [2, 0],
+    [3, 1],
+  ];
+  const spline = catmullRom<2>(points);
+  t.is(spline.segments.length, 3);
+  points.forEach((p, i) => t.true(close(spline.point(i / 3), p)));
+  t.true(close(spline.derivative(1 / 3), [3, 0]));
+  t.true(close(spline.derivative(0.5), numericDerivative(spline, 0.5), 1e-5));
+
+  const loop = catmullRom<2>(points, true);
+  t.is(loop.segments.length, 4);
+  t.true(close(loop.point(1), points[0]));
+
+  const [left, right] = spline.subdivide(0.5);
+  t.true(close(left.point(1), spline.point(0.5).components));
+  t.true(close(right.point(0), spline.point(0.5).components));
+  t.is(sample(spline, 5).length, 5);
+});
@@ -0,0 +1,198 @@
+import { FArray } from "../types/array";
+import { add, Dim, lerp, mul, sub } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { ControlPoint, Curve, tangent, toComponents } from "./curve";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+const weighted = <N extends Dim>(points: NVec<N>[], weights: number[]): NVec<N> =>
+    points.slice(1).reduce((acc, p, i) => add(acc, mul(p, weights[i + 1])), mul(points[0], weights[0]))
+
+/**
+ * Evaluates a Bezier curve of any degree with de Casteljau's algorithm, by
+ * repeatedly interpolating between neighbouring control points.
+ *
+ * @param points the control points; the degree is one less than their count.
+ * @param t the curve parameter, in [0, 1].
+ * @returns the point on the curve at `t`.
+ */
+export const deCasteljau = <N extends Dim>(points: NVec<N>[], t: number): NVec<N> => {
+    let level = points
+    while (level.length > 1) {
+        level = level.slice(1).map((p, i) => lerp(level[i], p, t))
+    }
+    return level[0]
+}
+
+/**
+ * Evaluates a Bezier curve. Linear, quadratic and cubic curves use their
+ * Bernstein polynomials directly; higher degrees use de Casteljau's algorithm.
+ *
+ * @param points the control points; the degree is one less than their count.
+ * @param t the curve parameter, in [0, 1].
+ * @returns the point on the curve at `t`.
+ */
+export const bezierPoint = <N extends Dim>(points: NVec<N>[], t: number): NVec<N> => {
+    const s = 1 - t
+    switch (points.length) {
+        case 1: return points[0]
+        case 2: return lerp(points[0], points[1], t)
+        case 3: return weighted(points, [s * s, 2 * s * t, t * t])
+        case 4: return weighted(points, [s * s * s, 3 * s * s * t, 3 * s * t * t, t * t * t])
+        default: return deCasteljau(points, t)
+    }
+}
+
+/**
+ * Calculates the control points of the derivative of a Bezier curve, which
+ * is itself a Bezier curve of one degree lower.
+ *
+ * @param points the control points of the curve.
+ * @returns the control points of its derivative; empty for a single point.
+ */
+export const hodograph = <N extends Dim>(points: NVec<N>[]): NVec<N>[] =>
+    points.slice(1).map((p, i) => mul(sub(p, points[i]), points.length - 1))
+
+/**
+ * Splits a Bezier curve in two at a parameter. The halves have the same
+ * degree as the curve and together trace exactly the same path.
+ *
+ * @param points the control points of the curve.
+ * @param t the parameter to split at, in [0, 1].
+ * @returns the control points of the part before `t` and of the part after it.
+ */
+export const splitBezier = <N extends Dim>(points: NVec<N>[], t: number): [NVec<N>[], NVec<N>[]] => {
+    const left = [points[0]]
+    const right = [points[points.length - 1]]
+    let level = points
+    while (level.length > 1) {
+        level = level.slice(1).map((p, i) => lerp(level[i], p, t))
+        left.push(level[0])
+        right.unshift(level[level.length - 1])
+    }
+    return [left, right]
+}
+
+/**
+ * A Bezier curve of any degree in N dimensions.
+ *
+ * @typeParam N - The dimension of the space the curve lies in.
+ */
+export class BezierCurve<N extends Dim> implements Curve<N> {
+    private readonly points: NVec<N>[]
+
+    /**
+     * @param points The control points. Two give a line segment, three a
+     * quadratic curve, four a cubic curve, and so on.
+     */
+    constructor(points: ControlPoint<N>[]) {
+        if (points.length === 0) {
+            throw new RangeError("A Bezier curve needs at least one control point")
+        }
+        this.points = toComponents(points)
+    }
+
+    public get degree(): number {
+        return this.points.length - 1
+    }
+
+    public get controlPoints(): NDimVector<N>[] {
+        return this.points.map(p => new NDimVector<N>(p))
+    }
+
+    public point(t: number): NDimVector<N> {
+        return new NDimVector<N>(bezierPoint(this.points, t))
+    }
+
+    public derivative(t: number, order: number = 1): NDimVector<N> {
+        let points = this.points
+        for (let i = 0; i < order; i++) {
+            if (points.length === 1) {
+                return new NDimVector<N>(mul(points[0], 0))
+            }
+            points = hodograph(points)
+        }
+        return new NDimVector<N>(bezierPoint(points, t))
+    }
+
+    public tangent(t: number): NDimVector<N> {
+        return tangent(this, t)
+    }
+
+    /**
+     * The derivative of this curve, as a curve of one degree lower.
+     *
+     * @returns A new BezierCurve; a single zero point if this curve is a point.
+     */
+    public hodograph(): BezierCurve<N> {
+        return this.points.length === 1
+            ? new BezierCurve<N>([mul(this.points[0], 0)])
+            : new BezierCurve<N>(hodograph(this.points))
+    }
+
+    /**
+     * Splits this curve in two at a parameter.
+     *
+     * @param t The parameter to split at, in [0, 1].
+     * @returns The part of the curve before `t` and the part after it.
+     */
+    public subdivide(t: number): [BezierCurve<N>, BezierCurve<N>] {
+        const [left, right] = splitBezier(this.points, t)
+        return [new BezierCurve<N>(left), new BezierCurve<N>(right)]
+    }
+}
+
+/**
+ * A sequence of Bezier curves joined end to end. Each segment covers an
+ * equal share of the parameter range, so with `k` segments the i-th spans
+ * [i / k, (i + 1) / k].
+ *
+ * @typeParam N - The dimension of the space the path lies in.
+ */
+export class BezierPath<N extends Dim> implements Curve<N> {
+    public readonly segments: BezierCurve<N>[]
+
+    constructor(segments: BezierCurve<N>[]) {
+        if (segments.length === 0) {
+            throw new RangeError("A Bezier path needs at least one segment")
+        }
+        this.segments = segments
+    }
+
+    // Maps a path parameter to a segment and the parameter within it.
+    private locate(t: number): [BezierCurve<N>, number] {
+        const scaled = t * this.segments.length
+        const i = Math.min(Math.max(Math.floor(scaled), 0), this.segments.length - 1)
+        return [this.segments[i], scaled - i]
+    }
+
+    public point(t: number): NDimVector<N> {
+        const [segment, local] = this.locate(t)
+        return segment.point(local)
+    }
+
+    public derivative(t: number, order: number = 1): NDimVector<N> {
+        const [segment, local] = this.locate(t)
+        return segment.derivative(local, order).mul(Math.pow(this.segments.length, order))
+    }
+
+    public tangent(t: number): NDimVector<N> {
+        return tangent(this, t)
+    }
+
+    /**
+     * Splits this path in two at a parameter.
+     *
+     * @param t The parameter to split at, in [0, 1].
+     * @returns The part of the path before `t` and the part after it.
+     */
+    public subdivide(t: number): [BezierPath<N>, BezierPath<N>] {
+        const scaled = t * this.segments.length
+        const i = Math.min(Math.max(Math.floor(scaled), 0), this.segments.length - 1)
+        const [left, right] = this.segments[i].subdivide(scaled - i)
+        return [
+            new BezierPath<N>([...this.segments.slice(0, i), left]),
+            new BezierPath<N>([right, ...this.segments.slice(i + 1)]),
+        ]
+    }
+}
@@ -0,0 +1,43 @@
+import { FArray } from "../types/array";
+import { add, Dim, mul, sub } from "../vector/math";
+import { BezierCurve, BezierPath } from "./bezier";
+import { ControlPoint, toComponents } from "./curve";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * Builds a uniform Catmull-Rom spline through a sequence of points. The
+ * spline passes through every point, with the tangent at each point parallel
+ * to the line joining its neighbours. Each span is converted to the
+ * equivalent cubic Bezier curve, so the result supports everything a
+ * `BezierPath` does.
+ *
+ * On an open spline the first and last points are repeated to supply the
+ * missing neighbours. A closed spline wraps around, joining the last point
+ * back to the first.
+ *
+ * @param points the points to pass through; at least 2.
+ * @param closed whether the spline forms a loop, defaults to false.
+ * @returns the spline, with one segment per span between points.
+ */
+export const catmullRom = <N extends Dim>(points: ControlPoint<N>[], closed: boolean = false): BezierPath<N> => {
+    if (points.length < 2) {
+        throw new RangeError("A Catmull-Rom spline needs at least 2 points")
+    }
+
+    const ps = toComponents(points)
+    const n = ps.length
+    const at = (i: number): NVec<N> =>
+        closed ? ps[(i + n) % n] : ps[Math.min(Math.max(i, 0), n - 1)]
+
+    const spans = closed ? n : n - 1
+    return new BezierPath<N>(Array.from({ length: spans }, (_, i) => {
+        const [p0, p1, p2, p3] = [at(i - 1), at(i), at(i + 1), at(i + 2)]
+        return new BezierCurve<N>([
+            p1,
+            add(p1, mul(sub(p2, p0), 1 / 6)),
+            sub(p2, mul(sub(p3, p1), 1 / 6)),
+            p2,
+        ])
+    }))
+}
@@ -0,0 +1,68 @@
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+
+/**
+ * A control point given either as a tuple or as a vector.
+ */
+export type ControlPoint<N extends Dim> = FArray<N, number> | NDimVector<N>
+
+/**
+ * A parametric curve in N dimensions. Every curve is parameterized over
+ * [0, 1], with `point(0)` at its start and `point(1)` at its end.
+ *
+ * @typeParam N - The dimension of the space the curve lies in.
+ */
+export interface Curve<N extends Dim> {
+    /**
+     * Evaluates the curve.
+     *
+     * @param t The curve parameter, in [0, 1].
+     * @returns The point on the curve at `t`.
+     */
+    point(t: number): NDimVector<N>
+
+    /**
+     * Evaluates a derivative of the curve with respect to its parameter.
+     *
+     * @param t The curve parameter, in [0, 1].
+     * @param order Which derivative to take, defaults to 1.
+     * @returns The derivative vector at `t`.
+     */
+    derivative(t: number, order?: number): NDimVector<N>
+
+    /**
+     * Calculates the direction of travel along the curve.
+     *
+     * @param t The curve parameter, in [0, 1].
+     * @returns The unit tangent at `t`, or the zero vector where the curve is stationary.
+     */
+    tangent(t: number): NDimVector<N>
+}
+
+/**
+ * Calculates the unit tangent of a curve from its first derivative.
+ *
+ * @param curve the curve.
+ * @param t the curve parameter.
+ * @returns the unit tangent, or the zero vector where the curve is stationary.
+ */
+export const tangent = <N extends Dim>(curve: Curve<N>, t: number): NDimVector<N> =>
+    curve.derivative(t).unitOrZero
+
+/**
+ * Evaluates a curve at evenly spaced parameters, including both ends.
+ *
+ * @param curve the curve to sample.
+ * @param count the number of points, at least 2.
+ * @returns the sampled points, in order.
+ */
+export const sample = <N extends Dim>(curve: Curve<N>, count: number): NDimVector<N>[] => {
+    if (!Number.isInteger(count) || count < 2) {
+        throw new RangeError("At least 2 samples are required")
+    }
+    return Array.from({ length: count }, (_, i) => curve.point(i / (count - 1)))
+}
+
+export const toComponents = <N extends Dim>(points: ControlPoint<N>[]): FArray<N, number>[] =>
+    points.map(p => NDimVector.getComponents<N>(p))
@@ -0,0 +1,47 @@
+import test from 'ava';
+
+import { divBy, subBY } from '../scalar/math/curry';
+import { div, sub } from '../scalar/math/math';
+
+import { compose, curry, flip, pipe } from './combinators';
+
+test('pipe applies functions left to right', (t) => {
+  const f = pipe(
+    (s: string) => s.length,
+    (n) => n * 2,
+    (n) => `${n}`
+  );
+  t.is(f('abc'), '6');
+
+  // @ts-expect-error the second function expects a string
+  const bad = () => pipe((n: number) => n + 1, (s: string) => s.length);
+  t.is(typeof bad, 'function');
+});
+
+test('compose applies functions right to left', (t) => {
+  const f = compose(
+    (n: number) => `${n}`,
+    (n: number) => n * 2,
+    (s: string) => s.length
+  );
+  t.is(f('abc'), '6');
+});
+
+test('curry', (t) => {
+  const volume = curry((l: number, w: number, h: string) => `${l * w}${h}`);
+  t.is(volume(2)(3)('m'), '6m');
+
+  const partial = volume(2);
+  t.is(partial(4)('cm'), '8cm');
+  t.is(partial(5)('mm'), '10mm');
+});
+
+test('flip', (t) => {
+  const sub = (a: number, b: number) => a - b;
+  t.is(flip(sub)(1, 3), 2);
+});
+
+test('curry and flip generalize the curried scalar helpers', (t) => {
+  t.is(curry(flip(div))(4)(10), divBy(4)(10));
+  t.is(curry(flip(sub))(4)(10), subBY(4)(10));
+});
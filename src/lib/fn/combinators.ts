@@ -0,0 +1,70 @@
+type Unary = (arg: unknown) => unknown
+
+/**
+ * Composes functions from left to right: `pipe(f, g, h)(x)` is `h(g(f(x)))`.
+ * Each function's parameter is checked against the previous function's
+ * return type.
+ *
+ * @param fns - The functions to apply, in order.
+ * @returns A function applying every function in turn.
+ */
+export function pipe<A, B>(ab: (a: A) => B): (a: A) => B
+export function pipe<A, B, C>(ab: (a: A) => B, bc: (b: B) => C): (a: A) => C
+export function pipe<A, B, C, D>(ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): (a: A) => D
+export function pipe<A, B, C, D, E>(ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): (a: A) => E
+export function pipe<A, B, C, D, E, F>(ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F): (a: A) => F
+export function pipe<A, B, C, D, E, F, G>(ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G): (a: A) => G
+export function pipe(...fns: Unary[]): Unary {
+	return (arg: unknown) => fns.reduce((acc, fn) => fn(acc), arg)
+}
+
+/**
+ * Composes functions from right to left: `compose(h, g, f)(x)` is
+ * `h(g(f(x)))`, as in mathematical notation.
+ *
+ * @param fns - The functions to apply, last first.
+ * @returns A function applying every function in turn, starting with the last.
+ */
+export function compose<A, B>(ab: (a: A) => B): (a: A) => B
+export function compose<A, B, C>(bc: (b: B) => C, ab: (a: A) => B): (a: A) => C
+export function compose<A, B, C, D>(cd: (c: C) => D, bc: (b: B) => C, ab: (a: A) => B): (a: A) => D
+export function compose<A, B, C, D, E>(de: (d: D) => E, cd: (c: C) => D, bc: (b: B) => C, ab: (a: A) => B): (a: A) => E
+export function compose<A, B, C, D, E, F>(ef: (e: E) => F, de: (d: D) => E, cd: (c: C) => D, bc: (b: B) => C, ab: (a: A) => B): (a: A) => F
+export function compose<A, B, C, D, E, F, G>(fg: (f: F) => G, ef: (e: E) => F, de: (d: D) => E, cd: (c: C) => D, bc: (b: B) => C, ab: (a: A) => B): (a: A) => G
+export function compose(...fns: Unary[]): Unary {
+	return (arg: unknown) => fns.reduceRight((acc, fn) => fn(acc), arg)
+}
+
+/**
+ * A function taking the parameters `Args` one at a time.
+ */
+export type Curried<Args extends readonly unknown[], R> =
+	Args extends readonly [infer First, ...infer Rest]
+		? (arg: First) => Curried<Rest, R>
+		: R
+
+/**
+ * Converts a function of several parameters into a chain of functions taking
+ * one parameter each, e.g. `curry(add)(1)(2)` is `add(1, 2)`. The number of
+ * parameters is taken from `fn.length`, so default and rest parameters are
+ * not counted.
+ *
+ * @param fn - The function to curry.
+ * @returns The curried function.
+ */
+export const curry = <Args extends [unknown, ...unknown[]], R>(fn: (...args: Args) => R): Curried<Args, R> => {
+	const collect = (args: unknown[]): unknown =>
+		args.length >= fn.length
+			? fn(...args as Args)
+			: (arg: unknown) => collect([...args, arg])
+	return collect([]) as Curried<Args, R>
+}
+
+/**
+ * Swaps the parameters of a binary function.
+ *
+ * @param fn - The function to flip.
+ * @returns A function calling `fn` with its two arguments reversed.
+ */
+export const flip = <A, B, R>(fn: (a: A, b: B) => R) => (b: B, a: A): R =>
+	fn(a, b)
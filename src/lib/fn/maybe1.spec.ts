@@ -0,0 +1,39 @@
+import test from 'ava';
+
+import { Maybe } from './maybe1';
+
+test('getOrElse', (t) => {
+  t.is(Maybe.just(1).getOrElse(2), 1);
+  t.is(Maybe.none<number>().getOrElse(2), 2);
+});
+
+test('filter', (t) => {
+  t.is(Maybe.just(4).filter((n) => n % 2 === 0).getOrElse(0), 4);
+  t.true(Maybe.just(3).filter((n) => n % 2 === 0).isNone);
+  t.true(Maybe.none<number>().filter(() => true).isNone);
+});
+
+test('orElse', (t) => {
+  t.is(Maybe.just(1).orElse(() => Maybe.just(2)).getOrElse(0), 1);
+  t.is(Maybe.none<number>().orElse(() => Maybe.just(2)).getOrElse(0), 2);
+});
+
+test('zip and all', (t) => {
+  t.deepEqual(Maybe.just(1).zip(Maybe.just('a')).getOrElse(null), [1, 'a']);
+  t.true(Maybe.just(1).zip(Maybe.none<string>()).isNone);
+
+  const all: Maybe<[number, string, boolean]> = Maybe.all([Maybe.just(1), Maybe.just('a'), Maybe.just(true)]);
+  t.deepEqual(all.getOrElse(null), [1, 'a', true]);
+  t.true(Maybe.all([Maybe.just(1), Maybe.none<string>()]).isNone);
+  t.deepEqual(Maybe.all([]).getOrElse(null), []);
+});
+
+test('fromNullable', (t) => {
+  const values: (number | null | undefined)[] = [0, null, undefined];
+  t.deepEqual(values.map((v) => Maybe.fromNullable(v).isJust), [true, false, false]);
+});
+
+test('fromPromise', async (t) => {
+  t.is((await Maybe.fromPromise(Promise.resolve(1))).getOrElse(0), 1);
+  t.true((await Maybe.fromPromise(Promise.reject(new Error('failed')))).isNone);
+});
@@ -22,6 +22,47 @@ export class Maybe<T> {
 		return Maybe.just(value)
 	}
 
+	/**
+	 * Wraps a value that may be null or undefined.
+	 *
+	 * @param value the value to wrap.
+	 * @returns none if the value is null or undefined, else just the value.
+	 */
+	static fromNullable<T>(value: T | null | undefined): Maybe<NonNullable<T>> {
+		return Maybe.just(value as NonNullable<T>)
+	}
+
+	/**
+	 * Waits for a promise, turning a rejection into none.
+	 *
+	 * @param promise the promise to wait for.
+	 * @returns a promise of just the resolved value, or none if the promise rejects.
+	 */
+	static fromPromise<T>(promise: Promise<T>): Promise<Maybe<T>> {
+		return promise.then(Maybe.just, () => Maybe.none<T>())
+	}
+
+	/**
+	 * Combines a tuple of Maybes into a Maybe of a tuple.
+	 *
+	 * @param maybes the Maybes to combine.
+	 * @returns just the tuple of values if every Maybe has a value, else none.
+	 */
+	static all<T extends unknown[]>(maybes: [...{ [K in keyof T]: Maybe<T[K]> }]): Maybe<T> {
+		return maybes.reduce<Maybe<unknown[]>>(
+			(acc, maybe) => acc.flatMap(values => maybe.map(value => [...values, value])),
+			Maybe.just<unknown[]>([])
+		) as Maybe<T>
+	}
+
+	public get isJust(): boolean {
+		return this.value !== none
+	}
+
+	public get isNone(): boolean {
+		return this.value === none
+	}
+
 	public map<U>(f: (value: T) => U): Maybe<U> {
 		if (this.value === none) {
 			return Maybe.none<U>()
@@ -30,12 +71,12 @@ export class Maybe<T> {
 		return Maybe.just<U>(f(this.value))
 	}
 
-	public match<U>({ just, none }: { just: (value: T) => U; none: () => U }): U {
+	public match<U>({ just: onJust, none: onNone }: { just: (value: T) => U; none: () => U }): U {
 		if (this.value === none) { 
-			return none()
+			return onNone()
 		}
 
-		return just(this.value as T)
+		return onJust(this.value as T)
 	}
 
 	public flatMap<U>(f: (value: T) => Maybe<U>): Maybe<U> {
@@ -45,4 +86,58 @@ export class Maybe<T> {
 
 		return f(this.value)
 	}
+
+	/**
+	 * Keeps the value only if it satisfies a predicate.
+	 *
+	 * @param predicate the test the value must pass.
+	 * @returns this Maybe if it holds a value that passes, else none.
+	 */
+	public filter<U extends T>(predicate: (value: T) => value is U): Maybe<U>
+	public filter(predicate: (value: T) => boolean): Maybe<T>
+	public filter(predicate: (value: T) => boolean): Maybe<T> {
+		if (this.value === none || !predicate(this.value)) {
+			return Maybe.none<T>()
+		}
+
+		return this
+	}
+
+	/**
+	 * Extracts the value, falling back to a default.
+	 *
+	 * @param fallback the value to return if this Maybe is none.
+	 * @returns the value, or the fallback.
+	 */
+	public getOrElse(fallback: T): T {
+		if (this.value === none) {
+			return fallback
+		}
+
+		return this.value
+	}
+
+	/**
+	 * Chooses an alternative when this Maybe is none.
+	 *
+	 * @param alternative produces the Maybe to use instead; only called if needed.
+	 * @returns this Maybe if it holds a value, else the alternative.
+	 */
+	public orElse(alternative: () => Maybe<T>): Maybe<T> {
+		if (this.value === none) {
+			return alternative()
+		}
+
+		return this
+	}
+
+	/**
+	 * Pairs the value of this Maybe with the value of another.
+	 *
+	 * @param other the Maybe to pair with.
+	 * @returns just both values if both Maybes hold one, else none.
+	 */
+	public zip<U>(other: Maybe<U>): Maybe<[T, U]> {
+		return this.flatMap(value => other.map((o): [T, U] => [value, o]))
+	}
 }
\ No newline at end of file
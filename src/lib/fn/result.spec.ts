@@ -0,0 +1,38 @@
+import test from 'ava';
+
+import { Maybe } from './maybe1';
+import { Result } from './result';
+
+test('map, mapErr and flatMap', (t) => {
+  const ok = Result.ok<number, string>(2);
+  const err = Result.err<string, number>('failed');
+  t.is(ok.map((n) => n * 2).getOrElse(0), 4);
+  t.is(err.map((n) => n * 2).getOrElse(0), 0);
+  t.is(err.mapErr((e) => e.length).match({ ok: () => 0, err: (e) => e }), 6);
+  t.true(ok.flatMap(() => err).isErr);
+});
+
+test('getOrThrow throws the error', (t) => {
+  t.is(Result.ok(1).getOrThrow(), 1);
+  t.throws(() => Result.err(new RangeError('bad')).getOrThrow(), { instanceOf: RangeError, message: 'bad' });
+});
+
+test('orElse recovers from errors', (t) => {
+  const recovered = Result.err<string, number>('failed').orElse((e) => Result.ok(e.length));
+  t.is(recovered.getOrElse(0), 6);
+});
+
+test('all keeps the first error', (t) => {
+  const all: Result<[number, string], string> = Result.all([Result.ok(1), Result.ok('a')]);
+  t.deepEqual(all.getOrElse(null), [1, 'a']);
+  const failed = Result.all([Result.ok(1), Result.err('first'), Result.err('second')]);
+  t.is(failed.match({ ok: () => '', err: (e) => e }), 'first');
+});
+
+test('conversions', async (t) => {
+  t.true(Result.attempt(() => JSON.parse('{')).isErr);
+  t.is(Result.attempt(() => JSON.parse('1')).getOrElse(0), 1);
+  t.true((await Result.fromPromise(Promise.reject(new Error('failed')))).isErr);
+  t.is(Result.fromMaybe(Maybe.none<number>(), 'missing').match({ ok: String, err: (e) => e }), 'missing');
+  t.true(Result.err('failed').toMaybe().isNone);
+});
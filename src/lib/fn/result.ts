@@ -0,0 +1,167 @@
+import { Maybe } from "./maybe1"
+
+/**
+ * The outcome of an operation that can fail: either a value, or an error
+ * describing why there is no value. Unlike `Maybe`, the error is kept and
+ * typed, so callers can report or branch on it.
+ *
+ * @typeParam T - the type of the value.
+ * @typeParam E - the type of the error.
+ */
+export class Result<T, E> {
+	private constructor(private ok: boolean, private value: T, private error: E) {}
+
+	static ok<T, E = never>(value: T): Result<T, E> {
+		return new Result<T, E>(true, value, undefined)
+	}
+
+	static err<E, T = never>(error: E): Result<T, E> {
+		return new Result<T, E>(false, undefined, error)
+	}
+
+	/**
+	 * Calls a function, capturing anything it throws.
+	 *
+	 * @param f the function to call.
+	 * @returns ok with the return value, or err with the thrown value.
+	 */
+	static attempt<T>(f: () => T): Result<T, unknown> {
+		try {
+			return Result.ok(f())
+		} catch (error) {
+			return Result.err(error)
+		}
+	}
+
+	/**
+	 * Waits for a promise, capturing a rejection as the error.
+	 *
+	 * @param promise the promise to wait for.
+	 * @returns a promise of ok with the resolved value, or err with the rejection reason.
+	 */
+	static fromPromise<T>(promise: Promise<T>): Promise<Result<T, unknown>> {
+		return promise.then(value => Result.ok(value), error => Result.err(error))
+	}
+
+	/**
+	 * Converts a Maybe, supplying the error to use if it is none.
+	 *
+	 * @param maybe the Maybe to convert.
+	 * @param error the error for a none.
+	 * @returns ok with the value, or err with the given error.
+	 */
+	static fromMaybe<T, E>(maybe: Maybe<T>, error: E): Result<T, E> {
+		return maybe.match({
+			just: value => Result.ok<T, E>(value),
+			none: () => Result.err<E, T>(error),
+		})
+	}
+
+	/**
+	 * Combines a tuple of Results into a Result of a tuple.
+	 *
+	 * @param results the Results to combine.
+	 * @returns ok with the tuple of values if every Result is ok, else the first error.
+	 */
+	static all<T extends unknown[], E>(results: [...{ [K in keyof T]: Result<T[K], E> }]): Result<T, E> {
+		return results.reduce<Result<unknown[], E>>(
+			(acc, result) => acc.flatMap(values => result.map(value => [...values, value])),
+			Result.ok<unknown[], E>([])
+		) as Result<T, E>
+	}
+
+	public get isOk(): boolean {
+		return this.ok
+	}
+
+	public get isErr(): boolean {
+		return !this.ok
+	}
+
+	public map<U>(f: (value: T) => U): Result<U, E> {
+		if (!this.ok) {
+			return Result.err<E, U>(this.error)
+		}
+
+		return Result.ok<U, E>(f(this.value))
+	}
+
+	public mapErr<F>(f: (error: E) => F): Result<T, F> {
+		if (!this.ok) {
+			return Result.err<F, T>(f(this.error))
+		}
+
+		return Result.ok<T, F>(this.value)
+	}
+
+	public flatMap<U>(f: (value: T) => Result<U, E>): Result<U, E> {
+		if (!this.ok) {
+			return Result.err<E, U>(this.error)
+		}
+
+		return f(this.value)
+	}
+
+	public match<U>({ ok: onOk, err: onErr }: { ok: (value: T) => U; err: (error: E) => U }): U {
+		if (!this.ok) {
+			return onErr(this.error)
+		}
+
+		return onOk(this.value)
+	}
+
+	/**
+	 * Extracts the value, falling back to a default.
+	 *
+	 * @param fallback the value to return if this Result is an error.
+	 * @returns the value, or the fallback.
+	 */
+	public getOrElse(fallback: T): T {
+		if (!this.ok) {
+			return fallback
+		}
+
+		return this.value
+	}
+
+	/**
+	 * Extracts the value, throwing the error if there is none.
+	 *
+	 * @returns the value.
+	 * @throws the error held by this Result.
+	 */
+	public getOrThrow(): T {
+		if (!this.ok) {
+			throw this.error
+		}
+
+		return this.value
+	}
+
+	/**
+	 * Chooses an alternative when this Result is an error.
+	 *
+	 * @param alternative produces the Result to use instead from the error; only called if needed.
+	 * @returns this Result if it is ok, else the alternative.
+	 */
+	public orElse<F>(alternative: (error: E) => Result<T, F>): Result<T, F> {
+		if (!this.ok) {
+			return alternative(this.error)
+		}
+
+		return Result.ok<T, F>(this.value)
+	}
+
+	/**
+	 * Discards the error.
+	 *
+	 * @returns just the value if this Result is ok, else none.
+	 */
+	public toMaybe(): Maybe<T> {
+		if (!this.ok) {
+			return Maybe.none<T>()
+		}
+
+		return Maybe.just(this.value)
+	}
+}
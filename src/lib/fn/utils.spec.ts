@@ -0,0 +1,45 @@
+import test from 'ava';
+
+import { FArray } from '../types/array';
+
+import { chunk, partition, range, scan } from './utils';
+
+test('range', (t) => {
+  const three: FArray<3, number> = range(3);
+  t.deepEqual(three, [0, 1, 2]);
+  t.deepEqual(range(2, 5), [2, 3, 4]);
+  t.deepEqual(range(5, 0, -2), [5, 3, 1]);
+  t.deepEqual(range(0, 1, 0.25), [0, 0.25, 0.5, 0.75]);
+  t.deepEqual(range(3, 1), []);
+  t.throws(() => range(0, 1, 0), { instanceOf: RangeError });
+});
+
+test('chunk', (t) => {
+  t.deepEqual(chunk([1, 2, 3, 4, 5], 2), [[1, 2], [3, 4], [5]]);
+  t.deepEqual(chunk([], 3), []);
+  t.throws(() => chunk([1], 0), { instanceOf: RangeError });
+});
+
+test('scan keeps every accumulator', (t) => {
+  const xs: FArray<4, number> = [1, 2, 3, 4];
+  const sums: FArray<4, number> = scan((acc, x) => acc + x, 0, xs);
+  t.deepEqual(sums, [1, 3, 6, 10]);
+  t.deepEqual(scan((acc, x: string) => acc + x, '', ['a', 'b']), ['a', 'ab']);
+});
+
+test('partition', (t) => {
+  t.deepEqual(
+    partition([1, 2, 3, 4, 5], (n) => n % 2 === 0),
+    [
+      [2, 4],
+      [1, 3, 5],
+    ]
+  );
+
+  const [numbers, strings]: [number[], string[]] = partition(
+    [1, 'a', 2] as (number | string)[],
+    (x): x is number => typeof x === 'number'
+  );
+  t.deepEqual(numbers, [1, 2]);
+  t.deepEqual(strings, ['a']);
+});
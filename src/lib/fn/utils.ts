@@ -1,4 +1,4 @@
-import { Take } from "../types";
+import { FArray, Take } from "../types";
 
 /**
  * Extracts the first `N` elements from an array at runtime.
@@ -58,4 +58,97 @@ export const allSame = (xs: unknown[]): boolean => {
                 if (xs[i] !== first) return false;
             return true;
     }
-};
\ No newline at end of file
+};
+
+/**
+ * Creates an array of evenly spaced numbers. With a single argument the range
+ * runs from 0 up to, but not including, `end`, and its length is known
+ * statically.
+ *
+ * @param end - The number after the last element.
+ * @returns The numbers from 0 to `end - 1`.
+ */
+export function range<N extends number>(end: N): FArray<N, number>
+/**
+ * Creates an array of evenly spaced numbers from `start` up to, but not
+ * including, `end`.
+ *
+ * @param start - The first element.
+ * @param end - The bound the elements approach but do not reach.
+ * @param step - The difference between consecutive elements, defaults to 1.
+ * @returns The numbers in the range.
+ */
+export function range(start: number, end: number, step?: number): number[]
+export function range(start: number, end?: number, step: number = 1): number[] {
+    if (end === undefined) {
+        [start, end] = [0, start]
+    }
+    if (step === 0) {
+        throw new RangeError("The step of a range cannot be 0")
+    }
+
+    const length = Math.max(0, Math.ceil((end - start) / step))
+    return Array.from({ length }, (_, i) => start + i * step)
+}
+
+/**
+ * Splits an array into consecutive chunks. The last chunk is shorter if the
+ * array does not divide evenly.
+ *
+ * @param xs - The array to split.
+ * @param size - The number of elements in each chunk.
+ * @returns The chunks, in order.
+ */
+export const chunk = <T>(xs: readonly T[], size: number): T[][] => {
+    if (!Number.isInteger(size) || size < 1) {
+        throw new RangeError("The size of a chunk must be a positive integer")
+    }
+
+    const chunks: T[][] = []
+    for (let i = 0; i < xs.length; i += size) {
+        chunks.push(xs.slice(i, i + size))
+    }
+    return chunks
+}
+
+/**
+ * An array of A with the same length as Xs, fixed when that length is known
+ * statically.
+ */
+type SameLength<Xs extends readonly unknown[], A> =
+    number extends Xs["length"] ? A[] : FArray<Xs["length"], A>
+
+/**
+ * Folds an array like `reduce`, keeping every intermediate accumulator. The
+ * result has one element per input element, so tuple lengths are preserved.
+ *
+ * @param fn - Combines the accumulator with the next element.
+ * @param initial - The accumulator before the first element.
+ * @param xs - The array to fold.
+ * @returns The accumulator after each element.
+ */
+export const scan = <Xs extends readonly unknown[], A>(fn: (acc: A, x: Xs[number], i: number) => A, initial: A, xs: Xs): SameLength<Xs, A> => {
+    const result = new Array<A>(xs.length)
+    let acc = initial
+    for (let i = 0; i < xs.length; i++) {
+        acc = fn(acc, xs[i], i)
+        result[i] = acc
+    }
+    return result as SameLength<Xs, A>
+}
+
+/**
+ * Splits an array in two by a predicate, keeping the order of the elements.
+ *
+ * @param xs - The array to split.
+ * @param predicate - The test applied to each element.
+ * @returns The elements that pass the test, and the elements that fail it.
+ */
+export function partition<T, U extends T>(xs: readonly T[], predicate: (x: T, i: number) => x is U): [U[], Exclude<T, U>[]]
+export function partition<T>(xs: readonly T[], predicate: (x: T, i: number) => boolean): [T[], T[]]
+export function partition<T>(xs: readonly T[], predicate: (x: T, i: number) => boolean): [T[], T[]] {
+    const pass: T[] = []
+    const fail: T[] = []
+    xs.forEach((x, i) => (predicate(x, i) ? pass : fail).push(x))
+    return [pass, fail]
+}
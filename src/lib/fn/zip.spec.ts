@@ -0,0 +1,50 @@
+import test from 'ava';
+
+import { FArray } from '../types/array';
+
+import { unzip, zip, zipWith } from './zip';
+
+test('zipWith combines any number of arrays', (t) => {
+  t.deepEqual(
+    zipWith((a: number, b: string, c: boolean) => `${a}${b}${c}`, [1, 2], ['a', 'b'], [true, false]),
+    ['1atrue', '2bfalse']
+  );
+  t.deepEqual(
+    zipWith((a, b) => a + b, [1, 2, 3], [10, 20]),
+    [11, 22]
+  );
+  t.deepEqual(zipWith(() => 0), []);
+});
+
+test('zipWith handles large arrays', (t) => {
+  const xs = Array.from({ length: 200000 }, (_, i) => i);
+  const sums = zipWith((a, b) => a + b, xs, xs);
+  t.is(sums.length, xs.length);
+  t.is(sums[199999], 399998);
+});
+
+test('zip preserves statically known lengths', (t) => {
+  const xs: FArray<3, number> = [1, 2, 3];
+  const ys: FArray<3, string> = ['a', 'b', 'c'];
+  const zipped: FArray<3, [number, string]> = zip(xs, ys);
+  t.deepEqual(zipped, [
+    [1, 'a'],
+    [2, 'b'],
+    [3, 'c'],
+  ]);
+
+  const short: FArray<2, number> = [1, 2];
+  // @ts-expect-error the lengths differ, so the result length is unknown
+  const bad = (): FArray<2, [number, number]> => zip(xs, short);
+  t.is(typeof bad, 'function');
+});
+
+test('unzip inverts zip', (t) => {
+  const [numbers, strings]: [number[], string[]] = unzip<[number, string]>([
+    [1, 'a'],
+    [2, 'b'],
+  ]);
+  t.deepEqual(numbers, [1, 2]);
+  t.deepEqual(strings, ['a', 'b']);
+  t.deepEqual(unzip([]), []);
+});
@@ -1,23 +1,81 @@
-import { head, isEmpty, tail } from "./utils";
+import { FArray } from "../types/array";
 
 
+type Lists = readonly (readonly unknown[])[]
+
+/**
+ * The element types of a tuple of arrays, e.g. `[number, string]` for
+ * `[number[], string[]]`.
+ */
+export type Elements<Xs extends Lists> = { -readonly [K in keyof Xs]: Xs[K][number] }
+
+/**
+ * The arrays holding each position of a tuple, e.g. `[number[], string[]]`
+ * for `[number, string]`.
+ */
+export type Columns<T extends readonly unknown[]> = { -readonly [K in keyof T]: T[K][] }
+
+type IsUnion<T, U = T> = T extends unknown ? ([U] extends [T] ? false : true) : false
+
+/**
+ * The result of zipping arrays into values of type R. When every array has
+ * the same statically known length the result is a fixed length array of
+ * that length, otherwise it is a plain array.
+ */
+export type Zipped<Xs extends Lists, R> =
+	Xs[number]["length"] extends infer L extends number
+		? number extends L ? R[]
+		: IsUnion<L> extends true ? R[]
+		: FArray<L, R>
+		: R[]
+
 /**
  * Applies a function to elements of multiple arrays in a zip-like fashion.
+ * Stops at the end of the shortest array.
  *
  * @param fn - The function to apply.
  * @param xs - The arrays to zip.
  * @returns An array containing the results of applying `fn` to each set of elements from the input arrays.
  */
-export const zipWith = <T extends unknown[], F extends (...args: T) => unknown>(
+export const zipWith = <Xs extends Lists, R>(
 	// Function that combines elements
-	fn: F, 
-	// Arrays of elements corresponding to the types in tuple T
-	...xs: { [K in keyof T]: T[K][] } 
-): F extends (...args: T) => infer R ? R[] : never =>
-	// If any array is empty, return an empty array
-	xs.some(isEmpty)
-		? [] as F extends (...args: T) => infer R ? R[] : never
-		: [
-			fn(...xs.map(head) as T),
-			...zipWith(fn, ...xs.map(tail) as { [K in keyof T]: T[K][] })
-		] as F extends (...args: T) => infer R ? R[] : never
+	fn: (...args: Elements<Xs>) => R,
+	// Arrays of elements corresponding to the parameters of fn
+	...xs: Xs
+): Zipped<Xs, R> => {
+	const length = xs.length === 0 ? 0 : Math.min(...xs.map(x => x.length))
+	const result = new Array<R>(length)
+	for (let i = 0; i < length; i++) {
+		result[i] = fn(...xs.map(x => x[i]) as Elements<Xs>)
+	}
+	return result as Zipped<Xs, R>
+}
+
+/**
+ * Combines multiple arrays into an array of tuples. Stops at the end of the
+ * shortest array.
+ *
+ * @param xs - The arrays to zip.
+ * @returns An array whose i-th element holds the i-th element of each input array.
+ */
+export const zip = <Xs extends Lists>(...xs: Xs): Zipped<Xs, Elements<Xs>> =>
+	zipWith((...args) => args, ...xs)
+
+/**
+ * Splits an array of tuples into one array per tuple position; the inverse of
+ * `zip`. The number of arrays is taken from the first tuple, so an empty
+ * input produces an empty result.
+ *
+ * @param rows - The tuples to split.
+ * @returns The arrays holding each position of the tuples.
+ */
+export const unzip = <T extends readonly unknown[]>(rows: readonly T[]): Columns<T> => {
+	const width = rows.length === 0 ? 0 : rows[0].length
+	const columns = Array.from({ length: width }, () => new Array<unknown>(rows.length))
+	for (let r = 0; r < rows.length; r++) {
+		for (let c = 0; c < width; c++) {
+			columns[c][r] = rows[r][c]
+		}
+	}
+	return columns as Columns<T>
+}
@@ -0,0 +1,58 @@
+import test from 'ava';
+
+import { AABB } from './aabb';
+import { Plane } from './plane';
+import { Sphere } from './sphere';
+
+test('boxes', (t) => {
+  const box = AABB.fromPoints<3>([
+    [1, 2, 3],
+    [-1, 0, 5],
+    [0, 4, 4],
+  ]);
+  t.deepEqual(box.min.components, [-1, 0, 3]);
+  t.deepEqual(box.max.components, [1, 4, 5]);
+  t.deepEqual(box.center.components, [0, 2, 4]);
+  t.is(box.volume, 16);
+  t.true(box.contains([0, 1, 4]));
+  t.true(box.contains([1, 4, 5]));
+  t.false(box.contains([2, 1, 4]));
+  t.deepEqual(box.closestPoint([3, 1, 0]).components, [1, 1, 3]);
+  t.deepEqual(box.closestPoint([0, 1, 4]).components, [0, 1, 4]);
+  t.is(box.distanceTo([4, 8, 4]), 5);
+
+  const other = AABB.fromCenter<3>([2, 2, 2], [1, 1, 1]);
+  t.true(box.intersects(other));
+  t.false(box.intersects(AABB.fromCenter<3>([5, 2, 2], [1, 1, 1])));
+  t.deepEqual(box.union(other).min.components, [-1, 0, 1]);
+  t.throws(() => new AABB<2>([1, 0], [0, 1]), { instanceOf: RangeError });
+});
+
+test('spheres', (t) => {
+  const sphere = new Sphere<2>([0, 0], 5);
+  t.true(sphere.contains([3, 4]));
+  t.false(sphere.contains([4, 4]));
+  t.is(sphere.signedDistance([0, 2]), -3);
+  t.is(sphere.distanceTo([0, 2]), 0);
+  t.is(sphere.distanceTo([6, 8]), 5);
+  t.deepEqual(sphere.closestPoint([6, 8]).components, [3, 4]);
+  t.deepEqual(sphere.closestPoint([1, 1]).components, [1, 1]);
+  t.true(sphere.intersects(new Sphere<2>([9, 0], 4)));
+  t.false(sphere.intersects(new Sphere<2>([9, 0], 3)));
+  t.throws(() => new Sphere<2>([0, 0], -1), { instanceOf: RangeError });
+});
+
+test('planes', (t) => {
+  const plane = Plane.fromPoints([0, 0, 1], [1, 0, 1], [0, 1, 1]);
+  t.deepEqual(plane.normal.components, [0, 0, 1]);
+  t.is(plane.offset, 1);
+  t.is(plane.signedDistance([5, 5, 4]), 3);
+  t.is(plane.flipped.signedDistance([5, 5, 4]), -3);
+  t.deepEqual(plane.closestPoint([5, 5, -2]).components, [5, 5, 1]);
+  t.true(plane.contains([7, -3, 1]));
+
+  // A plane in 2 dimensions is a line.
+  const line = Plane.fromPointNormal<2>([0, 2], [0, 3]);
+  t.is(line.offset, 2);
+  t.is(line.distanceTo([4, -1]), 3);
+});
@@ -0,0 +1,178 @@
+import { Maybe } from "../fn/maybe1";
+import { Rng } from "../random/rng";
+import { inBox } from "../random/sampling";
+import { FArray } from "../types/array";
+import { clamp } from "../vector/component-wise";
+import { add, Dim, distance, map, mul, sub } from "../vector/math";
+import { BoundingBox, boundingBox } from "../vector/statistics";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Ray } from "./ray";
+import { DEFAULT_EPSILON, Point, Raycastable, RayHit, Shape } from "./shape";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * An axis-aligned box (a rectangle in 2 dimensions) given by its minimum and
+ * maximum corners.
+ *
+ * @typeParam N - The dimension of the space the box lies in.
+ */
+export class AABB<N extends Dim> implements Shape<N>, Raycastable<N> {
+    public readonly min: NDimVector<N>
+    public readonly max: NDimVector<N>
+
+    /**
+     * @param min The corner with the smallest components.
+     * @param max The corner with the largest components.
+     * @throws {RangeError} If any component of `min` is greater than in `max`.
+     */
+    constructor(min: Point<N>, max: Point<N>) {
+        const lo = NDimVector.getComponents<N>(min)
+        const hi = NDimVector.getComponents<N>(max)
+        if (lo.some((n, i) => !(n <= hi[i]))) {
+            throw new RangeError("The minimum corner of a box must not exceed its maximum corner")
+        }
+        this.min = new NDimVector<N>([...lo] as NVec<N>)
+        this.max = new NDimVector<N>([...hi] as NVec<N>)
+    }
+
+    /**
+     * Creates the smallest box containing a set of points.
+     *
+     * @param points The points to enclose; must not be empty.
+     * @returns A new AABB.
+     */
+    public static fromPoints<N extends Dim>(points: Point<N>[]): AABB<N> {
+        return AABB.from(boundingBox(points))
+    }
+
+    /**
+     * Creates a box from its center and half its size along each axis.
+     *
+     * @param center The center of the box.
+     * @param halfExtents Half the size of the box along each axis.
+     * @returns A new AABB.
+     */
+    public static fromCenter<N extends Dim>(center: Point<N>, halfExtents: Point<N>): AABB<N> {
+        const c = NDimVector.getComponents<N>(center)
+        const h = NDimVector.getComponents<N>(halfExtents)
+        return new AABB<N>(sub(c, h), add(c, h))
+    }
+
+    /**
+     * Creates a box from a bounding box, as returned by `boundingBox`.
+     *
+     * @param bounds The bounding box.
+     * @returns A new AABB.
+     */
+    public static from<N extends Dim>(bounds: BoundingBox<N>): AABB<N> {
+        return new AABB<N>(bounds.min, bounds.max)
+    }
+
+    public get center(): NDimVector<N> {
+        return new NDimVector<N>(mul(add(this.min.components, this.max.components), 0.5))
+    }
+
+    public get size(): NDimVector<N> {
+        return new NDimVector<N>(sub(this.max.components, this.min.components))
+    }
+
+    /**
+     * The content of the box: its area in 2 dimensions, its volume in 3.
+     */
+    public get volume(): number {
+        return this.size.components.reduce((acc, n) => acc * n, 1)
+    }
+
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        return new NDimVector<N>(clamp(NDimVector.getComponents<N>(point), this.min.components, this.max.components))
+    }
+
+    public distanceTo(point: Point<N>): number {
+        return distance(this.closestPoint(point).components, NDimVector.getComponents<N>(point))
+    }
+
+    public contains(point: Point<N>, epsilon: number = DEFAULT_EPSILON): boolean {
+        const p = NDimVector.getComponents<N>(point)
+        return p.every((n, i) => n >= this.min.components[i] - epsilon && n <= this.max.components[i] + epsilon)
+    }
+
+    /**
+     * Draws a point uniformly from inside the box.
+     *
+     * @param rng The source of randomness.
+     * @returns A random point in the box.
+     */
+    public randomPoint(rng: Rng): NDimVector<N> {
+        return new NDimVector<N>(inBox(this.min.components, this.max.components, rng))
+    }
+
+    /**
+     * Tests whether this box overlaps another.
+     *
+     * @param other The other box.
+     * @returns true if the boxes touch or overlap.
+     */
+    public intersects(other: AABB<N>): boolean {
+        return this.min.components.every((n, i) =>
+            n <= other.max.components[i] && other.min.components[i] <= this.max.components[i])
+    }
+
+    /**
+     * Creates the smallest box containing this box and another.
+     *
+     * @param other The other box.
+     * @returns A new AABB.
+     */
+    public union(other: AABB<N>): AABB<N> {
+        return new AABB<N>(
+            map((n, i) => Math.min(n, other.min.components[i]), this.min.components),
+            map((n, i) => Math.max(n, other.max.components[i]), this.max.components),
+        )
+    }
+
+    /**
+     * Finds where a ray enters the box, or where it leaves if it starts
+     * inside, using the slab method.
+     *
+     * @param ray The ray to cast.
+     * @returns The hit, or none if the ray misses.
+     */
+    public intersectRay(ray: Ray<N>): Maybe<RayHit<N>> {
+        let near = -Infinity
+        let far = Infinity
+        let nearAxis = -1
+        let farAxis = -1
+        const o = ray.origin.components
+        const d = ray.direction.components
+
+        for (let i = 0; i < o.length; i++) {
+            if (d[i] === 0) {
+                if (o[i] < this.min.components[i] || o[i] > this.max.components[i]) {
+                    return Maybe.none()
+                }
+                continue
+            }
+
+            const t0 = (this.min.components[i] - o[i]) / d[i]
+            const t1 = (this.max.components[i] - o[i]) / d[i]
+            if (Math.min(t0, t1) > near) {
+                near = Math.min(t0, t1)
+                nearAxis = i
+            }
+            if (Math.max(t0, t1) < far) {
+                far = Math.max(t0, t1)
+                farAxis = i
+            }
+        }
+
+        if (near > far || far < 0) {
+            return Maybe.none()
+        }
+
+        // The normal of the face crossed: against the ray on entry, along it on exit.
+        const [t, axis, sign] = near >= 0 ? [near, nearAxis, -1] : [far, farAxis, 1]
+        const normal = map((_, i) => i === axis ? sign * Math.sign(d[i]) : 0, d)
+        return Maybe.just({ t, point: ray.at(t), normal: new NDimVector<N>(normal) })
+    }
+}
@@ -0,0 +1,107 @@
+import { Maybe } from "../fn/maybe1";
+import { cross, Dim, dot, mul, sub, unitResult } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Ray } from "./ray";
+import { DEFAULT_EPSILON, Point, Raycastable, RayHit, Shape } from "./shape";
+
+/**
+ * A plane (a line in 2 dimensions, a hyperplane in higher ones): the points
+ * `x` with `normal · x = offset`. The normal is normalized on construction, so
+ * `offset` is the signed distance of the plane from the origin.
+ *
+ * @typeParam N - The dimension of the space the plane lies in.
+ */
+export class Plane<N extends Dim> implements Shape<N>, Raycastable<N> {
+    public readonly normal: NDimVector<N>
+    public readonly offset: number
+
+    /**
+     * @param normal The normal of the plane; it does not need to be normalized.
+     * @param offset The value of `normal · x` on the plane, for the normal as given.
+     * @throws {ZeroVectorError} If the normal is the zero vector.
+     */
+    constructor(normal: Point<N>, offset: number) {
+        const n = NDimVector.getComponents<N>(normal)
+        const unit = unitResult(n).getOrThrow()
+        this.normal = new NDimVector<N>(unit)
+        this.offset = offset / Math.sqrt(dot(n, n))
+    }
+
+    /**
+     * Creates the plane through a point with a given normal.
+     *
+     * @param point A point on the plane.
+     * @param normal The normal of the plane.
+     * @returns A new Plane.
+     */
+    public static fromPointNormal<N extends Dim>(point: Point<N>, normal: Point<N>): Plane<N> {
+        const n = NDimVector.getComponents<N>(normal)
+        return new Plane<N>(n, dot(n, NDimVector.getComponents<N>(point)))
+    }
+
+    /**
+     * Creates the plane through three points in 3 dimensions. The normal
+     * follows the right-hand rule, pointing towards the side from which the
+     * points appear counter-clockwise.
+     *
+     * @param a The first point.
+     * @param b The second point.
+     * @param c The third point.
+     * @returns A new Plane.
+     * @throws {ZeroVectorError} If the points are collinear.
+     */
+    public static fromPoints(a: Point<3>, b: Point<3>, c: Point<3>): Plane<3> {
+        const [pa, pb, pc] = [a, b, c].map(p => NDimVector.getComponents<3>(p))
+        return Plane.fromPointNormal<3>(pa, cross(sub(pb, pa), sub(pc, pa)))
+    }
+
+    /**
+     * Calculates the signed distance from the plane to a point: positive on
+     * the side the normal points to, negative on the other.
+     *
+     * @param point The point to measure.
+     * @returns The signed distance.
+     */
+    public signedDistance(point: Point<N>): number {
+        return dot(this.normal.components, NDimVector.getComponents<N>(point)) - this.offset
+    }
+
+    public distanceTo(point: Point<N>): number {
+        return Math.abs(this.signedDistance(point))
+    }
+
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        const p = NDimVector.getComponents<N>(point)
+        return new NDimVector<N>(sub(p, mul(this.normal.components, this.signedDistance(p))))
+    }
+
+    public contains(point: Point<N>, epsilon: number = DEFAULT_EPSILON): boolean {
+        return this.distanceTo(point) <= epsilon
+    }
+
+    /**
+     * The same plane with its normal reversed.
+     */
+    public get flipped(): Plane<N> {
+        return new Plane<N>(mul(this.normal.components, -1), -this.offset)
+    }
+
+    /**
+     * Finds where a ray crosses the plane, from either side. The normal of
+     * the hit is the plane's own normal.
+     *
+     * @param ray The ray to cast.
+     * @returns The hit, or none if the ray is parallel to the plane or points away from it.
+     */
+    public intersectRay(ray: Ray<N>): Maybe<RayHit<N>> {
+        const denominator = dot(this.normal.components, ray.direction.components)
+        if (Math.abs(denominator) < DEFAULT_EPSILON) {
+            return Maybe.none()
+        }
+
+        const t = -this.signedDistance(ray.origin) / denominator
+        return t < 0
+            ? Maybe.none()
+            : Maybe.just({ t, point: ray.at(t), normal: this.normal })
+    }
+}
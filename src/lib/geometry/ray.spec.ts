@@ -0,0 +1,109 @@
+import test from 'ava';
+
+import { Maybe } from '../fn/maybe1';
+
+import { ZeroVectorError } from '../vector/math';
+
+import { AABB } from './aabb';
+import { Plane } from './plane';
+import { Ray } from './ray';
+import { Segment } from './segment';
+import { Sphere } from './sphere';
+import { Triangle } from './triangle';
+
+const unwrap = <T>(maybe: Maybe<T>): T =>
+  maybe.match({
+    just: (value) => value,
+    none: () => {
+      throw new Error('Expected a value');
+    },
+  });
+
+const approxEqual = (actual: readonly number[], expected: readonly number[]) =>
+  actual.length === expected.length &&
+  actual.every((n, i) => Math.abs(n - expected[i]) < 1e-9);
+
+test('rays are normalized and measure distance', (t) => {
+  const ray = new Ray<3>([1, 0, 0], [0, 0, 2]);
+  t.deepEqual(ray.direction.components, [0, 0, 1]);
+  t.deepEqual(ray.at(3).components, [1, 0, 3]);
+  t.is(ray.closestParameter([5, 5, 4]), 4);
+  t.is(ray.closestParameter([5, 5, -4]), 0);
+  t.is(ray.distanceTo([1, 3, 2]), 3);
+  t.throws(() => new Ray<2>([0, 0], [0, 0]), { instanceOf: ZeroVectorError });
+  t.deepEqual(Ray.through<2>([1, 1], [1, 5]).direction.components, [0, 1]);
+});
+
+test('rays against spheres', (t) => {
+  const sphere = new Sphere<3>([0, 0, 5], 1);
+  const hit = unwrap(new Ray<3>([0, 0, 0], [0, 0, 1]).intersect(sphere));
+  t.is(hit.t, 4);
+  t.deepEqual(hit.normal.components, [0, 0, -1]);
+
+  const inside = unwrap(new Ray<3>([0, 0, 5], [1, 0, 0]).intersect(sphere));
+  t.is(inside.t, 1);
+  t.deepEqual(inside.point.components, [1, 0, 5]);
+
+  t.true(new Ray<3>([0, 0, 0], [0, 0, -1]).intersect(sphere).isNone);
+  t.true(new Ray<3>([0, 2, 0], [0, 0, 1]).intersect(sphere).isNone);
+
+  // The same query works in any number of dimensions.
+  const circle = new Sphere<4>([3, 0, 0, 0], 2);
+  t.is(unwrap(new Ray<4>([0, 0, 0, 0], [1, 0, 0, 0]).intersect(circle)).t, 1);
+});
+
+test('rays against boxes', (t) => {
+  const box = new AABB<3>([1, -1, -1], [3, 1, 1]);
+  const hit = unwrap(new Ray<3>([0, 0, 0], [1, 0, 0]).intersect(box));
+  t.is(hit.t, 1);
+  t.deepEqual(hit.normal.components, [-1, 0, 0]);
+
+  const diagonal = unwrap(new Ray<3>([0.5, 2, 0], [1, -1, 0]).intersect(box));
+  t.true(approxEqual(diagonal.point.components, [1.5, 1, 0]));
+  t.true(approxEqual(diagonal.normal.components, [0, 1, 0]));
+
+  const inside = unwrap(new Ray<3>([2, 0, 0], [0, 0, 1]).intersect(box));
+  t.is(inside.t, 1);
+  t.deepEqual(inside.normal.components, [0, 0, 1]);
+
+  t.true(new Ray<3>([0, 2, 0], [1, 0, 0]).intersect(box).isNone);
+  t.true(new Ray<3>([4, 0, 0], [1, 0, 0]).intersect(box).isNone);
+});
+
+test('rays against planes', (t) => {
+  const plane = new Plane<3>([0, 2, 0], 4);
+  const hit = unwrap(new Ray<3>([1, 0, 1], [0, 1, 0]).intersect(plane));
+  t.is(hit.t, 2);
+  t.deepEqual(hit.point.components, [1, 2, 1]);
+  t.true(new Ray<3>([0, 0, 0], [1, 0, 0]).intersect(plane).isNone);
+  t.true(new Ray<3>([0, 0, 0], [0, -1, 0]).intersect(plane).isNone);
+});
+
+test('rays against triangles and segments', (t) => {
+  const triangle = new Triangle<3>([0, 0, 0], [2, 0, 0], [0, 2, 0]);
+  const hit = unwrap(new Ray<3>([0.5, 0.5, 3], [0, 0, -1]).intersect(triangle));
+  t.is(hit.t, 3);
+  t.deepEqual(hit.normal.components, [0, 0, 1]);
+  const below = unwrap(new Ray<3>([0.5, 0.5, -3], [0, 0, 1]).intersect(triangle));
+  t.true(approxEqual(below.normal.components, [0, 0, -1]));
+  t.true(new Ray<3>([1.5, 1.5, 3], [0, 0, -1]).intersect(triangle).isNone);
+  t.true(new Ray<3>([0.5, 0.5, 3], [1, 0, 0]).intersect(triangle).isNone);
+
+  const segment = new Segment<2>([2, -1], [2, 1]);
+  const crossing = unwrap(new Ray<2>([0, 0.5], [1, 0]).intersect(segment));
+  t.is(crossing.t, 2);
+  t.deepEqual(crossing.normal.components, [-1, 0]);
+  t.true(new Ray<2>([0, 2], [1, 0]).intersect(segment).isNone);
+  t.true(new Ray<2>([3, 0], [1, 0]).intersect(segment).isNone);
+});
+
+test('ray casts against triangles and segments need a supported dimension', (t) => {
+  const triangle = new Triangle<2>([0, 0], [1, 0], [0, 1]);
+  // @ts-expect-error triangles only support ray casts in 3 dimensions
+  const flat = () => triangle.intersectRay(new Ray<2>([0, 0], [1, 0]));
+  const segment = new Segment<3>([0, 0, 0], [1, 0, 0]);
+  // @ts-expect-error segments only support ray casts in 2 dimensions
+  const spatial = () => segment.intersectRay(new Ray<3>([0, 0, 0], [1, 0, 0]));
+  t.is(typeof flat, 'function');
+  t.is(typeof spatial, 'function');
+});
@@ -0,0 +1,92 @@
+import { Maybe } from "../fn/maybe1";
+import { FArray } from "../types/array";
+import { add, Dim, distance, dot, mul, sub, unitResult } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Point, Raycastable, RayHit } from "./shape";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * A half-line starting at an origin and extending forever in one direction.
+ * The direction is normalized on construction, so distances along the ray are
+ * measured in the same units as the space.
+ *
+ * @typeParam N - The dimension of the space the ray lies in.
+ */
+export class Ray<N extends Dim> {
+    public readonly origin: NDimVector<N>
+    public readonly direction: NDimVector<N>
+
+    /**
+     * @param origin The point the ray starts at.
+     * @param direction The direction of the ray; it does not need to be normalized.
+     * @throws {ZeroVectorError} If the direction is the zero vector.
+     */
+    constructor(origin: Point<N>, direction: Point<N>) {
+        this.origin = new NDimVector<N>([...NDimVector.getComponents<N>(origin)] as NVec<N>)
+        this.direction = new NDimVector<N>(unitResult(NDimVector.getComponents<N>(direction)).getOrThrow())
+    }
+
+    /**
+     * Creates the ray starting at one point and passing through another.
+     *
+     * @param from The origin of the ray.
+     * @param to A second point on the ray.
+     * @returns A new Ray.
+     * @throws {ZeroVectorError} If the points coincide.
+     */
+    public static through<N extends Dim>(from: Point<N>, to: Point<N>): Ray<N> {
+        const origin = NDimVector.getComponents<N>(from)
+        return new Ray<N>(origin, sub(NDimVector.getComponents<N>(to), origin))
+    }
+
+    /**
+     * Calculates the point at a distance along the ray.
+     *
+     * @param t The distance from the origin.
+     * @returns The point at that distance.
+     */
+    public at(t: number): NDimVector<N> {
+        return new NDimVector<N>(add(this.origin.components, mul(this.direction.components, t)))
+    }
+
+    /**
+     * Projects a point onto the ray.
+     *
+     * @param point The point to project.
+     * @returns The distance along the ray of the nearest point, never negative.
+     */
+    public closestParameter(point: Point<N>): number {
+        return Math.max(0, dot(sub(NDimVector.getComponents<N>(point), this.origin.components), this.direction.components))
+    }
+
+    /**
+     * Finds the point of the ray nearest to a point.
+     *
+     * @param point The point to query.
+     * @returns The nearest point on the ray.
+     */
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        return this.at(this.closestParameter(point))
+    }
+
+    /**
+     * Calculates the distance from a point to the ray.
+     *
+     * @param point The point to query.
+     * @returns The distance to the nearest point on the ray.
+     */
+    public distanceTo(point: Point<N>): number {
+        return distance(this.closestPoint(point).components, NDimVector.getComponents<N>(point))
+    }
+
+    /**
+     * Casts this ray against a shape.
+     *
+     * @param shape The shape to intersect.
+     * @returns The nearest hit, or none if the ray misses.
+     */
+    public intersect(shape: Raycastable<N>): Maybe<RayHit<N>> {
+        return shape.intersectRay(this)
+    }
+}
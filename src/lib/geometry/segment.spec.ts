@@ -0,0 +1,48 @@
+import test from 'ava';
+
+import { Maybe } from '../fn/maybe1';
+
+import { Segment } from './segment';
+
+const unwrap = <T>(maybe: Maybe<T>): T =>
+  maybe.match({
+    just: (value) => value,
+    none: () => {
+      throw new Error('Expected a value');
+    },
+  });
+
+test('closest points on a segment', (t) => {
+  const segment = new Segment<3>([0, 0, 0], [4, 0, 0]);
+  t.is(segment.length, 4);
+  t.is(segment.closestParameter([1, 5, 0]), 0.25);
+  t.deepEqual(segment.closestPoint([-3, 1, 0]).components, [0, 0, 0]);
+  t.deepEqual(segment.closestPoint([9, 1, 0]).components, [4, 0, 0]);
+  t.is(segment.distanceTo([2, 3, 4]), 5);
+  t.true(segment.contains([3, 0, 0]));
+  t.false(segment.contains([5, 0, 0]));
+
+  const point = new Segment<2>([1, 1], [1, 1]);
+  t.deepEqual(point.closestPoint([5, 5]).components, [1, 1]);
+});
+
+test('closest points between segments', (t) => {
+  const a = new Segment<3>([0, 0, 0], [2, 0, 0]);
+  const b = new Segment<3>([1, -1, 2], [1, 1, 2]);
+  const [p, q] = a.closestPoints(b);
+  t.deepEqual(p.components, [1, 0, 0]);
+  t.deepEqual(q.components, [1, 0, 2]);
+  t.is(a.distanceToSegment(b), 2);
+
+  // Parallel and end-point cases.
+  t.is(a.distanceToSegment(new Segment<3>([0, 3, 0], [2, 3, 0])), 3);
+  t.is(a.distanceToSegment(new Segment<3>([5, 0, 0], [5, 4, 0])), 3);
+  t.is(a.distanceToSegment(new Segment<3>([3, 1, 0], [3, 1, 0])), Math.SQRT2);
+});
+
+test('crossing segments in 2 dimensions', (t) => {
+  const a = new Segment<2>([0, 0], [2, 2]);
+  t.deepEqual(unwrap(a.intersect(new Segment<2>([0, 2], [2, 0]))).components, [1, 1]);
+  t.true(a.intersect(new Segment<2>([3, 0], [3, 5])).isNone);
+  t.true(a.intersect(new Segment<2>([1, 0], [3, 2])).isNone);
+});
@@ -0,0 +1,170 @@
+import { Maybe } from "../fn/maybe1";
+import { clamp } from "../scalar/math/math";
+import { FArray } from "../types/array";
+import { Dim, distance, dot, lerp, magnitude, mul, perpDot, sub, unit } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Ray } from "./ray";
+import { DEFAULT_EPSILON, Point, RayHit, Shape } from "./shape";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * Finds the parameters of the closest points between two segments, each
+ * given by a start point and the vector to its end.
+ */
+const closestParameters = <N extends Dim>(p1: NVec<N>, d1: NVec<N>, p2: NVec<N>, d2: NVec<N>): [number, number] => {
+    const r = sub(p1, p2)
+    const a = dot(d1, d1)
+    const e = dot(d2, d2)
+    const f = dot(d2, r)
+
+    if (a === 0 && e === 0) return [0, 0]
+    if (a === 0) return [0, clamp(f / e, 0, 1)]
+
+    const c = dot(d1, r)
+    if (e === 0) return [clamp(-c / a, 0, 1), 0]
+
+    const b = dot(d1, d2)
+    const denominator = a * e - b * b
+    // Parallel segments have no unique closest pair, so any start works.
+    let s = denominator === 0 ? 0 : clamp((b * f - c * e) / denominator, 0, 1)
+    let t = (b * s + f) / e
+    if (t < 0) {
+        t = 0
+        s = clamp(-c / a, 0, 1)
+    } else if (t > 1) {
+        t = 1
+        s = clamp((b - c) / a, 0, 1)
+    }
+    return [s, t]
+}
+
+/**
+ * Solves `o1 + s·d1 = o2 + t·d2` for two lines in the plane.
+ */
+const crossingParameters = (o1: NVec<2>, d1: NVec<2>, o2: NVec<2>, d2: NVec<2>): Maybe<[number, number]> => {
+    const denominator = perpDot(d1, d2)
+    if (Math.abs(denominator) <= DEFAULT_EPSILON * magnitude(d1) * magnitude(d2)) {
+        return Maybe.none()
+    }
+    const w = sub(o2, o1)
+    return Maybe.just<[number, number]>([perpDot(w, d2) / denominator, perpDot(w, d1) / denominator])
+}
+
+/**
+ * A line segment between two points.
+ *
+ * @typeParam N - The dimension of the space the segment lies in.
+ */
+export class Segment<N extends Dim> implements Shape<N> {
+    public readonly start: NDimVector<N>
+    public readonly end: NDimVector<N>
+
+    constructor(start: Point<N>, end: Point<N>) {
+        this.start = new NDimVector<N>([...NDimVector.getComponents<N>(start)] as NVec<N>)
+        this.end = new NDimVector<N>([...NDimVector.getComponents<N>(end)] as NVec<N>)
+    }
+
+    public get length(): number {
+        return distance(this.start.components, this.end.components)
+    }
+
+    /**
+     * The vector from the start of the segment to its end.
+     */
+    public get delta(): NDimVector<N> {
+        return new NDimVector<N>(sub(this.end.components, this.start.components))
+    }
+
+    /**
+     * Calculates a point along the segment.
+     *
+     * @param t The fraction of the way from start to end, in [0, 1].
+     * @returns The point at `t`.
+     */
+    public at(t: number): NDimVector<N> {
+        return new NDimVector<N>(lerp(this.start.components, this.end.components, t))
+    }
+
+    /**
+     * Projects a point onto the segment.
+     *
+     * @param point The point to project.
+     * @returns The fraction of the way along the segment of the nearest point, in [0, 1].
+     */
+    public closestParameter(point: Point<N>): number {
+        const d = this.delta.components
+        const lengthSquared = dot(d, d)
+        return lengthSquared === 0
+            ? 0
+            : clamp(dot(sub(NDimVector.getComponents<N>(point), this.start.components), d) / lengthSquared, 0, 1)
+    }
+
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        return this.at(this.closestParameter(point))
+    }
+
+    public distanceTo(point: Point<N>): number {
+        return distance(this.closestPoint(point).components, NDimVector.getComponents<N>(point))
+    }
+
+    public contains(point: Point<N>, epsilon: number = DEFAULT_EPSILON): boolean {
+        return this.distanceTo(point) <= epsilon
+    }
+
+    /**
+     * Finds the closest pair of points between this segment and another.
+     *
+     * @param other The other segment.
+     * @returns The point on this segment and the point on the other that are nearest each other.
+     */
+    public closestPoints(other: Segment<N>): [NDimVector<N>, NDimVector<N>] {
+        const [s, t] = closestParameters(
+            this.start.components, this.delta.components,
+            other.start.components, other.delta.components,
+        )
+        return [this.at(s), other.at(t)]
+    }
+
+    /**
+     * Calculates the shortest distance between this segment and another.
+     *
+     * @param other The other segment.
+     * @returns The distance between their closest points.
+     */
+    public distanceToSegment(other: Segment<N>): number {
+        const [p, q] = this.closestPoints(other)
+        return p.distance(q)
+    }
+
+    /**
+     * Finds where this segment crosses another in 2 dimensions. Parallel
+     * segments are reported as not crossing, even when they overlap.
+     *
+     * @param other The other segment.
+     * @returns The crossing point, or none if the segments do not cross.
+     */
+    public intersect(this: Segment<2>, other: Segment<2>): Maybe<NDimVector<2>> {
+        return crossingParameters(this.start.components, this.delta.components, other.start.components, other.delta.components)
+            .filter(([s, t]) => s >= 0 && s <= 1 && t >= 0 && t <= 1)
+            .map(([s]) => this.at(s))
+    }
+
+    /**
+     * Finds where a ray crosses this segment in 2 dimensions. The normal of
+     * the hit is perpendicular to the segment, facing back towards the ray.
+     *
+     * @param ray The ray to cast.
+     * @returns The hit, or none if the ray misses or runs parallel to the segment.
+     */
+    public intersectRay(this: Segment<2>, ray: Ray<2>): Maybe<RayHit<2>> {
+        const d = this.delta.components
+        return crossingParameters(ray.origin.components, ray.direction.components, this.start.components, d)
+            .filter(([t, s]) => t >= 0 && s >= 0 && s <= 1)
+            .map(([t]) => {
+                const perpendicular = unit<2>([-d[1], d[0]])
+                const facing = dot(perpendicular, ray.direction.components) > 0 ? mul(perpendicular, -1) : perpendicular
+                return { t, point: ray.at(t), normal: new NDimVector<2>(facing) }
+            })
+    }
+}
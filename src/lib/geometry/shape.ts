@@ -0,0 +1,69 @@
+import { Maybe } from "../fn/maybe1";
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Ray } from "./ray";
+
+/**
+ * A point given either as a tuple or as a vector.
+ */
+export type Point<N extends Dim> = FArray<N, number> | NDimVector<N>
+
+/**
+ * Where a ray meets a surface.
+ *
+ * - `t`: the distance along the ray to the hit.
+ * - `point`: the point that was hit.
+ * - `normal`: the unit surface normal at the hit, facing outward for closed shapes.
+ */
+export type RayHit<N extends Dim> = { t: number; point: NDimVector<N>; normal: NDimVector<N> }
+
+/**
+ * The queries every geometric primitive supports.
+ *
+ * @typeParam N - The dimension of the space the shape lies in.
+ */
+export interface Shape<N extends Dim> {
+    /**
+     * Tests whether a point lies in the shape.
+     *
+     * @param point The point to test.
+     * @param epsilon The distance within which a point counts as inside,
+     * defaults to 1e-9.
+     * @returns true if the point is in the shape.
+     */
+    contains(point: Point<N>, epsilon?: number): boolean
+
+    /**
+     * Finds the point of the shape nearest to a point.
+     *
+     * @param point The point to query.
+     * @returns The nearest point of the shape; the point itself if it is inside.
+     */
+    closestPoint(point: Point<N>): NDimVector<N>
+
+    /**
+     * Calculates the distance from a point to the shape.
+     *
+     * @param point The point to query.
+     * @returns The distance, 0 for a point inside the shape.
+     */
+    distanceTo(point: Point<N>): number
+}
+
+/**
+ * A shape that rays can be cast against.
+ *
+ * @typeParam N - The dimension of the space the shape lies in.
+ */
+export interface Raycastable<N extends Dim> {
+    /**
+     * Finds the first point where a ray meets the shape.
+     *
+     * @param ray The ray to cast.
+     * @returns The nearest hit at a non-negative distance, or none if the ray misses.
+     */
+    intersectRay(ray: Ray<N>): Maybe<RayHit<N>>
+}
+
+export const DEFAULT_EPSILON = 1e-9
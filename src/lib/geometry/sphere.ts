@@ -0,0 +1,132 @@
+import { Maybe } from "../fn/maybe1";
+import { Rng } from "../random/rng";
+import { inBall, onUnitSphere } from "../random/sampling";
+import { FArray } from "../types/array";
+import { add, Dim, distance, distSquared, dot, mul, sub, unitOrZero } from "../vector/math";
+import { BoundingSphere } from "../vector/statistics";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Ray } from "./ray";
+import { DEFAULT_EPSILON, Point, Raycastable, RayHit, Shape } from "./shape";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * A solid sphere (a disc in 2 dimensions, a ball in higher ones) given by its
+ * center and radius.
+ *
+ * @typeParam N - The dimension of the space the sphere lies in.
+ */
+export class Sphere<N extends Dim> implements Shape<N>, Raycastable<N> {
+    public readonly center: NDimVector<N>
+    public readonly radius: number
+
+    /**
+     * @param center The center of the sphere.
+     * @param radius The radius of the sphere; must not be negative.
+     */
+    constructor(center: Point<N>, radius: number) {
+        if (!(radius >= 0)) {
+            throw new RangeError(`The radius of a sphere must be non-negative, got ${radius}`)
+        }
+        this.center = new NDimVector<N>([...NDimVector.getComponents<N>(center)] as NVec<N>)
+        this.radius = radius
+    }
+
+    /**
+     * Creates a sphere from a bounding sphere, as returned by `boundingSphere`.
+     *
+     * @param bounds The bounding sphere.
+     * @returns A new Sphere.
+     */
+    public static from<N extends Dim>(bounds: BoundingSphere<N>): Sphere<N> {
+        return new Sphere<N>(bounds.center, bounds.radius)
+    }
+
+    /**
+     * Calculates the signed distance from the surface of the sphere to a
+     * point: positive outside, negative inside.
+     *
+     * @param point The point to measure.
+     * @returns The signed distance.
+     */
+    public signedDistance(point: Point<N>): number {
+        return distance(NDimVector.getComponents<N>(point), this.center.components) - this.radius
+    }
+
+    public distanceTo(point: Point<N>): number {
+        return Math.max(0, this.signedDistance(point))
+    }
+
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        const p = NDimVector.getComponents<N>(point)
+        if (distSquared(p, this.center.components) <= this.radius * this.radius) {
+            return new NDimVector<N>([...p] as NVec<N>)
+        }
+        const direction = unitOrZero(sub(p, this.center.components))
+        return new NDimVector<N>(add(this.center.components, mul(direction, this.radius)))
+    }
+
+    public contains(point: Point<N>, epsilon: number = DEFAULT_EPSILON): boolean {
+        return this.signedDistance(point) <= epsilon
+    }
+
+    /**
+     * Draws a point uniformly from inside the sphere.
+     *
+     * @param rng The source of randomness.
+     * @returns A random point in the sphere.
+     */
+    public randomPoint(rng: Rng): NDimVector<N> {
+        return new NDimVector<N>(inBall(this.center.components, this.radius, rng))
+    }
+
+    /**
+     * Draws a point uniformly from the surface of the sphere.
+     *
+     * @param rng The source of randomness.
+     * @returns A random point on the surface.
+     */
+    public randomSurfacePoint(rng: Rng): NDimVector<N> {
+        const direction = onUnitSphere(this.center.length, rng)
+        return new NDimVector<N>(add(this.center.components, mul(direction, this.radius)))
+    }
+
+    /**
+     * Tests whether this sphere overlaps another.
+     *
+     * @param other The other sphere.
+     * @returns true if the spheres touch or overlap.
+     */
+    public intersects(other: Sphere<N>): boolean {
+        const radii = this.radius + other.radius
+        return distSquared(this.center.components, other.center.components) <= radii * radii
+    }
+
+    /**
+     * Finds where a ray enters the sphere, or where it leaves if it starts
+     * inside.
+     *
+     * @param ray The ray to cast.
+     * @returns The hit, or none if the ray misses.
+     */
+    public intersectRay(ray: Ray<N>): Maybe<RayHit<N>> {
+        // Solves |o + t·d - c|² = r² for t, with d of unit length.
+        const offset = sub(ray.origin.components, this.center.components)
+        const b = dot(offset, ray.direction.components)
+        const c = dot(offset, offset) - this.radius * this.radius
+        const discriminant = b * b - c
+        if (discriminant < 0) {
+            return Maybe.none()
+        }
+
+        const root = Math.sqrt(discriminant)
+        const t = -b - root >= 0 ? -b - root : -b + root
+        if (t < 0) {
+            return Maybe.none()
+        }
+
+        const point = ray.at(t)
+        const normal = unitOrZero(sub(point.components, this.center.components))
+        return Maybe.just({ t, point, normal: new NDimVector<N>(normal) })
+    }
+}
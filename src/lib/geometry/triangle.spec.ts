@@ -0,0 +1,50 @@
+import test from 'ava';
+
+import { ZeroVectorError } from '../vector/math';
+
+import { Triangle } from './triangle';
+
+const approxEqual = (actual: readonly number[], expected: readonly number[]) =>
+  actual.length === expected.length &&
+  actual.every((n, i) => Math.abs(n - expected[i]) < 1e-9);
+
+test('measurements', (t) => {
+  const triangle = new Triangle<3>([0, 0, 0], [3, 0, 0], [0, 4, 0]);
+  t.is(triangle.area, 6);
+  t.is(triangle.perimeter, 12);
+  t.deepEqual(triangle.centroid.components, [1, 4 / 3, 0]);
+  t.deepEqual(triangle.normal().components, [0, 0, 1]);
+  t.is(triangle.plane().signedDistance([1, 1, 2]), 2);
+  t.throws(() => new Triangle<3>([0, 0, 0], [1, 1, 1], [2, 2, 2]).normal(), { instanceOf: ZeroVectorError });
+});
+
+test('barycentric coordinates', (t) => {
+  const triangle = new Triangle<2>([0, 0], [4, 0], [0, 4]);
+  t.deepEqual(triangle.barycentric([0, 0]).components, [1, 0, 0]);
+  t.deepEqual(triangle.barycentric([1, 2]).components, [0.25, 0.25, 0.5]);
+  t.deepEqual(triangle.fromBarycentric([0.25, 0.25, 0.5]).components, [1, 2]);
+  t.true(triangle.barycentric([5, 5]).components.some((n) => n < 0));
+
+  // Points off the plane of a triangle are projected onto it.
+  const raised = new Triangle<4>([0, 0, 0, 0], [4, 0, 0, 0], [0, 4, 0, 0]);
+  t.true(approxEqual(raised.barycentric([1, 2, 7, -3]).components, [0.25, 0.25, 0.5]));
+  t.throws(() => new Triangle<2>([0, 0], [1, 1], [2, 2]).barycentric([0, 0]), { instanceOf: RangeError });
+});
+
+test('closest points in every region', (t) => {
+  const triangle = new Triangle<3>([0, 0, 0], [4, 0, 0], [0, 4, 0]);
+  const cases: [[number, number, number], [number, number, number]][] = [
+    [[1, 1, 3], [1, 1, 0]],
+    [[-1, -1, 0], [0, 0, 0]],
+    [[6, -1, 0], [4, 0, 0]],
+    [[-1, 6, 0], [0, 4, 0]],
+    [[2, -3, 1], [2, 0, 0]],
+    [[-3, 2, 0], [0, 2, 0]],
+    [[4, 4, 0], [2, 2, 0]],
+  ];
+  cases.forEach(([p, expected]) => t.true(approxEqual(triangle.closestPoint(p).components, expected)));
+  t.is(triangle.distanceTo([1, 1, 3]), 3);
+  t.true(triangle.contains([1, 1, 0]));
+  t.false(triangle.contains([1, 1, 0.1]));
+  t.true(new Triangle<2>([0, 0], [4, 0], [0, 4]).contains([1, 2]));
+});
@@ -0,0 +1,197 @@
+import { Maybe } from "../fn/maybe1";
+import { Rng } from "../random/rng";
+import { inTriangle } from "../random/sampling";
+import { FArray } from "../types/array";
+import { add, cross, Dim, distance, dot, mul, sub, unitResult } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Plane } from "./plane";
+import { Ray } from "./ray";
+import { DEFAULT_EPSILON, Point, RayHit, Shape } from "./shape";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * A solid triangle. The closest point, barycentric and area queries work in
+ * any number of dimensions; the normal and ray intersection need 3.
+ *
+ * @typeParam N - The dimension of the space the triangle lies in.
+ */
+export class Triangle<N extends Dim> implements Shape<N> {
+    public readonly a: NDimVector<N>
+    public readonly b: NDimVector<N>
+    public readonly c: NDimVector<N>
+
+    constructor(a: Point<N>, b: Point<N>, c: Point<N>) {
+        this.a = new NDimVector<N>([...NDimVector.getComponents<N>(a)] as NVec<N>)
+        this.b = new NDimVector<N>([...NDimVector.getComponents<N>(b)] as NVec<N>)
+        this.c = new NDimVector<N>([...NDimVector.getComponents<N>(c)] as NVec<N>)
+    }
+
+    public get vertices(): [NDimVector<N>, NDimVector<N>, NDimVector<N>] {
+        return [this.a, this.b, this.c]
+    }
+
+    public get centroid(): NDimVector<N> {
+        return new NDimVector<N>(mul(add(add(this.a.components, this.b.components), this.c.components), 1 / 3))
+    }
+
+    public get area(): number {
+        const ab = sub(this.b.components, this.a.components)
+        const ac = sub(this.c.components, this.a.components)
+        const abab = dot(ab, ab), acac = dot(ac, ac), abac = dot(ab, ac)
+        return 0.5 * Math.sqrt(Math.max(0, abab * acac - abac * abac))
+    }
+
+    public get perimeter(): number {
+        return distance(this.a.components, this.b.components)
+            + distance(this.b.components, this.c.components)
+            + distance(this.c.components, this.a.components)
+    }
+
+    /**
+     * The unit normal of the triangle, following the right-hand rule: the
+     * vertices appear counter-clockwise when viewed from the side it points to.
+     *
+     * @throws {ZeroVectorError} If the triangle is degenerate.
+     */
+    public normal(this: Triangle<3>): NDimVector<3> {
+        const ab = sub(this.b.components, this.a.components)
+        const ac = sub(this.c.components, this.a.components)
+        return new NDimVector<3>(unitResult(cross(ab, ac)).getOrThrow())
+    }
+
+    /**
+     * The plane the triangle lies in, with the same normal as the triangle.
+     *
+     * @throws {ZeroVectorError} If the triangle is degenerate.
+     */
+    public plane(this: Triangle<3>): Plane<3> {
+        return Plane.fromPoints(this.a, this.b, this.c)
+    }
+
+    /**
+     * Calculates the barycentric coordinates of a point: the weights `u, v, w`
+     * with `u + v + w = 1` such that `u·a + v·b + w·c` is the point. A point
+     * outside the plane of the triangle is projected onto it first.
+     *
+     * @param point The point to express.
+     * @returns The coordinates as a vector `(u, v, w)`; all lie in [0, 1] exactly
+     * when the point is inside the triangle.
+     * @throws {RangeError} If the triangle is degenerate.
+     */
+    public barycentric(point: Point<N>): NDimVector<3> {
+        const v0 = sub(this.b.components, this.a.components)
+        const v1 = sub(this.c.components, this.a.components)
+        const v2 = sub(NDimVector.getComponents<N>(point), this.a.components)
+        const d00 = dot(v0, v0), d01 = dot(v0, v1), d11 = dot(v1, v1)
+        const d20 = dot(v2, v0), d21 = dot(v2, v1)
+
+        const denominator = d00 * d11 - d01 * d01
+        if (denominator <= DEFAULT_EPSILON * d00 * d11) {
+            throw new RangeError("A degenerate triangle has no barycentric coordinates")
+        }
+        const v = (d11 * d20 - d01 * d21) / denominator
+        const w = (d00 * d21 - d01 * d20) / denominator
+        return new NDimVector<3>([1 - v - w, v, w])
+    }
+
+    /**
+     * Calculates the point with given barycentric coordinates.
+     *
+     * @param coordinates The weights of `a`, `b` and `c`.
+     * @returns The weighted sum of the vertices.
+     */
+    public fromBarycentric(coordinates: Point<3>): NDimVector<N> {
+        const [u, v, w] = NDimVector.getComponents<3>(coordinates)
+        return new NDimVector<N>(add(add(mul(this.a.components, u), mul(this.b.components, v)), mul(this.c.components, w)))
+    }
+
+    /**
+     * Draws a point uniformly from inside the triangle.
+     *
+     * @param rng The source of randomness.
+     * @returns A random point in the triangle.
+     */
+    public randomPoint(rng: Rng): NDimVector<N> {
+        return new NDimVector<N>(inTriangle(this.a.components, this.b.components, this.c.components, rng))
+    }
+
+    public closestPoint(point: Point<N>): NDimVector<N> {
+        // Finds the Voronoi region of the triangle the point lies in, as in
+        // Ericson's Real-Time Collision Detection, 5.1.5.
+        const p = NDimVector.getComponents<N>(point)
+        const [a, b, c] = [this.a.components, this.b.components, this.c.components]
+        const ab = sub(b, a), ac = sub(c, a), ap = sub(p, a)
+        const at = (v: NVec<N>) => new NDimVector<N>([...v] as NVec<N>)
+
+        const d1 = dot(ab, ap), d2 = dot(ac, ap)
+        if (d1 <= 0 && d2 <= 0) return at(a)
+
+        const bp = sub(p, b)
+        const d3 = dot(ab, bp), d4 = dot(ac, bp)
+        if (d3 >= 0 && d4 <= d3) return at(b)
+
+        const vc = d1 * d4 - d3 * d2
+        if (vc <= 0 && d1 >= 0 && d3 <= 0) {
+            return at(add(a, mul(ab, d1 / (d1 - d3))))
+        }
+
+        const cp = sub(p, c)
+        const d5 = dot(ab, cp), d6 = dot(ac, cp)
+        if (d6 >= 0 && d5 <= d6) return at(c)
+
+        const vb = d5 * d2 - d1 * d6
+        if (vb <= 0 && d2 >= 0 && d6 <= 0) {
+            return at(add(a, mul(ac, d2 / (d2 - d6))))
+        }
+
+        const va = d3 * d6 - d5 * d4
+        if (va <= 0 && d4 - d3 >= 0 && d5 - d6 >= 0) {
+            return at(add(b, mul(sub(c, b), (d4 - d3) / ((d4 - d3) + (d5 - d6)))))
+        }
+
+        const denominator = 1 / (va + vb + vc)
+        return at(add(a, add(mul(ab, vb * denominator), mul(ac, vc * denominator))))
+    }
+
+    public distanceTo(point: Point<N>): number {
+        return distance(this.closestPoint(point).components, NDimVector.getComponents<N>(point))
+    }
+
+    public contains(point: Point<N>, epsilon: number = DEFAULT_EPSILON): boolean {
+        return this.distanceTo(point) <= epsilon
+    }
+
+    /**
+     * Finds where a ray hits the triangle in 3 dimensions, from either side,
+     * with the Möller–Trumbore algorithm. The normal of the hit faces back
+     * towards the ray.
+     *
+     * @param ray The ray to cast.
+     * @returns The hit, or none if the ray misses or runs parallel to the triangle.
+     */
+    public intersectRay(this: Triangle<3>, ray: Ray<3>): Maybe<RayHit<3>> {
+        const [a, b, c] = [this.a.components, this.b.components, this.c.components]
+        const d = ray.direction.components
+        const e1 = sub(b, a), e2 = sub(c, a)
+        const h = cross(d, e2)
+        const determinant = dot(e1, h)
+        if (Math.abs(determinant) <= DEFAULT_EPSILON * Math.sqrt(dot(e1, e1) * dot(e2, e2))) {
+            return Maybe.none()
+        }
+
+        const s = sub(ray.origin.components, a)
+        const u = dot(s, h) / determinant
+        if (u < 0 || u > 1) return Maybe.none()
+
+        const q = cross(s, e1)
+        const v = dot(d, q) / determinant
+        if (v < 0 || u + v > 1) return Maybe.none()
+
+        const t = dot(e2, q) / determinant
+        if (t < 0) return Maybe.none()
+
+        const normal = this.normal()
+        return Maybe.just({ t, point: ray.at(t), normal: dot(normal.components, d) > 0 ? normal.mul(-1) : normal })
+    }
+}
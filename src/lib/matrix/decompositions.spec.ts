@@ -0,0 +1,103 @@
+import test from 'ava';
+
+import { cholesky, choleskyResult, lu, NotPositiveDefiniteError, qr, svd, symmetricEigen } from './decompositions';
+import { matMul, NMat, transpose } from './math';
+
+const close = (actual: readonly (readonly number[])[], expected: readonly (readonly number[])[]) =>
+  actual.length === expected.length &&
+  actual.every((row, r) => row.length === expected[r].length && row.every((n, c) => Math.abs(n - expected[r][c]) < 1e-9));
+
+const diagonal = (values: readonly number[]) => values.map((v, i) => values.map((_, j) => (i === j ? v : 0)));
+
+const identity = (n: number) => diagonal(Array.from({ length: n }, () => 1));
+
+const a: NMat<3, 3> = [
+  [2, 1, 1],
+  [4, -6, 0],
+  [-2, 7, 2],
+];
+
+test('LU decomposition with partial pivoting', (t) => {
+  const { lower, upper, permutation, sign } = lu(a);
+  const permuted = permutation.map((i) => a[i]);
+  t.true(close(matMul(lower, upper), permuted));
+  t.deepEqual(permutation, [1, 0, 2]);
+  t.is(sign, -1);
+  lower.forEach((row, r) => row.forEach((n, c) => c > r && t.is(n, 0)));
+  upper.forEach((row, r) => row.forEach((n, c) => c < r && t.is(n, 0)));
+
+  const singular = lu([
+    [1, 2],
+    [2, 4],
+  ]);
+  t.is(singular.upper[1][1], 0);
+});
+
+test('QR decomposition', (t) => {
+  const tall: NMat<4, 2> = [
+    [1, 2],
+    [3, 4],
+    [5, 6],
+    [7, 9],
+  ];
+  const { q, r } = qr(tall);
+  t.true(close(matMul(q, r), tall));
+  t.true(close(matMul(transpose(q), q), identity(4)));
+  r.forEach((row, i) => row.forEach((n, j) => j < i && t.is(n, 0)));
+
+  const square = qr(a);
+  t.true(close(matMul(square.q, square.r), a));
+});
+
+test('Cholesky decomposition', (t) => {
+  const spd: NMat<3, 3> = [
+    [4, 12, -16],
+    [12, 37, -43],
+    [-16, -43, 98],
+  ];
+  const l = cholesky(spd);
+  t.true(
+    close(l, [
+      [2, 0, 0],
+      [6, 1, 0],
+      [-8, 5, 3],
+    ])
+  );
+  t.true(close(matMul(l, transpose(l)), spd));
+  t.true(choleskyResult(a).match({ ok: () => false, err: (e) => e instanceof NotPositiveDefiniteError }));
+  t.throws(() => cholesky(a), { instanceOf: NotPositiveDefiniteError });
+});
+
+test('symmetric eigen-decomposition', (t) => {
+  const m: NMat<3, 3> = [
+    [2, -1, 0],
+    [-1, 2, -1],
+    [0, -1, 2],
+  ];
+  const { values, vectors } = symmetricEigen(m);
+  t.true(close([values], [[2 + Math.SQRT2, 2, 2 - Math.SQRT2]]));
+  t.true(close(matMul(matMul(vectors, diagonal(values) as NMat<3, 3>), transpose(vectors)), m));
+});
+
+test('singular value decomposition', (t) => {
+  const wide: NMat<2, 3> = [
+    [3, 2, 2],
+    [2, 3, -2],
+  ];
+  const { u, values, v } = svd(wide);
+  t.true(close([values], [[5, 3]]));
+  t.true(close(matMul(matMul(u, diagonal(values) as NMat<2, 2>), transpose(v)), wide));
+  t.true(close(matMul(transpose(u), u), identity(2)));
+  t.true(close(matMul(transpose(v), v), identity(2)));
+
+  const tall = svd(transpose(wide));
+  t.true(close([tall.values], [[5, 3]]));
+  t.is(tall.u.length, 3);
+  t.is(tall.u[0].length, 2);
+
+  const rankOne = svd([
+    [1, 2],
+    [2, 4],
+  ]);
+  t.true(close([rankOne.values], [[5, 0]]));
+});
@@ -0,0 +1,327 @@
+import { Result } from "../fn/result.js"
+import { FArray } from "../types/array.js"
+import { Min } from "../types/compile-time-math.js"
+import { Dim } from "../vector/math.js"
+import { NMat, transpose } from "./math.js"
+
+
+/**
+ * The eigen-decomposition of a symmetric matrix, `A = V diag(values) Vᵀ`.
+ *
+ * @typeParam N - the size of the decomposed matrix.
+ */
+export type SymmetricEigen<N extends Dim> = {
+    /** Eigenvalues, sorted from largest to smallest. */
+    values: FArray<N, number>
+    /** Unit eigenvectors stored as columns, in the same order as `values`. */
+    vectors: NMat<N, N>
+}
+
+const MAX_JACOBI_SWEEPS = 100
+
+const swap = <T>(items: T[], i: number, j: number): void => {
+    const tmp = items[i]
+    items[i] = items[j]
+    items[j] = tmp
+}
+
+/**
+ * Computes the eigenvalues and eigenvectors of a symmetric matrix using the
+ * cyclic Jacobi eigenvalue algorithm. Only the upper triangle is assumed to
+ * be meaningful if the matrix is not exactly symmetric.
+ *
+ * @param matrix the symmetric matrix to decompose.
+ * @returns the eigenvalues and eigenvectors of the matrix.
+ */
+export const symmetricEigen = <N extends Dim>(matrix: NMat<N, N>): SymmetricEigen<N> => {
+    const n = matrix.length
+    const a = matrix.map((row, r) => row.map((_, c) => c < r ? matrix[c][r] : matrix[r][c]))
+    const v = a.map((row, r) => row.map((_, c): number => r === c ? 1 : 0))
+    const scale = a.reduce((acc, row) => acc + row.reduce((s, x) => s + x * x, 0), 0)
+
+    for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+        let off = 0
+        for (let p = 0; p < n; p++)
+            for (let q = p + 1; q < n; q++) off += a[p][q] * a[p][q]
+        if (off <= scale * Number.EPSILON * Number.EPSILON) break
+
+        for (let p = 0; p < n; p++) {
+            for (let q = p + 1; q < n; q++) {
+                if (a[p][q] === 0) continue
+
+                const theta = (a[q][q] - a[p][p]) / (2 * a[p][q])
+                const t = (theta >= 0 ? 1 : -1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+                const c = 1 / Math.sqrt(t * t + 1)
+                const s = t * c
+
+                for (let k = 0; k < n; k++) {
+                    const akp = a[k][p], akq = a[k][q]
+                    a[k][p] = c * akp - s * akq
+                    a[k][q] = s * akp + c * akq
+                }
+                for (let k = 0; k < n; k++) {
+                    const apk = a[p][k], aqk = a[q][k]
+                    a[p][k] = c * apk - s * aqk
+                    a[q][k] = s * apk + c * aqk
+                }
+                for (let k = 0; k < n; k++) {
+                    const vkp = v[k][p], vkq = v[k][q]
+                    v[k][p] = c * vkp - s * vkq
+                    v[k][q] = s * vkp + c * vkq
+                }
+            }
+        }
+    }
+
+    const order = a.map((_, i) => i).sort((i, j) => a[j][j] - a[i][i])
+    return {
+        values: order.map(i => a[i][i]) as FArray<N, number>,
+        vectors: v.map(row => order.map(i => row[i])) as unknown as NMat<N, N>,
+    }
+}
+
+/**
+ * The error reported when a matrix that must be symmetric positive definite
+ * is not, such as when taking its Cholesky decomposition.
+ */
+export class NotPositiveDefiniteError extends Error {
+    constructor(message: string = "Matrix is not positive definite") {
+        super(message)
+        this.name = "NotPositiveDefiniteError"
+    }
+}
+
+/**
+ * An LU decomposition with partial pivoting, `P A = L U`.
+ *
+ * @typeParam N - the size of the decomposed matrix.
+ */
+export type LU<N extends Dim> = {
+    /** Lower triangular with a unit diagonal. */
+    lower: NMat<N, N>
+    /** Upper triangular; a zero on its diagonal means the matrix is singular. */
+    upper: NMat<N, N>
+    /** Row `i` of `P A` is row `permutation[i]` of `A`. */
+    permutation: FArray<N, number>
+    /** The determinant of `P`: 1 for an even number of row swaps, -1 for odd. */
+    sign: number
+}
+
+/**
+ * A QR decomposition, `A = Q R`.
+ *
+ * @typeParam R - the number of rows of the decomposed matrix.
+ * @typeParam C - the number of columns of the decomposed matrix.
+ */
+export type QR<R extends Dim, C extends Dim> = {
+    /** Orthogonal. */
+    q: NMat<R, R>
+    /** Upper triangular. */
+    r: NMat<R, C>
+}
+
+/**
+ * A thin singular value decomposition, `A = U diag(values) Vᵀ`, with
+ * `K = min(R, C)` singular values.
+ *
+ * @typeParam R - the number of rows of the decomposed matrix.
+ * @typeParam C - the number of columns of the decomposed matrix.
+ */
+export type SVD<R extends Dim, C extends Dim> = {
+    /** Left singular vectors stored as orthonormal columns. */
+    u: NMat<R, Min<R, C>>
+    /** Singular values, non-negative and sorted from largest to smallest. */
+    values: FArray<Min<R, C>, number>
+    /** Right singular vectors stored as orthonormal columns. */
+    v: NMat<C, Min<R, C>>
+}
+
+/**
+ * Computes the LU decomposition of a square matrix using Gaussian
+ * elimination with partial pivoting. Singular matrices still decompose, with
+ * zeros on the diagonal of `upper`.
+ *
+ * @param matrix the square matrix to decompose.
+ * @returns the factors and the row permutation.
+ */
+export const lu = <N extends Dim>(matrix: NMat<N, N>): LU<N> => {
+    const n = matrix.length
+    const u = matrix.map(row => [...row])
+    const l = u.map((row, r) => row.map((_, c): number => r === c ? 1 : 0))
+    const permutation = u.map((_, i) => i)
+    let sign = 1
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col
+        for (let r = col + 1; r < n; r++)
+            if (Math.abs(u[r][col]) > Math.abs(u[pivot][col])) pivot = r
+
+        if (pivot !== col) {
+            swap(u, pivot, col)
+            swap(permutation, pivot, col)
+            // Only the multipliers already computed move with their rows.
+            for (let c = 0; c < col; c++) {
+                const tmp = l[pivot][c]
+                l[pivot][c] = l[col][c]
+                l[col][c] = tmp
+            }
+            sign = -sign
+        }
+        if (u[col][col] === 0) continue
+
+        for (let r = col + 1; r < n; r++) {
+            const factor = u[r][col] / u[col][col]
+            l[r][col] = factor
+            for (let c = col; c < n; c++)
+                u[r][c] -= factor * u[col][c]
+        }
+    }
+
+    return {
+        lower: l as unknown as NMat<N, N>,
+        upper: u as unknown as NMat<N, N>,
+        permutation: permutation as FArray<N, number>,
+        sign,
+    }
+}
+
+/**
+ * Computes the QR decomposition of a matrix of any shape using Householder
+ * reflections.
+ *
+ * @param matrix the matrix to decompose.
+ * @returns the orthogonal and upper triangular factors.
+ */
+export const qr = <R extends Dim, C extends Dim>(matrix: NMat<R, C>): QR<R, C> => {
+    const rows = matrix.length
+    const cols = matrix[0]?.length ?? 0
+    const r = matrix.map(row => [...row])
+    const q = r.map((_, i) => r.map((_, j): number => i === j ? 1 : 0))
+
+    for (let k = 0; k < Math.min(rows - 1, cols); k++) {
+        // The reflection maps column k below the diagonal onto a multiple of
+        // the first basis vector, choosing the sign that avoids cancellation.
+        const v = r.slice(k).map(row => row[k])
+        const norm = Math.sqrt(v.reduce((acc, x) => acc + x * x, 0))
+        if (norm === 0) continue
+        v[0] += v[0] < 0 ? -norm : norm
+        const vv = v.reduce((acc, x) => acc + x * x, 0)
+
+        for (let c = 0; c < cols; c++) {
+            const f = 2 * v.reduce((acc, x, i) => acc + x * r[k + i][c], 0) / vv
+            v.forEach((x, i) => r[k + i][c] -= f * x)
+        }
+        for (let i = 0; i < rows; i++) {
+            const f = 2 * v.reduce((acc, x, j) => acc + x * q[i][k + j], 0) / vv
+            v.forEach((x, j) => q[i][k + j] -= f * x)
+        }
+        for (let i = k + 1; i < rows; i++) r[i][k] = 0
+    }
+
+    return {
+        q: q as unknown as NMat<R, R>,
+        r: r as unknown as NMat<R, C>,
+    }
+}
+
+/**
+ * Computes the Cholesky decomposition of a symmetric positive definite
+ * matrix, `A = L Lᵀ`. Only the lower triangle of the matrix is read.
+ *
+ * @param matrix the symmetric positive definite matrix to decompose.
+ * @returns the lower triangular factor `L`, or a NotPositiveDefiniteError.
+ */
+export const choleskyResult = <N extends Dim>(matrix: NMat<N, N>): Result<NMat<N, N>, NotPositiveDefiniteError> => {
+    const l = matrix.map(row => row.map(() => 0))
+
+    for (let j = 0; j < matrix.length; j++) {
+        let diagonal = matrix[j][j]
+        for (let k = 0; k < j; k++) diagonal -= l[j][k] * l[j][k]
+        if (!(diagonal > 0)) {
+            return Result.err(new NotPositiveDefiniteError(`Matrix is not positive definite: pivot ${j} is ${diagonal}`))
+        }
+        l[j][j] = Math.sqrt(diagonal)
+
+        for (let i = j + 1; i < matrix.length; i++) {
+            let sum = matrix[i][j]
+            for (let k = 0; k < j; k++) sum -= l[i][k] * l[j][k]
+            l[i][j] = sum / l[j][j]
+        }
+    }
+
+    return Result.ok(l as unknown as NMat<N, N>)
+}
+
+/**
+ * Computes the Cholesky decomposition of a symmetric positive definite
+ * matrix, `A = L Lᵀ`.
+ *
+ * @param matrix the symmetric positive definite matrix to decompose.
+ * @returns the lower triangular factor `L`.
+ * @throws NotPositiveDefiniteError if the matrix is not positive definite.
+ */
+export const cholesky = <N extends Dim>(matrix: NMat<N, N>): NMat<N, N> =>
+    choleskyResult(matrix).getOrThrow()
+
+/**
+ * Computes the thin singular value decomposition of a matrix of any shape
+ * using one-sided Jacobi rotations, which find small singular values to high
+ * relative accuracy. Columns of `u` belonging to zero singular values are zero.
+ *
+ * @param matrix the matrix to decompose.
+ * @returns the singular values and vectors of the matrix.
+ */
+export const svd = <R extends Dim, C extends Dim>(matrix: NMat<R, C>): SVD<R, C> => {
+    if (matrix.length < (matrix[0]?.length ?? 0)) {
+        // Decompose the transpose, which is taller than it is wide, and swap
+        // the roles of the left and right singular vectors.
+        const { u, values, v } = svd(transpose(matrix))
+        return { u: v, values, v: u } as unknown as SVD<R, C>
+    }
+
+    const rows = matrix.length
+    const cols = matrix[0]?.length ?? 0
+    const u = matrix.map(row => [...row])
+    const v = Array.from({ length: cols }, (_, i) => Array.from({ length: cols }, (_, j): number => i === j ? 1 : 0))
+
+    for (let sweep = 0; sweep < MAX_JACOBI_SWEEPS; sweep++) {
+        let rotated = false
+        for (let p = 0; p < cols; p++) {
+            for (let q = p + 1; q < cols; q++) {
+                let alpha = 0, beta = 0, gamma = 0
+                for (let i = 0; i < rows; i++) {
+                    alpha += u[i][p] * u[i][p]
+                    beta += u[i][q] * u[i][q]
+                    gamma += u[i][p] * u[i][q]
+                }
+                if (Math.abs(gamma) <= Number.EPSILON * Math.sqrt(alpha * beta)) continue
+                rotated = true
+
+                // Rotates columns p and q until they are orthogonal.
+                const zeta = (beta - alpha) / (2 * gamma)
+                const t = (zeta >= 0 ? 1 : -1) / (Math.abs(zeta) + Math.sqrt(zeta * zeta + 1))
+                const c = 1 / Math.sqrt(t * t + 1)
+                const s = t * c
+                for (let i = 0; i < rows; i++) {
+                    const uip = u[i][p], uiq = u[i][q]
+                    u[i][p] = c * uip - s * uiq
+                    u[i][q] = s * uip + c * uiq
+                }
+                for (let i = 0; i < cols; i++) {
+                    const vip = v[i][p], viq = v[i][q]
+                    v[i][p] = c * vip - s * viq
+                    v[i][q] = s * vip + c * viq
+                }
+            }
+        }
+        if (!rotated) break
+    }
+
+    const norms = v.map((_, j) => Math.sqrt(u.reduce((acc, row) => acc + row[j] * row[j], 0)))
+    const order = norms.map((_, j) => j).sort((i, j) => norms[j] - norms[i])
+    return {
+        u: u.map(row => order.map(j => norms[j] === 0 ? 0 : row[j] / norms[j])),
+        values: order.map(j => norms[j]),
+        v: v.map(row => order.map(j => row[j])),
+    } as unknown as SVD<R, C>
+}
@@ -0,0 +1,269 @@
+import { Maybe } from "../fn/maybe1.js"
+import { Result } from "../fn/result.js"
+import { FArray } from "../types/array.js"
+import { Dim, dot } from "../vector/math.js"
+
+
+/**
+ * A row-major matrix of R rows and C columns. Each row is a fixed length
+ * array of C numbers.
+ *
+ * @typeParam R - the number of rows.
+ * @typeParam C - the number of columns.
+ */
+export type NMat<R extends Dim, C extends Dim> = FArray<R, FArray<C, number>>
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * The error reported when a matrix that must be invertible is singular.
+ */
+export class SingularMatrixError extends Error {
+    constructor(message: string = "Matrix is singular and cannot be inverted") {
+        super(message)
+        this.name = "SingularMatrixError"
+    }
+}
+
+/**
+ * The largest pivot treated as zero when eliminating a square matrix: the
+ * rounding error elimination can make, `n·ε` relative to the largest entry.
+ * Being relative, it judges a matrix the same way at any scale.
+ *
+ * @param matrix the square matrix being eliminated.
+ * @returns the pivot magnitude at or below which the matrix counts as singular.
+ */
+export const singularPivotTolerance = <N extends Dim>(matrix: NMat<N, N>): number =>
+    matrix.length * Number.EPSILON * matrix.reduce((acc, row) => row.reduce((max, x) => Math.max(max, Math.abs(x)), acc), 0)
+
+const copy = <R extends Dim, C extends Dim>(matrix: NMat<R, C>): number[][] =>
+    matrix.map(row => [...row])
+
+const swapRows = (m: number[][], i: number, j: number): void => {
+    const tmp = m[i]
+    m[i] = m[j]
+    m[j] = tmp
+}
+
+/**
+ * Builds a matrix of the given size by calling `fn` for every entry.
+ *
+ * @param rows the number of rows.
+ * @param cols the number of columns.
+ * @param fn produces the value at row `r`, column `c`.
+ * @returns the generated R x C matrix.
+ */
+export const generate = <R extends Dim, C extends Dim>(rows: R, cols: C, fn: (r: number, c: number) => number): NMat<R, C> =>
+    Array.from({ length: rows }, (_, r) =>
+        Array.from({ length: cols }, (_, c) => fn(r, c))) as unknown as NMat<R, C>
+
+/**
+ * Creates a matrix filled with zeros.
+ *
+ * @param rows the number of rows.
+ * @param cols the number of columns.
+ * @returns an R x C matrix of zeros.
+ */
+export const zeros = <R extends Dim, C extends Dim>(rows: R, cols: C): NMat<R, C> =>
+    generate(rows, cols, () => 0)
+
+/**
+ * Creates the N x N identity matrix.
+ *
+ * @param n the number of rows and columns.
+ * @returns the identity matrix of size N.
+ */
+export const identity = <N extends Dim>(n: N): NMat<N, N> =>
+    generate(n, n, (r, c) => r === c ? 1 : 0)
+
+/**
+ * Map entries with a function
+ */
+export const map = <R extends Dim, C extends Dim>(fn: (n: number, r: number, c: number) => number, matrix: NMat<R, C>): NMat<R, C> =>
+    matrix.map((row, r) => row.map((n, c) => fn(n, r, c))) as unknown as NMat<R, C>
+
+/**
+ * Retrieves a single row of a matrix.
+ *
+ * @param matrix the matrix to read from.
+ * @param index the index of the row.
+ * @returns a copy of the row at `index`.
+ */
+export const row = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, index: number): NVec<C> =>
+    [...matrix[index]] as NVec<C>
+
+/**
+ * Retrieves a single column of a matrix.
+ *
+ * @param matrix the matrix to read from.
+ * @param index the index of the column.
+ * @returns the column at `index` as a vector.
+ */
+export const column = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, index: number): NVec<R> =>
+    matrix.map(row => row[index]) as NVec<R>
+
+/**
+ * Transposes a matrix, swapping its rows and columns.
+ *
+ * @param matrix the R x C matrix to transpose.
+ * @returns the C x R transpose.
+ */
+export const transpose = <R extends Dim, C extends Dim>(matrix: NMat<R, C>): NMat<C, R> =>
+    generate(matrix[0]?.length ?? 0, matrix.length, (r, c) => matrix[c][r]) as NMat<C, R>
+
+/**
+ * Matrix Addition. Calculates the entry-wise sum of two matrices of the same size.
+ *
+ * @param augend the first matrix, the augend.
+ * @param addend the second matrix, the addend.
+ * @returns sum of the provided matrices.
+ */
+export const add = <R extends Dim, C extends Dim>(augend: NMat<R, C>, addend: NMat<NoInfer<R>, NoInfer<C>>): NMat<R, C> =>
+    map((n, r, c) => n + addend[r][c], augend)
+
+/**
+ * Subtraction. Calculates the entry-wise difference of two matrices of the same size.
+ *
+ * @param minuend the matrix to subtract from.
+ * @param subtrahend the matrix to subtract from the minuend.
+ * @returns the difference between the minuend and subtrahend.
+ */
+export const sub = <R extends Dim, C extends Dim>(minuend: NMat<R, C>, subtrahend: NMat<NoInfer<R>, NoInfer<C>>): NMat<R, C> =>
+    map((n, r, c) => n - subtrahend[r][c], minuend)
+
+/**
+ * Calculates the product of a matrix and a scalar.
+ *
+ * @param matrix the matrix-valued multiplicand.
+ * @param scalar the scalar-valued multiplier.
+ * @returns the product of the matrix and the scalar.
+ */
+export const mul = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, scalar: number): NMat<R, C> =>
+    map(n => n * scalar, matrix)
+
+/**
+ * Calculates the product of two matrices. The number of columns of the left
+ * matrix must match the number of rows of the right matrix, which is checked
+ * at compile time.
+ *
+ * @param ls the R x K matrix on the left.
+ * @param rs the K x C matrix on the right.
+ * @returns the R x C matrix product.
+ */
+export const matMul = <R extends Dim, K extends Dim, C extends Dim>(ls: NMat<R, K>, rs: NMat<NoInfer<K>, C>): NMat<R, C> =>
+    generate(ls.length, rs[0]?.length ?? 0, (r, c) => dot(ls[r], column(rs, c))) as NMat<R, C>
+
+/**
+ * Calculates the product of a matrix and a column vector. The length of the
+ * vector must match the number of columns of the matrix.
+ *
+ * @param matrix the R x C matrix.
+ * @param vector the vector of C components.
+ * @returns the transformed vector of R components.
+ */
+export const matVecMul = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, vector: NVec<NoInfer<C>>): NVec<R> =>
+    matrix.map(row => dot(row, vector)) as NVec<R>
+
+/**
+ * Calculates the trace, the sum of the main diagonal, of a square matrix.
+ *
+ * @param matrix the square matrix.
+ * @returns the trace of the matrix.
+ */
+export const trace = <N extends Dim>(matrix: NMat<N, N>): number =>
+    matrix.reduce((acc, row, i) => acc + row[i], 0)
+
+/**
+ * Calculates the determinant of a square matrix using Gaussian elimination
+ * with partial pivoting.
+ *
+ * @param matrix the square matrix.
+ * @returns the determinant of the matrix.
+ */
+export const determinant = <N extends Dim>(matrix: NMat<N, N>): number => {
+    const m = copy(matrix)
+    const n = m.length
+    let det = 1
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col
+        for (let r = col + 1; r < n; r++)
+            if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+
+        if (m[pivot][col] === 0) return 0
+        if (pivot !== col) {
+            swapRows(m, pivot, col)
+            det = -det
+        }
+
+        det *= m[col][col]
+        for (let r = col + 1; r < n; r++) {
+            const factor = m[r][col] / m[col][col]
+            for (let c = col; c < n; c++)
+                m[r][c] -= factor * m[col][c]
+        }
+    }
+
+    return det
+}
+
+/**
+ * Calculates the inverse of a square matrix using Gauss-Jordan elimination.
+ *
+ * @param matrix the square matrix to invert.
+ * @returns the inverse of the matrix, or a SingularMatrixError if it has none.
+ */
+export const inverseResult = <N extends Dim>(matrix: NMat<N, N>): Result<NMat<N, N>, SingularMatrixError> => {
+    const n = matrix.length as N
+    const m = copy(matrix)
+    const inv = copy(identity(n))
+    const tolerance = singularPivotTolerance(matrix)
+
+    for (let col = 0; col < n; col++) {
+        let pivot = col
+        for (let r = col + 1; r < n; r++)
+            if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r
+
+        if (Math.abs(m[pivot][col]) <= tolerance)
+            return Result.err(new SingularMatrixError())
+
+        swapRows(m, pivot, col)
+        swapRows(inv, pivot, col)
+
+        const p = m[col][col]
+        for (let c = 0; c < n; c++) {
+            m[col][c] /= p
+            inv[col][c] /= p
+        }
+
+        for (let r = 0; r < n; r++) {
+            if (r === col) continue
+            const factor = m[r][col]
+            for (let c = 0; c < n; c++) {
+                m[r][c] -= factor * m[col][c]
+                inv[r][c] -= factor * inv[col][c]
+            }
+        }
+    }
+
+    return Result.ok(inv as unknown as NMat<N, N>)
+}
+
+/**
+ * Calculates the inverse of a square matrix using Gauss-Jordan elimination.
+ *
+ * @param matrix the square matrix to invert.
+ * @returns the inverse of the matrix.
+ * @throws SingularMatrixError if the matrix is singular.
+ */
+export const inverse = <N extends Dim>(matrix: NMat<N, N>): NMat<N, N> =>
+    inverseResult(matrix).getOrThrow()
+
+/**
+ * Calculates the inverse of a square matrix, if it has one.
+ *
+ * @param matrix the square matrix to invert.
+ * @returns the inverse of the matrix, or none if it is singular.
+ */
+export const tryInverse = <N extends Dim>(matrix: NMat<N, N>): Maybe<NMat<N, N>> =>
+    inverseResult(matrix).toMaybe()
@@ -0,0 +1,151 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { NMat, SingularMatrixError, determinant, inverse, inverseResult, matMul } from './math';
+import { solveResult } from './solve';
+import { NDimMatrix } from './n-dim-matrix';
+
+const approx = (actual: number, expected: number) =>
+  Math.abs(actual - expected) < 1e-9;
+
+test('matMul', (t) => {
+  const a = NDimMatrix.from<2, 3>([
+    [1, 2, 3],
+    [4, 5, 6],
+  ]);
+  const b = NDimMatrix.from<3, 2>([
+    [7, 8],
+    [9, 10],
+    [11, 12],
+  ]);
+  t.deepEqual(a.matMul(b).components, [
+    [58, 64],
+    [139, 154],
+  ]);
+});
+
+test('matMul rejects mismatched dimensions at compile time', (t) => {
+  const a: NMat<3, 2> = [
+    [1, 2],
+    [3, 4],
+    [5, 6],
+  ];
+  const b: NMat<3, 3> = [
+    [1, 0, 0],
+    [0, 1, 0],
+    [0, 0, 1],
+  ];
+  // @ts-expect-error a 3x2 matrix cannot be multiplied by a 3x3 matrix
+  const free = () => matMul(a, b);
+  // @ts-expect-error a 3x2 matrix cannot be multiplied by a 3x3 matrix
+  const method = () => NDimMatrix.from(a).matMul(b);
+  // @ts-expect-error the determinant is only defined for square matrices
+  const det = () => NDimMatrix.from(a).determinant();
+  t.is(typeof free, 'function');
+  t.is(typeof method, 'function');
+  t.is(typeof det, 'function');
+});
+
+test('transform', (t) => {
+  const rotate = NDimMatrix.from<2, 2>([
+    [0, -1],
+    [1, 0],
+  ]);
+  const v = rotate.transform(new NDimVector<2>([1, 0]));
+  t.deepEqual(v.components, [0, 1]);
+});
+
+test('transpose', (t) => {
+  const m = NDimMatrix.from<2, 3>([
+    [1, 2, 3],
+    [4, 5, 6],
+  ]);
+  t.deepEqual(m.transpose.components, [
+    [1, 4],
+    [2, 5],
+    [3, 6],
+  ]);
+});
+
+test('identity and trace', (t) => {
+  t.is(NDimMatrix.identity(4).trace(), 4);
+});
+
+test('determinant', (t) => {
+  const m: NMat<3, 3> = [
+    [2, 0, 1],
+    [1, 3, 2],
+    [1, 1, 2],
+  ];
+  t.true(approx(determinant(m), 6));
+  t.is(
+    determinant([
+      [1, 2],
+      [2, 4],
+    ]),
+    0
+  );
+});
+
+test('inverse', (t) => {
+  const m = NDimMatrix.from<3, 3>([
+    [2, 0, 1],
+    [1, 3, 2],
+    [1, 1, 2],
+  ]);
+  const product = m.matMul(m.inverse());
+  product.components.forEach((row, r) =>
+    row.forEach((n, c) => t.true(approx(n, r === c ? 1 : 0)))
+  );
+});
+
+test('inverse throws on a singular matrix', (t) => {
+  t.throws(
+    () =>
+      inverse([
+        [1, 2],
+        [2, 4],
+      ]),
+    { instanceOf: SingularMatrixError }
+  );
+});
+
+test('singularity is judged relative to the scale of the matrix', (t) => {
+  t.deepEqual(
+    inverse([
+      [1e-13, 0],
+      [0, 1e-13],
+    ]),
+    [
+      [1e13, 0],
+      [0, 1e13],
+    ]
+  );
+  const large: NMat<2, 2> = [
+    [1e20, 1e20],
+    [1e20, 1e20 + 1e4],
+  ];
+  t.true(inverseResult(large).isErr);
+  t.true(solveResult(large, [1, 1]).isErr);
+
+  const scaled: NMat<2, 2> = [
+    [1e-13, 2e-13],
+    [2e-13, 4e-13],
+  ];
+  t.true(inverseResult(scaled).isErr);
+  t.true(solveResult(scaled, [1, 1]).match({ ok: () => false, err: (e) => e instanceof SingularMatrixError }));
+});
+
+test('inverse results', (t) => {
+  const singular = new NDimMatrix<2, 2>([
+    [1, 2],
+    [2, 4],
+  ]);
+  t.true(singular.tryInverse().isNone);
+  t.true(singular.inverseResult().match({ ok: () => false, err: (e) => e instanceof SingularMatrixError }));
+  t.deepEqual(NDimMatrix.identity(2).inverseResult().getOrThrow().components, [
+    [1, 0],
+    [0, 1],
+  ]);
+});
@@ -0,0 +1,353 @@
+import { Maybe } from "../fn/maybe1";
+import { Result } from "../fn/result";
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import {
+    LU, NotPositiveDefiniteError, QR, SVD, SymmetricEigen, choleskyResult, lu, qr, svd, symmetricEigen
+} from "./decompositions";
+import {
+    NMat, SingularMatrixError, add, column, determinant, identity, inverse, inverseResult, map, matMul, matVecMul, mul, row, sub, trace, transpose, zeros
+} from "./math";
+import {
+    DEFAULT_MAX_CONDITION, SolveError, conditionNumber, leastSquaresResult, rank, solveResult
+} from "./solve";
+
+/**
+ * Represents a matrix of R rows and C columns with type-safe dimensions.
+ * Operations that combine matrices or vectors only accept operands whose
+ * dimensions agree, so mismatches are caught by the type checker.
+ *
+ * @typeParam R - The number of rows.
+ * @typeParam C - The number of columns.
+ */
+export class NDimMatrix<R extends Dim, C extends Dim> {
+    public components: NMat<R, C>
+
+    constructor(components: NMat<R, C>) {
+        this.components = components
+    }
+
+    /**
+     * Retrieves a single entry from the matrix.
+     *
+     * @param r The row index of the entry.
+     * @param c The column index of the entry.
+     * @returns The value at the specified row and column.
+     */
+    public getItem(r: number, c: number): number {
+        return this.components[r][c]
+    }
+
+    public setItem(r: number, c: number, value: number): number {
+        this.components[r][c] = value
+        return this.components[r][c]
+    }
+
+    /**
+     * Provides the number of rows in the matrix.
+     */
+    public get rowCount(): R {
+        return this.components.length as R
+    }
+
+    /**
+     * Provides the number of columns in the matrix.
+     */
+    public get columnCount(): C {
+        return (this.components[0]?.length ?? 0) as C
+    }
+
+    public static from<R extends Dim, C extends Dim>(rows: NMat<R, C>): NDimMatrix<R, C> {
+        return new NDimMatrix<R, C>(rows)
+    }
+
+    public static identity<N extends Dim>(n: N): NDimMatrix<N, N> {
+        return new NDimMatrix<N, N>(identity(n))
+    }
+
+    public static zeros<R extends Dim, C extends Dim>(rows: R, cols: C): NDimMatrix<R, C> {
+        return new NDimMatrix<R, C>(zeros(rows, cols))
+    }
+
+    /**
+     * Returns unwrapped matrix components. If a nested array is received, it will be returned, but
+     * if the matrix is an instance of this class, the components of the class will be returned.
+     *
+     * @param matrix the matrix from which we will retrieve components.
+     * @returns if matrix is an instance of NDimMatrix, returns matrix.components, else return the array.
+     */
+    public static getComponents<R extends Dim, C extends Dim>(matrix: NMat<R, C> | NDimMatrix<R, C>): NMat<R, C> {
+        return matrix instanceof NDimMatrix ? matrix.components : matrix
+    }
+
+    /**
+     * Retrieves a row of the matrix as a vector.
+     *
+     * @param index The index of the row.
+     * @returns A new NDimVector holding the row.
+     */
+    public row(index: number): NDimVector<C> {
+        return new NDimVector<C>(row(this.components, index))
+    }
+
+    /**
+     * Retrieves a column of the matrix as a vector.
+     *
+     * @param index The index of the column.
+     * @returns A new NDimVector holding the column.
+     */
+    public column(index: number): NDimVector<R> {
+        return new NDimVector<R>(column(this.components, index))
+    }
+
+    public map(fn: (n: number, r: number, c: number) => number): NDimMatrix<R, C> {
+        return new NDimMatrix(map(fn, this.components))
+    }
+
+    // ********************** Math Helpers *****************************
+
+    /**
+     * Adds another matrix of the same size to this matrix.
+     *
+     * @param other The matrix to add.
+     * @returns A new NDimMatrix representing the sum.
+     */
+    public add(other: NMat<R, C> | NDimMatrix<R, C>): NDimMatrix<R, C> {
+        return new NDimMatrix<R, C>(add(this.components, NDimMatrix.getComponents<R, C>(other)))
+    }
+
+    /**
+     * Subtracts another matrix of the same size from this matrix.
+     *
+     * @param other The matrix to subtract.
+     * @returns A new NDimMatrix representing the difference.
+     */
+    public sub(other: NMat<R, C> | NDimMatrix<R, C>): NDimMatrix<R, C> {
+        return new NDimMatrix<R, C>(sub(this.components, NDimMatrix.getComponents<R, C>(other)))
+    }
+
+    /**
+     * Multiplies this matrix by a scalar value.
+     *
+     * @param scalar The scalar value to multiply by.
+     * @returns A new NDimMatrix representing the product.
+     */
+    public mul(scalar: number): NDimMatrix<R, C> {
+        return new NDimMatrix<R, C>(mul(this.components, scalar))
+    }
+
+    /**
+     * Multiplies this matrix by another matrix whose row count equals this
+     * matrix's column count.
+     *
+     * @param other The C x K matrix on the right hand side.
+     * @returns A new R x K NDimMatrix representing the product.
+     */
+    public matMul<K extends Dim>(other: NMat<C, K> | NDimMatrix<C, K>): NDimMatrix<R, K> {
+        return new NDimMatrix<R, K>(matMul(this.components, NDimMatrix.getComponents<C, K>(other)))
+    }
+
+    /**
+     * Multiplies a column vector by this matrix.
+     *
+     * @param vector The vector of C components to transform.
+     * @returns A new NDimVector of R components.
+     */
+    public transform(vector: FArray<C, number> | NDimVector<C>): NDimVector<R> {
+        return new NDimVector<R>(matVecMul(this.components, NDimVector.getComponents<C>(vector)))
+    }
+
+    /**
+     * Swaps the rows and columns of this matrix.
+     *
+     * @returns A new C x R NDimMatrix.
+     */
+    public get transpose(): NDimMatrix<C, R> {
+        return new NDimMatrix<C, R>(transpose(this.components))
+    }
+
+    /**
+     * Calculates the trace of this matrix. Only available on square matrices.
+     *
+     * @returns The sum of the main diagonal.
+     */
+    public trace(this: NDimMatrix<R, R>): number {
+        return trace(this.components)
+    }
+
+    /**
+     * Calculates the determinant of this matrix. Only available on square matrices.
+     *
+     * @returns The determinant as a number.
+     */
+    public determinant(this: NDimMatrix<R, R>): number {
+        return determinant(this.components)
+    }
+
+    /**
+     * Calculates the inverse of this matrix. Only available on square matrices.
+     *
+     * @returns A new NDimMatrix representing the inverse.
+     * @throws SingularMatrixError if the matrix is singular.
+     */
+    public inverse(this: NDimMatrix<R, R>): NDimMatrix<R, R> {
+        return new NDimMatrix<R, R>(inverse(this.components))
+    }
+
+    /**
+     * Calculates the inverse of this matrix, if it has one. Only available on
+     * square matrices.
+     *
+     * @returns The inverse, or none if the matrix is singular.
+     */
+    public tryInverse(this: NDimMatrix<R, R>): Maybe<NDimMatrix<R, R>> {
+        return this.inverseResult().toMaybe()
+    }
+
+    /**
+     * Calculates the inverse of this matrix. Only available on square matrices.
+     *
+     * @returns The inverse, or a SingularMatrixError if the matrix is singular.
+     */
+    public inverseResult(this: NDimMatrix<R, R>): Result<NDimMatrix<R, R>, SingularMatrixError> {
+        return inverseResult(this.components).map(inv => new NDimMatrix<R, R>(inv))
+    }
+
+    // ****************** Decompositions and Solvers *******************
+
+    /**
+     * Computes the LU decomposition of this matrix with partial pivoting.
+     * Only available on square matrices.
+     *
+     * @returns The factors, as plain arrays, and the row permutation.
+     */
+    public lu(this: NDimMatrix<R, R>): LU<R> {
+        return lu(this.components)
+    }
+
+    /**
+     * Computes the QR decomposition of this matrix using Householder reflections.
+     *
+     * @returns The orthogonal and upper triangular factors, as plain arrays.
+     */
+    public qr(): QR<R, C> {
+        return qr(this.components)
+    }
+
+    /**
+     * Computes the Cholesky factor of this matrix. Only available on square matrices.
+     *
+     * @returns The lower triangular factor `L` with `A = L Lᵀ`.
+     * @throws NotPositiveDefiniteError if the matrix is not positive definite.
+     */
+    public cholesky(this: NDimMatrix<R, R>): NDimMatrix<R, R> {
+        return this.choleskyResult().getOrThrow()
+    }
+
+    /**
+     * Computes the Cholesky factor of this matrix. Only available on square matrices.
+     *
+     * @returns The lower triangular factor, or a NotPositiveDefiniteError.
+     */
+    public choleskyResult(this: NDimMatrix<R, R>): Result<NDimMatrix<R, R>, NotPositiveDefiniteError> {
+        return choleskyResult(this.components).map(l => new NDimMatrix<R, R>(l))
+    }
+
+    /**
+     * Computes the eigenvalues and eigenvectors of this matrix, which must be
+     * symmetric. Only available on square matrices.
+     *
+     * @returns The eigenvalues, largest first, and the eigenvectors as columns.
+     */
+    public symmetricEigen(this: NDimMatrix<R, R>): SymmetricEigen<R> {
+        return symmetricEigen(this.components)
+    }
+
+    /**
+     * Computes the thin singular value decomposition of this matrix.
+     *
+     * @returns The singular values, largest first, and the singular vectors as columns.
+     */
+    public svd(): SVD<R, C> {
+        return svd(this.components)
+    }
+
+    /**
+     * Solves `A x = b` with this matrix as `A`. Only available on square matrices.
+     *
+     * @param b The right-hand side.
+     * @param maxCondition The largest acceptable condition number, defaults to `DEFAULT_MAX_CONDITION`.
+     * @returns The solution vector.
+     * @throws SingularMatrixError if the matrix is singular.
+     * @throws IllConditionedError if the condition number exceeds `maxCondition`.
+     */
+    public solve(this: NDimMatrix<R, R>, b: FArray<R, number> | NDimVector<R>, maxCondition: number = DEFAULT_MAX_CONDITION): NDimVector<R> {
+        return this.solveResult(b, maxCondition).getOrThrow()
+    }
+
+    /**
+     * Solves `A x = b` with this matrix as `A`, if it has a well-conditioned
+     * unique solution. Only available on square matrices.
+     *
+     * @param b The right-hand side.
+     * @param maxCondition The largest acceptable condition number, defaults to `DEFAULT_MAX_CONDITION`.
+     * @returns The solution vector, or none.
+     */
+    public trySolve(this: NDimMatrix<R, R>, b: FArray<R, number> | NDimVector<R>, maxCondition: number = DEFAULT_MAX_CONDITION): Maybe<NDimVector<R>> {
+        return this.solveResult(b, maxCondition).toMaybe()
+    }
+
+    /**
+     * Solves `A x = b` with this matrix as `A`. Only available on square matrices.
+     *
+     * @param b The right-hand side.
+     * @param maxCondition The largest acceptable condition number, defaults to `DEFAULT_MAX_CONDITION`.
+     * @returns The solution vector, or the reason there is none.
+     */
+    public solveResult(this: NDimMatrix<R, R>, b: FArray<R, number> | NDimVector<R>, maxCondition: number = DEFAULT_MAX_CONDITION): Result<NDimVector<R>, SolveError> {
+        return solveResult(this.components, b, maxCondition)
+    }
+
+    /**
+     * Finds the `x` minimizing `|A x - b|` with this matrix as `A`.
+     *
+     * @param b The right-hand side.
+     * @returns The least-squares solution.
+     * @throws SingularMatrixError if the columns of the matrix are linearly dependent.
+     * @throws {RangeError} If the matrix has fewer rows than columns.
+     */
+    public leastSquares(b: FArray<R, number> | NDimVector<R>): NDimVector<C> {
+        return this.leastSquaresResult(b).getOrThrow()
+    }
+
+    /**
+     * Finds the `x` minimizing `|A x - b|` with this matrix as `A`.
+     *
+     * @param b The right-hand side.
+     * @returns The least-squares solution, or a SingularMatrixError if it is not unique.
+     * @throws {RangeError} If the matrix has fewer rows than columns.
+     */
+    public leastSquaresResult(b: FArray<R, number> | NDimVector<R>): Result<NDimVector<C>, SingularMatrixError> {
+        return leastSquaresResult(this.components, b)
+    }
+
+    /**
+     * Calculates the numerical rank of this matrix.
+     *
+     * @param tolerance Singular values at or below this count as zero.
+     * @returns The number of linearly independent rows or columns.
+     */
+    public rank(tolerance?: number): number {
+        return rank(this.components, tolerance)
+    }
+
+    /**
+     * Calculates the 2-norm condition number of this matrix.
+     *
+     * @returns The condition number; Infinity for a singular matrix.
+     */
+    public conditionNumber(): number {
+        return conditionNumber(this.components)
+    }
+}
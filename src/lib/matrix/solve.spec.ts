@@ -0,0 +1,96 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { matVecMul, NMat, SingularMatrixError } from './math';
+import { NDimMatrix } from './n-dim-matrix';
+import { conditionNumber, IllConditionedError, leastSquares, leastSquaresResult, rank, solve, solveResult, trySolve } from './solve';
+
+const approxEqual = (actual: readonly number[], expected: readonly number[]) =>
+  actual.length === expected.length &&
+  actual.every((n, i) => Math.abs(n - expected[i]) < 1e-9);
+
+const a: NMat<3, 3> = [
+  [2, 1, 1],
+  [4, -6, 0],
+  [-2, 7, 2],
+];
+
+test('solve a square system', (t) => {
+  const x = solve(a, [5, -2, 9]);
+  t.true(x instanceof NDimVector);
+  t.true(approxEqual(x.components, [1, 1, 2]));
+  t.true(approxEqual(matVecMul(a, x.components), [5, -2, 9]));
+  t.true(approxEqual(new NDimMatrix<3, 3>(a).solve(new NDimVector<3>([5, -2, 9])).components, [1, 1, 2]));
+});
+
+test('singular and ill-conditioned systems are reported', (t) => {
+  const singular: NMat<2, 2> = [
+    [1, 2],
+    [2, 4],
+  ];
+  t.true(solveResult(singular, [1, 2]).match({ ok: () => false, err: (e) => e instanceof SingularMatrixError }));
+  t.throws(() => solve(singular, [1, 2]), { instanceOf: SingularMatrixError });
+  t.true(trySolve(singular, [1, 2]).isNone);
+
+  const nearlySingular: NMat<2, 2> = [
+    [1, 1],
+    [1, 1 + 1e-14],
+  ];
+  const error = solveResult(nearlySingular, [2, 2]).match({ ok: () => undefined, err: (e) => e });
+  t.true(error instanceof IllConditionedError);
+  t.true((error as IllConditionedError).conditionNumber > 1e12);
+
+  // A looser limit accepts the system.
+  t.true(trySolve(nearlySingular, [2, 2], 1e16).isJust);
+});
+
+test('least squares fits a line', (t) => {
+  // Points on y = 2x + 1, with noise that cancels out.
+  const design: NMat<4, 2> = [
+    [0, 1],
+    [1, 1],
+    [2, 1],
+    [3, 1],
+  ];
+  const fit = leastSquares(design, [1.1, 2.9, 5.1, 6.9]);
+  t.true(approxEqual(fit.components, [1.96, 1.06]));
+  t.true(approxEqual(new NDimMatrix<4, 2>(design).leastSquares([1, 3, 5, 7]).components, [2, 1]));
+
+  const dependent: NMat<3, 2> = [
+    [1, 2],
+    [2, 4],
+    [3, 6],
+  ];
+  t.true(leastSquaresResult(dependent, [1, 2, 3]).isErr);
+  t.throws(() => leastSquares([[1, 2]] as NMat<1, 2>, [1]), { instanceOf: RangeError });
+});
+
+test('rank and condition number', (t) => {
+  t.is(rank(a), 3);
+  t.is(
+    rank([
+      [1, 2, 3],
+      [2, 4, 6],
+    ]),
+    1
+  );
+  t.is(
+    rank([
+      [0, 0],
+      [0, 0],
+    ]),
+    0
+  );
+  t.true(Math.abs(conditionNumber([[3, 0], [0, 0.5]] as NMat<2, 2>) - 6) < 1e-12);
+  t.is(
+    conditionNumber([
+      [1, 2],
+      [2, 4],
+    ]),
+    Infinity
+  );
+  const m = new NDimMatrix<3, 3>(a);
+  t.is(m.rank(), 3);
+  t.true(m.conditionNumber() > 1);
+});
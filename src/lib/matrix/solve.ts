@@ -0,0 +1,197 @@
+import { Maybe } from "../fn/maybe1.js"
+import { Result } from "../fn/result.js"
+import { FArray } from "../types/array.js"
+import { Dim } from "../vector/math.js"
+import { NDimVector } from "../vector/n-dim-vector.js"
+import { LU, lu, qr, svd } from "./decompositions.js"
+import { NMat, SingularMatrixError, singularPivotTolerance } from "./math.js"
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * The error reported when a matrix is invertible in principle, but so close
+ * to singular that a solution would be dominated by rounding error.
+ */
+export class IllConditionedError extends Error {
+    public readonly conditionNumber: number
+
+    constructor(conditionNumber: number, message: string = `Matrix is ill-conditioned, with condition number ${conditionNumber.toExponential(2)}`) {
+        super(message)
+        this.name = "IllConditionedError"
+        this.conditionNumber = conditionNumber
+    }
+}
+
+/**
+ * The ways solving a linear system can fail.
+ */
+export type SolveError = SingularMatrixError | IllConditionedError
+
+/**
+ * The largest condition number `solve` accepts by default. A system with
+ * condition number κ loses about log10(κ) of the ~16 significant digits.
+ */
+export const DEFAULT_MAX_CONDITION = 1e12
+
+const maxAbs = (values: readonly number[]): number =>
+    values.reduce((acc, x) => Math.max(acc, Math.abs(x)), 0)
+
+// The largest absolute column sum.
+const norm1 = (m: readonly (readonly number[])[]): number =>
+    maxAbs(m[0]?.map((_, c) => m.reduce((acc, row) => acc + Math.abs(row[c]), 0)) ?? [])
+
+// Solves U x = y for upper triangular U, using its first `y.length` rows.
+const backSubstitute = (u: readonly (readonly number[])[], y: readonly number[]): number[] => {
+    const x = [...y]
+    for (let i = x.length - 1; i >= 0; i--) {
+        for (let j = i + 1; j < x.length; j++) x[i] -= u[i][j] * x[j]
+        x[i] /= u[i][i]
+    }
+    return x
+}
+
+/**
+ * Solves `A x = b` given the LU decomposition of `A`. The decomposition can
+ * be reused to solve for many right-hand sides.
+ *
+ * @param decomposition the LU decomposition of `A`.
+ * @param b the right-hand side.
+ * @returns the solution `x`; not finite if `A` is singular.
+ */
+export const luSolve = <N extends Dim>({ lower, upper, permutation }: LU<N>, b: NVec<N>): NVec<N> => {
+    const y = permutation.map(i => b[i])
+    for (let i = 0; i < y.length; i++)
+        for (let j = 0; j < i; j++) y[i] -= lower[i][j] * y[j]
+    return backSubstitute(upper, y) as NVec<N>
+}
+
+/**
+ * Solves the square linear system `A x = b` using LU decomposition with
+ * partial pivoting.
+ *
+ * @param matrix the square matrix `A`.
+ * @param b the right-hand side.
+ * @param maxCondition the largest acceptable 1-norm condition number,
+ * defaults to `DEFAULT_MAX_CONDITION`.
+ * @returns the solution, a SingularMatrixError if `A` is singular, or an
+ * IllConditionedError if its condition number exceeds `maxCondition`.
+ */
+export const solveResult = <N extends Dim>(
+    matrix: NMat<N, N>,
+    b: NVec<N> | NDimVector<N>,
+    maxCondition: number = DEFAULT_MAX_CONDITION
+): Result<NDimVector<N>, SolveError> => {
+    const decomposition = lu(matrix)
+    const tolerance = singularPivotTolerance(matrix)
+    if (decomposition.upper.some((row, i) => Math.abs(row[i]) <= tolerance)) {
+        return Result.err(new SingularMatrixError("Matrix is singular, so the system has no unique solution"))
+    }
+
+    // The inverse is cheap to form from the decomposition for the small
+    // matrices this library handles, and gives the exact condition number.
+    const columns = matrix.map((_, c) => luSolve(decomposition, matrix.map((_, r) => r === c ? 1 : 0) as NVec<N>))
+    const condition = norm1(matrix) * maxAbs(columns.map(col => col.reduce((acc, x) => acc + Math.abs(x), 0)))
+    if (!(condition <= maxCondition)) {
+        return Result.err(new IllConditionedError(condition))
+    }
+
+    return Result.ok(new NDimVector<N>(luSolve(decomposition, NDimVector.getComponents<N>(b))))
+}
+
+/**
+ * Solves the square linear system `A x = b`.
+ *
+ * @param matrix the square matrix `A`.
+ * @param b the right-hand side.
+ * @param maxCondition the largest acceptable condition number, defaults to `DEFAULT_MAX_CONDITION`.
+ * @returns the solution.
+ * @throws SingularMatrixError if `A` is singular.
+ * @throws IllConditionedError if the condition number of `A` exceeds `maxCondition`.
+ */
+export const solve = <N extends Dim>(matrix: NMat<N, N>, b: NVec<N> | NDimVector<N>, maxCondition: number = DEFAULT_MAX_CONDITION): NDimVector<N> =>
+    solveResult(matrix, b, maxCondition).getOrThrow()
+
+/**
+ * Solves the square linear system `A x = b`, if it has a well-conditioned
+ * unique solution.
+ *
+ * @param matrix the square matrix `A`.
+ * @param b the right-hand side.
+ * @param maxCondition the largest acceptable condition number, defaults to `DEFAULT_MAX_CONDITION`.
+ * @returns the solution, or none.
+ */
+export const trySolve = <N extends Dim>(matrix: NMat<N, N>, b: NVec<N> | NDimVector<N>, maxCondition: number = DEFAULT_MAX_CONDITION): Maybe<NDimVector<N>> =>
+    solveResult(matrix, b, maxCondition).toMaybe()
+
+/**
+ * Finds the `x` minimizing `|A x - b|` for an overdetermined system, using
+ * QR decomposition.
+ *
+ * @param matrix the matrix `A`, with at least as many rows as columns.
+ * @param b the right-hand side.
+ * @returns the least-squares solution, or a SingularMatrixError if the
+ * columns of `A` are linearly dependent, so the solution is not unique.
+ * @throws {RangeError} If `A` has fewer rows than columns.
+ */
+export const leastSquaresResult = <R extends Dim, C extends Dim>(
+    matrix: NMat<R, C>,
+    b: NVec<R> | NDimVector<R>
+): Result<NDimVector<C>, SingularMatrixError> => {
+    const rows = matrix.length
+    const cols = matrix[0]?.length ?? 0
+    if (rows < cols) {
+        throw new RangeError(`Least squares needs at least as many rows as columns, got ${rows}x${cols}`)
+    }
+
+    const { q, r } = qr(matrix)
+    const diagonal = r.slice(0, cols).map((row, i) => Math.abs(row[i]))
+    if (diagonal.some(d => d <= rows * Number.EPSILON * maxAbs(diagonal))) {
+        return Result.err(new SingularMatrixError("Matrix does not have full column rank, so the least-squares solution is not unique"))
+    }
+
+    // x solves R x = Qᵀ b, restricted to the first C rows.
+    const bs = NDimVector.getComponents<R>(b)
+    const y = Array.from({ length: cols }, (_, j) => q.reduce((acc, row, i) => acc + row[j] * bs[i], 0))
+    return Result.ok(new NDimVector<C>(backSubstitute(r, y) as NVec<C>))
+}
+
+/**
+ * Finds the `x` minimizing `|A x - b|` for an overdetermined system.
+ *
+ * @param matrix the matrix `A`, with at least as many rows as columns.
+ * @param b the right-hand side.
+ * @returns the least-squares solution.
+ * @throws SingularMatrixError if the columns of `A` are linearly dependent.
+ */
+export const leastSquares = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, b: NVec<R> | NDimVector<R>): NDimVector<C> =>
+    leastSquaresResult(matrix, b).getOrThrow()
+
+/**
+ * Calculates the numerical rank of a matrix: the number of its singular
+ * values that are distinguishable from zero.
+ *
+ * @param matrix the matrix.
+ * @param tolerance singular values at or below this count as zero. Defaults
+ * to the largest singular value scaled by the machine epsilon and the larger
+ * dimension of the matrix.
+ * @returns the rank of the matrix.
+ */
+export const rank = <R extends Dim, C extends Dim>(matrix: NMat<R, C>, tolerance?: number): number => {
+    const { values } = svd(matrix)
+    const limit = tolerance ?? Math.max(matrix.length, matrix[0]?.length ?? 0) * Number.EPSILON * (values[0] ?? 0)
+    return values.filter(s => s > limit).length
+}
+
+/**
+ * Calculates the 2-norm condition number of a matrix: the ratio of its
+ * largest singular value to its smallest. Large values mean that solutions
+ * of systems with this matrix are sensitive to small changes in the input.
+ *
+ * @param matrix the matrix.
+ * @returns the condition number, at least 1; Infinity for a singular matrix.
+ */
+export const conditionNumber = <R extends Dim, C extends Dim>(matrix: NMat<R, C>): number => {
+    const { values } = svd(matrix)
+    const smallest = values[values.length - 1]
+    return smallest > 0 ? values[0] / smallest : Infinity
+}
@@ -0,0 +1,103 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { integrate } from './integrate';
+import { Derivative, Euler, Integrator, RK4, RK45, SemiImplicitEuler, VelocityVerlet } from './integrator';
+
+// y' = y, with y(0) = 1, so y(t) = e^t.
+const growth: Derivative<1> = (_, y) => y;
+
+// A unit mass on a unit spring: state (x, v), with x(t) = cos t from (1, 0).
+const oscillator: Derivative<2> = (_, { components: [x, v] }) => [v, -x];
+
+const energy = (state: NDimVector<2>) => (state.x * state.x + state.y * state.y) / 2;
+
+const finalError = (integrator: Integrator, dt: number) => {
+  const trajectory = integrate(integrator, growth, [1], 0, 1, dt);
+  return Math.abs(trajectory[trajectory.length - 1].state.x - Math.E);
+};
+
+test('every method converges at its order', (t) => {
+  for (const [integrator, order] of [
+    [Euler, 1],
+    [RK4, 4],
+  ] as [Integrator, number][]) {
+    const ratio = finalError(integrator, 0.02) / finalError(integrator, 0.01);
+    t.true(Math.abs(Math.log2(ratio) - order) < 0.2, `order ${order}`);
+  }
+  for (const [integrator, order] of [
+    [SemiImplicitEuler, 1],
+    [VelocityVerlet, 2],
+  ] as [Integrator, number][]) {
+    const error = (dt: number) => {
+      const trajectory = integrate(integrator, oscillator, [1, 0], 0, 1, dt);
+      return Math.abs(trajectory[trajectory.length - 1].state.x - Math.cos(1));
+    };
+    t.true(Math.abs(Math.log2(error(0.02) / error(0.01)) - order) < 0.2, `symplectic order ${order}`);
+  }
+});
+
+test('the trajectory covers the interval exactly', (t) => {
+  const trajectory = integrate(RK4, growth, new NDimVector<1>([1]), 0, 1, 0.3);
+  t.deepEqual(
+    trajectory.map((p) => p.t),
+    [0, 0.3, 0.6, 0.8999999999999999, 1]
+  );
+  t.deepEqual(
+    integrate(Euler, growth, [1], 0, 1, 0.1).map((p) => p.t),
+    [0, 0.1, 0.2, 0.30000000000000004, 0.4, 0.5, 0.6000000000000001, 0.7000000000000001, 0.8, 0.9, 1]
+  );
+  t.deepEqual(trajectory[0].state.components, [1]);
+  t.true(Math.abs(trajectory[4].state.x - Math.E) < 1e-3);
+  t.deepEqual(integrate(RK4, growth, [1], 2, 2, 0.1).length, 1);
+  t.throws(() => integrate(RK4, growth, [1], 1, 0, 0.1), { instanceOf: RangeError });
+  t.throws(() => integrate(RK4, growth, [1], 0, 1, 0), { instanceOf: RangeError });
+});
+
+test('symplectic methods keep the energy bounded', (t) => {
+  const run = (integrator: Integrator) => integrate(integrator, oscillator, [1, 0], 0, 100, 0.1).map((p) => energy(p.state));
+  const euler = run(Euler);
+  t.true(euler[euler.length - 1] > 10 * euler[0]);
+  for (const integrator of [SemiImplicitEuler, VelocityVerlet]) {
+    t.true(run(integrator).every((e) => Math.abs(e - 0.5) < 0.05));
+  }
+  t.throws(() => SemiImplicitEuler.step(growth, 0, new NDimVector<1>([1]), 0.1), { instanceOf: RangeError });
+});
+
+test('adaptive RK45 meets its tolerance with fewer steps', (t) => {
+  const adaptive = integrate(RK45, oscillator, [1, 0], 0, 10, 0.1, { absoluteTolerance: 1e-10, relativeTolerance: 1e-10 });
+  const end = adaptive[adaptive.length - 1];
+  t.is(end.t, 10);
+  t.true(Math.abs(end.state.x - Math.cos(10)) < 1e-8);
+  t.true(Math.abs(end.state.y + Math.sin(10)) < 1e-8);
+
+  // Looser tolerances take fewer steps.
+  const loose = integrate(RK45, oscillator, [1, 0], 0, 10, 0.1, { absoluteTolerance: 1e-4, relativeTolerance: 1e-4 });
+  t.true(loose.length < adaptive.length);
+  t.true(Math.abs(loose[loose.length - 1].state.x - Math.cos(10)) < 1e-3);
+
+  // Steps shrink where the solution changes fast: y' = -50 (y - cos t).
+  const stiff: Derivative<1> = (time, { components: [y] }) => [-50 * (y - Math.cos(time))];
+  const trajectory = integrate(RK45, stiff, [0], 0, 2, 0.5);
+  const steps = trajectory.slice(1).map((p, i) => p.t - trajectory[i].t);
+  t.true(steps[0] < steps[steps.length - 2]);
+  t.true(trajectory.every((p) => p.t <= 2));
+
+  t.is(RK45.step(growth, 0, new NDimVector<1>([1]), 0.1).x, RK45.stepWithError(growth, 0, new NDimVector<1>([1]), 0.1).state.x);
+});
+
+test('steps are measured against the interval, not the absolute time', (t) => {
+  const constant: Derivative<1> = () => [1];
+  const late = integrate(RK4, constant, [0], 1e9, 1e9 + 1e-4, 1e-5);
+  t.is(late.length, 11);
+  t.is(late[late.length - 1].t, 1e9 + 1e-4);
+  t.true(Math.abs(late[late.length - 1].state.x - (1e9 + 1e-4 - 1e9)) < 1e-15);
+  t.throws(() => integrate(Euler, constant, [0], 1e6, 1e6 + 1, 1e-11), { instanceOf: RangeError });
+  t.throws(() => integrate(RK45, constant, [0], 1e6, 1e6 + 1, 1e-11), { instanceOf: RangeError });
+});
+
+test('adaptive integration reports a step size underflow', (t) => {
+  const blowup: Derivative<1> = (_, { components: [y] }) => [y * y];
+  t.throws(() => integrate(RK45, blowup, [1], 0, 2, 0.1, { minStep: 1e-6 }), { instanceOf: RangeError });
+});
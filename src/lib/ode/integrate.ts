@@ -0,0 +1,130 @@
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Derivative, Integrator, isAdaptive } from "./integrator";
+
+/**
+ * The states an integration passed through, in time order, starting with the
+ * initial state.
+ *
+ * @typeParam N - The dimension of the state.
+ */
+export type Trajectory<N extends Dim> = { t: number, state: NDimVector<N> }[]
+
+/**
+ * Settings for adaptive integration. Any that are left out take their value
+ * from `DEFAULT_INTEGRATE_OPTIONS`.
+ *
+ * - `absoluteTolerance`: the error allowed in each component per step.
+ * - `relativeTolerance`: the error allowed per step relative to each component.
+ * - `minStep`: the shortest step to try before giving up.
+ * - `maxStep`: the longest step to take.
+ */
+export type IntegrateOptions = {
+    absoluteTolerance?: number
+    relativeTolerance?: number
+    minStep?: number
+    maxStep?: number
+}
+
+export const DEFAULT_INTEGRATE_OPTIONS: Readonly<Required<IntegrateOptions>> = {
+    absoluteTolerance: 1e-9,
+    relativeTolerance: 1e-6,
+    minStep: 1e-12,
+    maxStep: Infinity,
+}
+
+/**
+ * Solves an initial value problem, `y' = f(t, y)` with `y(t0) = initial`,
+ * from `t0` to `t1`.
+ *
+ * Fixed step integrators step to the times `t0 + i·dt`, shortening the last
+ * step to end exactly at `t1`. Adaptive integrators, such as `RK45`, start
+ * with `dt` and lengthen or shorten each step to keep its estimated error
+ * within the tolerances, retrying steps that miss them.
+ *
+ * @param integrator the method to step with.
+ * @param f the derivative of the state.
+ * @param initial the state at `t0`.
+ * @param t0 the start time.
+ * @param t1 the end time, after `t0`.
+ * @param dt the step length, or the first step length tried if adaptive.
+ * @param options the tolerances of adaptive integration.
+ * @returns the state after every step, from `t0` to `t1`.
+ * @throws RangeError if an adaptive step would have to be shorter than `minStep`,
+ * or a step is too short to change the time at all.
+ */
+export const integrate = <N extends Dim>(
+    integrator: Integrator,
+    f: Derivative<N>,
+    initial: FArray<N, number> | NDimVector<N>,
+    t0: number,
+    t1: number,
+    dt: number,
+    options: IntegrateOptions = {},
+): Trajectory<N> => {
+    if (!(t1 >= t0)) {
+        throw new RangeError(`The end time ${t1} is before the start time ${t0}`)
+    }
+    if (!(dt > 0)) {
+        throw new RangeError(`The step length must be positive, got ${dt}`)
+    }
+
+    const { absoluteTolerance, relativeTolerance, minStep, maxStep } = { ...DEFAULT_INTEGRATE_OPTIONS, ...options }
+    let t = t0
+    let state = new NDimVector<N>([...NDimVector.getComponents<N>(initial)] as FArray<N, number>)
+    const trajectory: Trajectory<N> = [{ t, state }]
+
+    // Steps closer to the end than this finish the integration, rather than
+    // leaving a step too short to represent.
+    const slack = 1e-12 * (t1 - t0)
+
+    const advance = (step: number) => {
+        if (t + step === t) {
+            throw new RangeError(`The step length ${step} is too short to advance from t = ${t}`)
+        }
+    }
+
+    if (!isAdaptive(integrator)) {
+        // Times are measured from t0, so rounding does not build up over steps.
+        for (let i = 1; t1 - t > slack; i++) {
+            const scheduled = t0 + i * dt
+            const next = t1 - scheduled <= slack ? t1 : scheduled
+            advance(next - t)
+            state = integrator.step(f, t, state, next - t)
+            t = next
+            trajectory.push({ t, state })
+        }
+        return trajectory
+    }
+
+    let h = Math.min(dt, maxStep)
+    while (t1 - t > slack) {
+        const step = t1 - t - h <= slack ? t1 - t : h
+        advance(step)
+
+        const { state: next, error } = integrator.stepWithError(f, t, state, step)
+        // The largest error relative to its tolerance; the step is accepted
+        // when it is at most 1.
+        const ratio = error.components.reduce((acc, e, i) => {
+            const scale = absoluteTolerance + relativeTolerance * Math.max(Math.abs(state.components[i]), Math.abs(next.components[i]))
+            return Math.max(acc, Math.abs(e) / scale)
+        }, 0)
+
+        if (ratio <= 1) {
+            t = step === h ? t + step : t1
+            state = next
+            trajectory.push({ t, state })
+        }
+
+        // Rescales the step towards the length that would just meet the
+        // tolerance, with a safety factor and limits on how fast it changes.
+        const factor = ratio === 0 ? 5 : Math.min(5, Math.max(0.2, 0.9 * Math.pow(ratio, -1 / (integrator.order + 1))))
+        h = Math.min(step * factor, maxStep)
+        if (!(h >= minStep)) {
+            throw new RangeError(`The step length fell below ${minStep} at t = ${t}`)
+        }
+    }
+
+    return trajectory
+}
@@ -0,0 +1,171 @@
+import { FArray } from "../types/array";
+import { Dim } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * The right-hand side of an ordinary differential equation `y' = f(t, y)`:
+ * the rate of change of the state at a time.
+ *
+ * Second-order systems, such as a body moving under a force, are written as
+ * first-order ones over a state of positions followed by velocities, for
+ * which `f` returns the velocities followed by the accelerations.
+ *
+ * @typeParam N - The dimension of the state.
+ */
+export type Derivative<N extends Dim> = (t: number, state: NDimVector<N>) => NDimVector<N> | NVec<N>
+
+/**
+ * A method of advancing the state of an ODE by one time step.
+ */
+export interface Integrator {
+    /**
+     * Advances a state by one step.
+     *
+     * @param f The derivative of the state.
+     * @param t The time of the current state.
+     * @param state The current state.
+     * @param dt The step length.
+     * @returns The state at `t + dt`.
+     */
+    step<N extends Dim>(f: Derivative<N>, t: number, state: NDimVector<N>, dt: number): NDimVector<N>
+}
+
+/**
+ * An integrator that also estimates the error of each step, so the step
+ * length can be adapted to a tolerance.
+ */
+export interface AdaptiveIntegrator extends Integrator {
+    /**
+     * The order of the error estimate, which sets how the step length is
+     * rescaled from the error.
+     */
+    readonly order: number
+
+    /**
+     * Advances a state by one step and estimates the error made.
+     *
+     * @param f The derivative of the state.
+     * @param t The time of the current state.
+     * @param state The current state.
+     * @param dt The step length.
+     * @returns The state at `t + dt`, and the estimated error of each component.
+     */
+    stepWithError<N extends Dim>(f: Derivative<N>, t: number, state: NDimVector<N>, dt: number): { state: NDimVector<N>, error: NDimVector<N> }
+}
+
+/**
+ * Determines whether an integrator can adapt its step length.
+ *
+ * @param integrator the integrator to check.
+ * @returns true if the integrator estimates its error.
+ */
+export const isAdaptive = (integrator: Integrator): integrator is AdaptiveIntegrator =>
+    typeof (integrator as AdaptiveIntegrator).stepWithError === "function"
+
+const derive = <N extends Dim>(f: Derivative<N>, t: number, state: NDimVector<N>): NDimVector<N> => {
+    const d = f(t, state)
+    return d instanceof NDimVector ? d : new NDimVector<N>(d)
+}
+
+/**
+ * The explicit (forward) Euler method, `y + dt·f(t, y)`. It is first order
+ * and only stable for small steps, but the simplest and cheapest.
+ */
+export const Euler: Integrator = {
+    step: (f, t, state, dt) => state.add(derive(f, t, state).mul(dt)),
+}
+
+// Splits a state of positions followed by velocities into its halves.
+const halves = <N extends Dim>(v: NDimVector<N>): [number[], number[]] => {
+    if (v.length % 2 !== 0) {
+        throw new RangeError(`A state of positions and velocities must have an even dimension, got ${v.length}`)
+    }
+    const half = v.length / 2
+    return [v.components.slice(0, half), v.components.slice(half)]
+}
+
+const joined = <N extends Dim>(positions: number[], velocities: number[]): NDimVector<N> =>
+    new NDimVector<N>([...positions, ...velocities] as NVec<N>)
+
+/**
+ * The semi-implicit (symplectic) Euler method, for states of positions
+ * followed by velocities. The velocity is updated first and the position
+ * moves with the new velocity. It is first order, but keeps the energy of
+ * oscillating systems bounded where explicit Euler lets it grow.
+ */
+export const SemiImplicitEuler: Integrator = {
+    step: (f, t, state, dt) => {
+        const [x, v] = halves(state)
+        const [, a] = halves(derive(f, t, state))
+        const v1 = v.map((n, i) => n + a[i] * dt)
+        return joined(x.map((n, i) => n + v1[i] * dt), v1)
+    },
+}
+
+/**
+ * The velocity Verlet method, for states of positions followed by velocities
+ * whose accelerations only depend on the positions. It is second order and
+ * symplectic, the usual choice for molecular dynamics and game physics.
+ */
+export const VelocityVerlet: Integrator = {
+    step: (f, t, state, dt) => {
+        const [x, v] = halves(state)
+        const [, a0] = halves(derive(f, t, state))
+        const x1 = x.map((n, i) => n + v[i] * dt + 0.5 * a0[i] * dt * dt)
+        const [, a1] = halves(derive(f, t + dt, joined(x1, v)))
+        return joined(x1, v.map((n, i) => n + 0.5 * (a0[i] + a1[i]) * dt))
+    },
+}
+
+/**
+ * The classical fourth order Runge-Kutta method, which samples the
+ * derivative four times per step.
+ */
+export const RK4: Integrator = {
+    step: (f, t, state, dt) => {
+        const k1 = derive(f, t, state)
+        const k2 = derive(f, t + dt / 2, state.add(k1.mul(dt / 2)))
+        const k3 = derive(f, t + dt / 2, state.add(k2.mul(dt / 2)))
+        const k4 = derive(f, t + dt, state.add(k3.mul(dt)))
+        return state.add(k1.add(k2.mul(2)).add(k3.mul(2)).add(k4).mul(dt / 6))
+    },
+}
+
+// The Dormand-Prince tableau: the nodes, the coefficients of each stage, and
+// the weights of the fifth and fourth order solutions.
+const DP_C = [0, 1 / 5, 3 / 10, 4 / 5, 8 / 9, 1, 1]
+const DP_A = [
+    [],
+    [1 / 5],
+    [3 / 40, 9 / 40],
+    [44 / 45, -56 / 15, 32 / 9],
+    [19372 / 6561, -25360 / 2187, 64448 / 6561, -212 / 729],
+    [9017 / 3168, -355 / 33, 46732 / 5247, 49 / 176, -5103 / 18656],
+    [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84],
+]
+const DP_B5 = [35 / 384, 0, 500 / 1113, 125 / 192, -2187 / 6784, 11 / 84, 0]
+const DP_B4 = [5179 / 57600, 0, 7571 / 16695, 393 / 640, -92097 / 339200, 187 / 2100, 1 / 40]
+
+const combine = <N extends Dim>(state: NDimVector<N>, ks: NDimVector<N>[], weights: number[], dt: number): NDimVector<N> =>
+    ks.reduce((acc, k, i) => weights[i] === 0 ? acc : acc.add(k.mul(weights[i] * dt)), state)
+
+/**
+ * The Dormand-Prince Runge-Kutta 5(4) method. Each step gives a fifth order
+ * solution and the difference from an embedded fourth order one, which
+ * estimates the error; `integrate` uses it to adapt the step length.
+ */
+export const RK45: AdaptiveIntegrator = {
+    order: 4,
+    step: (f, t, state, dt) => RK45.stepWithError(f, t, state, dt).state,
+    stepWithError: <N extends Dim>(f: Derivative<N>, t: number, state: NDimVector<N>, dt: number) => {
+        const ks: NDimVector<N>[] = []
+        for (let stage = 0; stage < DP_C.length; stage++) {
+            ks.push(derive(f, t + DP_C[stage] * dt, combine(state, ks, DP_A[stage], dt)))
+        }
+        const fifth = combine(state, ks, DP_B5, dt)
+        const fourth = combine(state, ks, DP_B4, dt)
+        return { state: fifth, error: fifth.sub(fourth) }
+    },
+}
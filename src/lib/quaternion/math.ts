@@ -0,0 +1,187 @@
+import { NMat } from "../matrix/math.js"
+import { FArray } from "../types/array.js"
+import { add, cross, dot, magnitude, mul, unit } from "../vector/math.js"
+
+
+/**
+ * A quaternion stored as its `x, y, z, w` components, where `w` is the scalar
+ * part. The layout matches a 4-dimensional vector so the vector helpers can be
+ * reused directly.
+ */
+export type Quat = FArray<4, number>
+
+type Vec3 = FArray<3, number>
+
+/**
+ * The order in which Euler angle rotations are applied. Rotations are
+ * intrinsic, so "XYZ" rotates about X, then about the rotated Y, then about
+ * the twice rotated Z.
+ */
+export type EulerOrder = "XYZ" | "XZY" | "YXZ" | "YZX" | "ZXY" | "ZYX"
+
+const axisIndex = { X: 0, Y: 1, Z: 2 } as const
+
+/**
+ * The identity quaternion, representing no rotation.
+ */
+export const identity = (): Quat => [0, 0, 0, 1]
+
+/**
+ * Creates a quaternion representing a rotation about an axis.
+ *
+ * @param axis the axis of rotation; it does not need to be a unit vector.
+ * @param theta the angle of rotation in radians.
+ * @returns the rotation quaternion.
+ */
+export const fromAxisAngle = (axis: Vec3, theta: number): Quat => {
+    const [x, y, z] = mul(unit(axis), Math.sin(theta / 2))
+    return [x, y, z, Math.cos(theta / 2)]
+}
+
+/**
+ * Creates a quaternion from Euler angles.
+ *
+ * @param angles the rotation about the X, Y and Z axes in radians.
+ * @param order the order in which the rotations are applied.
+ * @returns the rotation quaternion.
+ */
+export const fromEuler = (angles: Vec3, order: EulerOrder = "XYZ"): Quat =>
+    (order.split("") as (keyof typeof axisIndex)[]).reduce((acc, label) => {
+        const i = axisIndex[label]
+        const axis = [0, 1, 2].map(j => j === i ? 1 : 0) as Vec3
+        return multiply(acc, fromAxisAngle(axis, angles[i]))
+    }, identity())
+
+/**
+ * Creates a quaternion from a 3x3 rotation matrix.
+ *
+ * @param m a pure rotation matrix, acting on column vectors.
+ * @returns the rotation quaternion.
+ */
+export const fromRotationMatrix = (m: NMat<3, 3>): Quat => {
+    const trace = m[0][0] + m[1][1] + m[2][2]
+
+    if (trace > 0) {
+        const s = 0.5 / Math.sqrt(trace + 1)
+        return [(m[2][1] - m[1][2]) * s, (m[0][2] - m[2][0]) * s, (m[1][0] - m[0][1]) * s, 0.25 / s]
+    }
+    if (m[0][0] > m[1][1] && m[0][0] > m[2][2]) {
+        const s = 2 * Math.sqrt(1 + m[0][0] - m[1][1] - m[2][2])
+        return [0.25 * s, (m[0][1] + m[1][0]) / s, (m[0][2] + m[2][0]) / s, (m[2][1] - m[1][2]) / s]
+    }
+    if (m[1][1] > m[2][2]) {
+        const s = 2 * Math.sqrt(1 + m[1][1] - m[0][0] - m[2][2])
+        return [(m[0][1] + m[1][0]) / s, 0.25 * s, (m[1][2] + m[2][1]) / s, (m[0][2] - m[2][0]) / s]
+    }
+
+    const s = 2 * Math.sqrt(1 + m[2][2] - m[0][0] - m[1][1])
+    return [(m[0][2] + m[2][0]) / s, (m[1][2] + m[2][1]) / s, 0.25 * s, (m[1][0] - m[0][1]) / s]
+}
+
+/**
+ * Converts a unit quaternion to a 3x3 rotation matrix.
+ *
+ * @param q the rotation quaternion.
+ * @returns the rotation matrix, acting on column vectors.
+ */
+export const toRotationMatrix = ([x, y, z, w]: Quat): NMat<3, 3> => [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - z * w), 2 * (x * z + y * w)],
+    [2 * (x * y + z * w), 1 - 2 * (x * x + z * z), 2 * (y * z - x * w)],
+    [2 * (x * z - y * w), 2 * (y * z + x * w), 1 - 2 * (x * x + y * y)],
+]
+
+/**
+ * Calculates the Hamilton product of two quaternions. Applying the result
+ * rotates by `r` first and then by `l`.
+ *
+ * @param l the left hand quaternion.
+ * @param r the right hand quaternion.
+ * @returns the product of the quaternions.
+ */
+export const multiply = ([ax, ay, az, aw]: Quat, [bx, by, bz, bw]: Quat): Quat => [
+    aw * bx + ax * bw + ay * bz - az * by,
+    aw * by - ax * bz + ay * bw + az * bx,
+    aw * bz + ax * by - ay * bx + az * bw,
+    aw * bw - ax * bx - ay * by - az * bz,
+]
+
+/**
+ * Calculates the conjugate of a quaternion.
+ *
+ * @param q the quaternion to conjugate.
+ * @returns the quaternion with its vector part negated.
+ */
+export const conjugate = ([x, y, z, w]: Quat): Quat => [-x, -y, -z, w]
+
+/**
+ * Calculates the multiplicative inverse of a quaternion.
+ *
+ * @param q the quaternion to invert.
+ * @returns the inverse of the quaternion.
+ */
+export const inverse = (q: Quat): Quat =>
+    mul(conjugate(q), 1 / dot(q, q))
+
+/**
+ * Scales a quaternion to unit length.
+ *
+ * @param q the quaternion to normalize.
+ * @returns the unit quaternion.
+ */
+export const normalize = (q: Quat): Quat =>
+    unit(q)
+
+/**
+ * Rotates a 3-dimensional vector by a unit quaternion.
+ *
+ * @param q the rotation quaternion.
+ * @param vector the vector to rotate.
+ * @returns the rotated vector.
+ */
+export const rotate = ([x, y, z, w]: Quat, vector: Vec3): Vec3 => {
+    const u: Vec3 = [x, y, z]
+    const t = mul(cross(u, vector), 2)
+    return add(add(vector, mul(t, w)), cross(u, t))
+}
+
+/**
+ * Spherically interpolates between two unit quaternions along the shortest
+ * path. Falls back to a normalized linear interpolation when the rotations
+ * are (nearly) identical.
+ *
+ * @param from the rotation at t = 0.
+ * @param to the rotation at t = 1.
+ * @param t the interpolation parameter.
+ * @returns the interpolated rotation.
+ */
+export const slerp = (from: Quat, to: Quat, t: number): Quat => {
+    const cosOmega = dot(from, to)
+    const target = cosOmega < 0 ? mul(to, -1) : to
+    const c = Math.abs(cosOmega)
+
+    if (c > 1 - 1e-9) {
+        return normalize(add(mul(from, 1 - t), mul(target, t)))
+    }
+
+    const omega = Math.acos(c)
+    const sinOmega = Math.sin(omega)
+    return add(
+        mul(from, Math.sin((1 - t) * omega) / sinOmega),
+        mul(target, Math.sin(t * omega) / sinOmega)
+    )
+}
+
+/**
+ * Extracts the axis and angle of the rotation described by a unit quaternion.
+ *
+ * @param q the rotation quaternion.
+ * @returns the unit axis and the angle in radians. The axis defaults to X
+ * when there is no rotation.
+ */
+export const toAxisAngle = ([x, y, z, w]: Quat): [Vec3, number] => {
+    const s = magnitude<3>([x, y, z])
+    const theta = 2 * Math.atan2(s, w)
+    return s < 1e-12
+        ? [[1, 0, 0], theta]
+        : [[x / s, y / s, z / s], theta]
+}
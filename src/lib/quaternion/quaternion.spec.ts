@@ -0,0 +1,64 @@
+import test from 'ava';
+
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { Quaternion } from './quaternion';
+
+const approxEqual = (actual: readonly number[], expected: readonly number[]) =>
+  actual.length === expected.length &&
+  actual.every((n, i) => Math.abs(n - expected[i]) < 1e-9);
+
+test('rotate by axis-angle', (t) => {
+  const q = Quaternion.fromAxisAngle([0, 0, 1], Math.PI / 2);
+  t.true(approxEqual(q.rotate([1, 0, 0]).components, [0, 1, 0]));
+});
+
+test('mul composes rotations right to left', (t) => {
+  const rx = Quaternion.fromAxisAngle([1, 0, 0], Math.PI / 2);
+  const rz = Quaternion.fromAxisAngle([0, 0, 1], Math.PI / 2);
+  const v = new NDimVector<3>([1, 0, 0]);
+  t.true(
+    approxEqual(rx.mul(rz).rotate(v).components, rx.rotate(rz.rotate(v)).components)
+  );
+});
+
+test('fromEuler respects rotation order', (t) => {
+  const angles: [number, number, number] = [Math.PI / 2, Math.PI / 2, 0];
+  const xy = Quaternion.fromEuler(angles, 'XYZ');
+  const yx = Quaternion.fromEuler(angles, 'YXZ');
+  const rx = Quaternion.fromAxisAngle([1, 0, 0], Math.PI / 2);
+  const ry = Quaternion.fromAxisAngle([0, 1, 0], Math.PI / 2);
+  t.true(approxEqual(xy.components, rx.mul(ry).components));
+  t.true(approxEqual(yx.components, ry.mul(rx).components));
+});
+
+test('rotation matrix round trip', (t) => {
+  const q = Quaternion.fromEuler([0.3, -1.2, 2.5], 'ZYX');
+  const back = Quaternion.fromRotationMatrix(q.toRotationMatrix());
+  const v: [number, number, number] = [1, 2, 3];
+  t.true(approxEqual(back.rotate(v).components, q.rotate(v).components));
+  t.true(
+    approxEqual(q.toRotationMatrix().transform(v).components, q.rotate(v).components)
+  );
+});
+
+test('inverse undoes the rotation', (t) => {
+  const q = Quaternion.fromAxisAngle([1, 2, 3], 0.7);
+  t.true(approxEqual(q.mul(q.inverse).components, [0, 0, 0, 1]));
+  t.true(approxEqual(q.conjugate.components, q.inverse.components));
+});
+
+test('slerp', (t) => {
+  const from = Quaternion.identity();
+  const to = Quaternion.fromAxisAngle([0, 1, 0], Math.PI / 2);
+  const half = Quaternion.fromAxisAngle([0, 1, 0], Math.PI / 4);
+  t.true(approxEqual(from.slerp(to, 0.5).components, half.components));
+});
+
+test('vector conversion', (t) => {
+  const v = new NDimVector<4>([1, 2, 3, 4]);
+  const q = Quaternion.fromVector(v);
+  t.is(q.w, 4);
+  t.deepEqual(q.toVector().components, [1, 2, 3, 4]);
+  t.true(Math.abs(q.normalized.magnitude - 1) < 1e-12);
+});
@@ -0,0 +1,182 @@
+import { NMat } from "../matrix/math";
+import { NDimMatrix } from "../matrix/n-dim-matrix";
+import { FArray } from "../types/array";
+import { dot, magnitude } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import {
+    EulerOrder, Quat, conjugate, fromAxisAngle, fromEuler, fromRotationMatrix, identity, inverse,
+    multiply, normalize, rotate, slerp, toAxisAngle, toRotationMatrix
+} from "./math";
+
+/**
+ * Represents a quaternion, primarily used for 3-dimensional rotations.
+ * Components are stored in `x, y, z, w` order, with `w` as the scalar part,
+ * so a quaternion converts directly to and from an `NDimVector<4>`.
+ */
+export class Quaternion {
+    public components: Quat
+
+    constructor(components: Quat) {
+        this.components = components
+    }
+
+    public get x(): number {
+        return this.components[0]
+    }
+
+    public get y(): number {
+        return this.components[1]
+    }
+
+    public get z(): number {
+        return this.components[2]
+    }
+
+    public get w(): number {
+        return this.components[3]
+    }
+
+    public static identity(): Quaternion {
+        return new Quaternion(identity())
+    }
+
+    /**
+     * Creates a quaternion representing a rotation about an axis.
+     *
+     * @param axis The axis of rotation.
+     * @param theta The angle of rotation in radians.
+     * @returns A new Quaternion representing the rotation.
+     */
+    public static fromAxisAngle(axis: FArray<3, number> | NDimVector<3>, theta: number): Quaternion {
+        return new Quaternion(fromAxisAngle(NDimVector.getComponents<3>(axis), theta))
+    }
+
+    /**
+     * Creates a quaternion from Euler angles.
+     *
+     * @param angles The rotation about the X, Y and Z axes in radians.
+     * @param order The order in which the rotations are applied, defaults to "XYZ".
+     * @returns A new Quaternion representing the rotation.
+     */
+    public static fromEuler(angles: FArray<3, number> | NDimVector<3>, order: EulerOrder = "XYZ"): Quaternion {
+        return new Quaternion(fromEuler(NDimVector.getComponents<3>(angles), order))
+    }
+
+    /**
+     * Creates a quaternion from a 3x3 rotation matrix.
+     *
+     * @param matrix The rotation matrix.
+     * @returns A new Quaternion representing the rotation.
+     */
+    public static fromRotationMatrix(matrix: NMat<3, 3> | NDimMatrix<3, 3>): Quaternion {
+        return new Quaternion(fromRotationMatrix(NDimMatrix.getComponents<3, 3>(matrix)))
+    }
+
+    /**
+     * Creates a quaternion from a 4-dimensional vector laid out as `x, y, z, w`.
+     *
+     * @param vector The vector to convert.
+     * @returns A new Quaternion with the same components.
+     */
+    public static fromVector(vector: FArray<4, number> | NDimVector<4>): Quaternion {
+        return new Quaternion([...NDimVector.getComponents<4>(vector)] as Quat)
+    }
+
+    /**
+     * Converts this quaternion to a 4-dimensional vector laid out as `x, y, z, w`.
+     *
+     * @returns A new NDimVector with the same components.
+     */
+    public toVector(): NDimVector<4> {
+        return new NDimVector<4>([...this.components] as FArray<4, number>)
+    }
+
+    /**
+     * Converts this quaternion to a 3x3 rotation matrix.
+     *
+     * @returns A new NDimMatrix representing the rotation.
+     */
+    public toRotationMatrix(): NDimMatrix<3, 3> {
+        return new NDimMatrix<3, 3>(toRotationMatrix(this.components))
+    }
+
+    /**
+     * Extracts the axis and angle of the rotation.
+     *
+     * @returns The unit axis of rotation and the angle in radians.
+     */
+    public toAxisAngle(): [NDimVector<3>, number] {
+        const [axis, theta] = toAxisAngle(this.components)
+        return [new NDimVector<3>(axis), theta]
+    }
+
+    // ********************** Math Helpers *****************************
+
+    /**
+     * Multiplies this quaternion by another. The resulting rotation applies
+     * `other` first and then this quaternion.
+     *
+     * @param other The right hand quaternion.
+     * @returns A new Quaternion representing the product.
+     */
+    public mul(other: Quat | Quaternion): Quaternion {
+        return new Quaternion(multiply(this.components, Quaternion.getComponents(other)))
+    }
+
+    public get conjugate(): Quaternion {
+        return new Quaternion(conjugate(this.components))
+    }
+
+    public get inverse(): Quaternion {
+        return new Quaternion(inverse(this.components))
+    }
+
+    /**
+     * Scales this quaternion to unit length.
+     *
+     * @returns A new unit Quaternion.
+     */
+    public get normalized(): Quaternion {
+        return new Quaternion(normalize(this.components))
+    }
+
+    public get magnitude(): number {
+        return magnitude(this.components)
+    }
+
+    public dot(other: Quat | Quaternion): number {
+        return dot(this.components, Quaternion.getComponents(other))
+    }
+
+    /**
+     * Spherically interpolates between this rotation and another.
+     *
+     * @param other The rotation at t = 1.
+     * @param t The interpolation parameter.
+     * @returns A new Quaternion representing the interpolated rotation.
+     */
+    public slerp(other: Quat | Quaternion, t: number): Quaternion {
+        return new Quaternion(slerp(this.components, Quaternion.getComponents(other), t))
+    }
+
+    /**
+     * Rotates a 3-dimensional vector by this quaternion, which is assumed to
+     * be of unit length.
+     *
+     * @param vector The vector to rotate.
+     * @returns A new NDimVector representing the rotated vector.
+     */
+    public rotate(vector: FArray<3, number> | NDimVector<3>): NDimVector<3> {
+        return new NDimVector<3>(rotate(this.components, NDimVector.getComponents<3>(vector)))
+    }
+
+    /**
+     * Returns unwrapped quaternion components.
+     *
+     * @param quaternion the quaternion from which we will retrieve components.
+     * @returns if quaternion is an instance of Quaternion, returns quaternion.components, else return the tuple.
+     */
+    public static getComponents(quaternion: Quat | Quaternion): Quat {
+        return quaternion instanceof Quaternion ? quaternion.components : quaternion
+    }
+}
@@ -0,0 +1,98 @@
+import { FArray } from "../types/array";
+import { add, distSquared, mul } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+import { Rng, uniform, uniformInt } from "./rng";
+import { inBox, onUnitSphere } from "./sampling";
+
+type NVec<N extends number> = FArray<N, number>
+
+/**
+ * Generates Poisson-disk samples in a box with Bridson's algorithm: points
+ * spread evenly at random, with no two closer than `radius`, and no room left
+ * for another. New points are tried around existing ones until every point
+ * has failed `attempts` times.
+ *
+ * A background grid with cells of side `radius / sqrt(N)` holds at most one
+ * point per cell, so each candidate is checked against a few neighbours only.
+ *
+ * @param min the lower corner of the box.
+ * @param max the upper corner of the box.
+ * @param radius the minimum distance between points.
+ * @param rng the source of randomness.
+ * @param attempts the number of candidates tried around each point, defaults to 30.
+ * @returns the samples, in the order they were generated.
+ *
+ * @typeParam N - The dimension of the box, 2 or 3.
+ */
+export const poissonDisk = <N extends 2 | 3>(
+    min: NVec<N> | NDimVector<N>,
+    max: NVec<N> | NDimVector<N>,
+    radius: number,
+    rng: Rng,
+    attempts: number = 30,
+): NDimVector<N>[] => {
+    if (!(radius > 0 && Number.isFinite(radius))) {
+        throw new RangeError(`The sample radius must be positive, got ${radius}`)
+    }
+
+    const lo = NDimVector.getComponents<N>(min)
+    const hi = NDimVector.getComponents<N>(max)
+    const dim = lo.length as N
+    if (lo.some((l, i) => !(hi[i] >= l))) {
+        throw new RangeError("The upper corner of the box must not be below the lower corner")
+    }
+
+    const cell = radius / Math.sqrt(dim)
+    const shape = lo.map((l, i) => Math.max(1, Math.ceil((hi[i] - l) / cell)))
+    const grid: number[] = Array.from({ length: shape.reduce((a, b) => a * b, 1) }, () => -1)
+    const cellOf = (p: NVec<N>) => p.map((c, i) => Math.min(Math.floor((c - lo[i]) / cell), shape[i] - 1))
+    const indexOf = (cells: number[]) => cells.reduce((acc, c, i) => acc * shape[i] + c, 0)
+
+    const points: NVec<N>[] = []
+    const active: number[] = []
+    const insert = (p: NVec<N>) => {
+        grid[indexOf(cellOf(p))] = points.length
+        active.push(points.length)
+        points.push(p)
+    }
+
+    // A point closer than `radius` lies at most 2 cells away along each axis.
+    const isFarEnough = (p: NVec<N>): boolean => {
+        const center = cellOf(p)
+        const visit = (axis: number, cells: number[]): boolean => {
+            if (axis === dim) {
+                const neighbour = grid[indexOf(cells)]
+                return neighbour < 0 || distSquared(points[neighbour], p) >= radius * radius
+            }
+            const from = Math.max(center[axis] - 2, 0)
+            const to = Math.min(center[axis] + 2, shape[axis] - 1)
+            for (let c = from; c <= to; c++) {
+                if (!visit(axis + 1, [...cells, c])) return false
+            }
+            return true
+        }
+        return visit(0, [])
+    }
+
+    const inside = (p: NVec<N>) => p.every((c, i) => c >= lo[i] && c <= hi[i])
+
+    insert(inBox(lo, hi, rng))
+    while (active.length > 0) {
+        const slot = uniformInt(rng, 0, active.length - 1)
+        const origin = points[active[slot]]
+        let found = false
+        for (let k = 0; k < attempts && !found; k++) {
+            const candidate = add(origin, mul(onUnitSphere(dim, rng), uniform(rng, radius, 2 * radius)))
+            if (inside(candidate) && isFarEnough(candidate)) {
+                insert(candidate)
+                found = true
+            }
+        }
+        if (!found) {
+            active[slot] = active[active.length - 1]
+            active.pop()
+        }
+    }
+
+    return points.map(p => new NDimVector<N>(p))
+}
@@ -0,0 +1,50 @@
+import test from 'ava';
+
+import { gaussian, SeededRng, uniform, uniformInt } from './rng';
+
+const draw = (rng: SeededRng, count: number) => Array.from({ length: count }, () => rng.next());
+
+test('the same seed gives the same sequence', (t) => {
+  t.deepEqual(draw(new SeededRng(42), 20), draw(new SeededRng(42), 20));
+  t.notDeepEqual(draw(new SeededRng(42), 20), draw(new SeededRng(43), 20));
+});
+
+test('clones continue the same sequence independently', (t) => {
+  const rng = new SeededRng(7);
+  draw(rng, 5);
+  const copy = rng.clone();
+  t.deepEqual(draw(copy, 10), draw(rng, 10));
+});
+
+test('numbers are uniform in [0, 1)', (t) => {
+  const samples = draw(new SeededRng(1), 10000);
+  t.true(samples.every((n) => n >= 0 && n < 1));
+  const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+  t.true(Math.abs(mean - 0.5) < 0.02);
+  const buckets = Array.from({ length: 10 }, () => 0);
+  samples.forEach((n) => buckets[Math.floor(n * 10)]++);
+  t.true(buckets.every((count) => Math.abs(count - 1000) < 150));
+});
+
+test('uniform and uniformInt respect their bounds', (t) => {
+  const rng = new SeededRng(3);
+  for (let i = 0; i < 1000; i++) {
+    const n = uniform(rng, -2, 3);
+    t.true(n >= -2 && n < 3);
+  }
+  const seen = new Set<number>();
+  for (let i = 0; i < 1000; i++) seen.add(uniformInt(rng, 1, 6));
+  t.deepEqual([...seen].sort(), [1, 2, 3, 4, 5, 6]);
+  t.throws(() => uniformInt(rng, 2, 1), { instanceOf: RangeError });
+  t.throws(() => uniformInt(rng, 0.5, 1), { instanceOf: RangeError });
+});
+
+test('gaussian has the requested mean and deviation', (t) => {
+  const rng = new SeededRng(11);
+  const samples = Array.from({ length: 10000 }, () => gaussian(rng, 5, 2));
+  const mean = samples.reduce((a, b) => a + b, 0) / samples.length;
+  const variance = samples.reduce((acc, n) => acc + (n - mean) * (n - mean), 0) / samples.length;
+  t.true(Math.abs(mean - 5) < 0.1);
+  t.true(Math.abs(Math.sqrt(variance) - 2) < 0.1);
+  t.true(samples.every(Number.isFinite));
+});
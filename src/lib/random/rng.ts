@@ -0,0 +1,116 @@
+/**
+ * A source of uniformly distributed random numbers in [0, 1).
+ */
+export interface Rng {
+    next(): number
+}
+
+/**
+ * An Rng backed by `Math.random`, for when results need not be reproducible.
+ */
+export const MathRandom: Rng = {
+    next: () => Math.random(),
+}
+
+// SplitMix32, used to spread a single seed over the generator's state so
+// that nearby seeds give unrelated sequences.
+const splitMix32 = (seed: number) => () => {
+    seed = (seed + 0x9e3779b9) | 0
+    let z = seed
+    z = Math.imul(z ^ (z >>> 16), 0x85ebca6b)
+    z = Math.imul(z ^ (z >>> 13), 0xc2b2ae35)
+    return (z ^ (z >>> 16)) >>> 0
+}
+
+const rotl = (x: number, k: number) => (x << k) | (x >>> (32 - k))
+
+/**
+ * A seedable pseudo-random number generator (xoshiro128**). The same seed
+ * always gives the same sequence, which makes randomized code reproducible in
+ * tests. It is fast and statistically sound, but not cryptographically secure.
+ */
+export class SeededRng implements Rng {
+    private readonly state: Uint32Array
+
+    /**
+     * @param seed Any number; only its integer part is used.
+     */
+    constructor(seed: number) {
+        const next = splitMix32(Math.trunc(seed) | 0)
+        this.state = Uint32Array.from([next(), next(), next(), next()])
+    }
+
+    /**
+     * Generates the next 32 random bits.
+     *
+     * @returns An unsigned 32-bit integer.
+     */
+    public nextUint32(): number {
+        const s = this.state
+        const result = Math.imul(rotl(Math.imul(s[1], 5), 7), 9) >>> 0
+        const t = s[1] << 9
+        s[2] ^= s[0]
+        s[3] ^= s[1]
+        s[1] ^= s[2]
+        s[0] ^= s[3]
+        s[2] ^= t
+        s[3] = rotl(s[3], 11)
+        return result
+    }
+
+    public next(): number {
+        return this.nextUint32() / 0x100000000
+    }
+
+    /**
+     * Creates a generator in the same state as this one, which goes on to
+     * produce the same sequence independently.
+     *
+     * @returns A new SeededRng.
+     */
+    public clone(): SeededRng {
+        const copy = new SeededRng(0)
+        copy.state.set(this.state)
+        return copy
+    }
+}
+
+/**
+ * Draws a number uniformly from [min, max).
+ *
+ * @param rng the source of randomness.
+ * @param min the lower bound, inclusive.
+ * @param max the upper bound, exclusive.
+ * @returns the random number.
+ */
+export const uniform = (rng: Rng, min: number = 0, max: number = 1): number =>
+    min + (max - min) * rng.next()
+
+/**
+ * Draws an integer uniformly from [min, max].
+ *
+ * @param rng the source of randomness.
+ * @param min the smallest possible integer.
+ * @param max the largest possible integer.
+ * @returns the random integer.
+ */
+export const uniformInt = (rng: Rng, min: number, max: number): number => {
+    if (!(Number.isInteger(min) && Number.isInteger(max) && min <= max)) {
+        throw new RangeError(`Expected integer bounds with min <= max, got [${min}, ${max}]`)
+    }
+    return min + Math.floor(rng.next() * (max - min + 1))
+}
+
+/**
+ * Draws a number from a normal distribution with the Box-Muller transform.
+ *
+ * @param rng the source of randomness.
+ * @param mean the mean of the distribution.
+ * @param standardDeviation the standard deviation of the distribution.
+ * @returns the random number.
+ */
+export const gaussian = (rng: Rng, mean: number = 0, standardDeviation: number = 1): number => {
+    // 1 - next() lies in (0, 1], so the logarithm is finite.
+    const r = Math.sqrt(-2 * Math.log(1 - rng.next()))
+    return mean + standardDeviation * r * Math.cos(2 * Math.PI * rng.next())
+}
@@ -0,0 +1,100 @@
+import test from 'ava';
+
+import { AABB } from '../geometry/aabb';
+import { Sphere } from '../geometry/sphere';
+import { Triangle } from '../geometry/triangle';
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { poissonDisk } from './poisson-disk';
+import { SeededRng } from './rng';
+import { inBox, inTriangle, onUnitCircle, onUnitSphere } from './sampling';
+
+test('random vectors are reproducible', (t) => {
+  const a: NDimVector<4> = NDimVector.random(4, new SeededRng(5));
+  const b = NDimVector.random(4, new SeededRng(5));
+  t.is(a.length, 4);
+  t.deepEqual(a.components, b.components);
+  t.true(a.components.every((n) => n >= 0 && n < 1));
+  t.is(NDimVector.gaussian(3, new SeededRng(5)).length, 3);
+});
+
+test('unit vectors cover every direction evenly', (t) => {
+  const rng = new SeededRng(9);
+  const sum = [0, 0, 0];
+  for (let i = 0; i < 2000; i++) {
+    const v: NDimVector<3> = NDimVector.randomUnit(3, rng);
+    t.true(v.isNormalized(1e-12));
+    v.components.forEach((n, j) => (sum[j] += n));
+  }
+  t.true(sum.every((n) => Math.abs(n / 2000) < 0.05));
+  t.true(new NDimVector<2>(onUnitCircle(rng)).isNormalized(1e-12));
+  t.deepEqual(onUnitSphere(1, rng).map(Math.abs), [1]);
+  t.throws(() => onUnitSphere(0, rng), { instanceOf: RangeError });
+});
+
+test('a generator stuck at 0 still gives unit vectors', (t) => {
+  const zero = { next: () => 0 };
+  t.deepEqual(onUnitSphere(3, zero), [1, 0, 0]);
+  t.true(NDimVector.randomInUnitBall(2, zero).magnitude <= 1);
+});
+
+test('points in the unit ball are uniform by volume', (t) => {
+  const rng = new SeededRng(2);
+  const samples = Array.from({ length: 4000 }, () => NDimVector.randomInUnitBall(3, rng));
+  t.true(samples.every((v) => v.magnitude < 1));
+  // Half the volume of the unit ball lies within radius 0.5^(1/3).
+  const inner = samples.filter((v) => v.magnitude < Math.cbrt(0.5)).length;
+  t.true(Math.abs(inner / samples.length - 0.5) < 0.03);
+});
+
+test('shapes sample points inside themselves', (t) => {
+  const rng = new SeededRng(4);
+  const box = new AABB<3>([-1, 0, 2], [1, 3, 5]);
+  const sphere = new Sphere<2>([3, 4], 2);
+  const triangle = new Triangle<3>([0, 0, 0], [4, 0, 1], [0, 3, -1]);
+  for (let i = 0; i < 500; i++) {
+    t.true(box.contains(box.randomPoint(rng)));
+    t.true(sphere.contains(sphere.randomPoint(rng)));
+    t.true(Math.abs(sphere.signedDistance(sphere.randomSurfacePoint(rng))) < 1e-12);
+    t.true(triangle.contains(triangle.randomPoint(rng), 1e-9));
+  }
+  t.deepEqual(inBox([2, 2], [2, 2], rng), [2, 2]);
+});
+
+test('triangle samples are uniform', (t) => {
+  const rng = new SeededRng(8);
+  const triangle = new Triangle<2>([0, 0], [1, 0], [0, 1]);
+  const samples = Array.from({ length: 4000 }, () => inTriangle<2>([0, 0], [1, 0], [0, 1], rng));
+  const centroid = samples.reduce((acc, p) => [acc[0] + p[0], acc[1] + p[1]], [0, 0]).map((n) => n / samples.length);
+  t.true(new NDimVector<2>([centroid[0], centroid[1]]).distance(triangle.centroid) < 0.02);
+});
+
+test('Poisson-disk samples keep their distance and fill the box', (t) => {
+  const radius = 0.1;
+  const points: NDimVector<2>[] = poissonDisk<2>([0, 0], [1, 1], radius, new SeededRng(6));
+  t.true(points.every((p) => p.components.every((n) => n >= 0 && n <= 1)));
+  for (let i = 0; i < points.length; i++) {
+    for (let j = i + 1; j < points.length; j++) {
+      t.true(points[i].distance(points[j]) >= radius);
+    }
+  }
+  // No point of a fine grid over the box is left 2 radii away from a sample.
+  for (let x = 0; x <= 1; x += 0.05) {
+    for (let y = 0; y <= 1; y += 0.05) {
+      t.true(points.some((p) => p.distance([x, y]) < 2 * radius));
+    }
+  }
+  t.deepEqual(
+    poissonDisk<2>([0, 0], [1, 1], radius, new SeededRng(6)).map((p) => p.components),
+    points.map((p) => p.components)
+  );
+});
+
+test('Poisson-disk sampling in 3 dimensions', (t) => {
+  const radius = 0.25;
+  const points = poissonDisk<3>([0, 0, 0], [1, 1, 1], radius, new SeededRng(12));
+  t.true(points.length > 20);
+  t.true(points.every((p, i) => points.every((q, j) => i === j || p.distance(q) >= radius)));
+  t.throws(() => poissonDisk<3>([0, 0, 0], [1, 1, 1], 0, new SeededRng(1)), { instanceOf: RangeError });
+  t.throws(() => poissonDisk<2>([1, 0], [0, 1], 0.1, new SeededRng(1)), { instanceOf: RangeError });
+});
@@ -0,0 +1,124 @@
+import { FArray } from "../types/array";
+import { add, Dim, magnitude, mul, sub } from "../vector/math";
+import { gaussian, Rng, uniform } from "./rng";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+const generate = <N extends Dim>(dim: N, fn: (i: number) => number): NVec<N> =>
+    Array.from({ length: dim }, (_, i) => fn(i)) as NVec<N>
+
+/**
+ * Draws a vector whose components are each uniform in [0, 1).
+ *
+ * @param dim the dimension of the vector.
+ * @param rng the source of randomness.
+ * @returns the random components.
+ */
+export const uniformVector = <N extends Dim>(dim: N, rng: Rng): NVec<N> =>
+    generate(dim, () => rng.next())
+
+/**
+ * Draws a vector whose components are independent normal variates.
+ *
+ * @param dim the dimension of the vector.
+ * @param rng the source of randomness.
+ * @param mean the mean of every component, defaults to 0.
+ * @param standardDeviation the standard deviation of every component, defaults to 1.
+ * @returns the random components.
+ */
+export const gaussianVector = <N extends Dim>(dim: N, rng: Rng, mean: number = 0, standardDeviation: number = 1): NVec<N> =>
+    generate(dim, () => gaussian(rng, mean, standardDeviation))
+
+// A Gaussian vector is almost never tiny, so running out of attempts means
+// the generator is not random.
+const SPHERE_ATTEMPTS = 64
+
+/**
+ * Draws a point uniformly from the surface of the unit sphere, by normalizing
+ * a Gaussian vector, whose distribution is the same in every direction. In 2
+ * dimensions this is the unit circle.
+ *
+ * @param dim the dimension of the space, at least 1.
+ * @param rng the source of randomness.
+ * @returns a random unit vector.
+ */
+export const onUnitSphere = <N extends Dim>(dim: N, rng: Rng): NVec<N> => {
+    if (!(Number.isInteger(dim) && dim >= 1)) {
+        throw new RangeError(`A unit sphere needs at least 1 dimension, got ${dim}`)
+    }
+    for (let attempt = 0; attempt < SPHERE_ATTEMPTS; attempt++) {
+        const v = gaussianVector(dim, rng)
+        const length = magnitude(v)
+        // Rejecting tiny vectors keeps rounding from biasing the direction.
+        if (length > 1e-8) {
+            return mul(v, 1 / length)
+        }
+    }
+    // Only a degenerate generator, such as one that always returns 0, gets
+    // here; the first axis is still a point on the sphere.
+    return generate(dim, i => i === 0 ? 1 : 0)
+}
+
+/**
+ * Draws a point uniformly from the unit circle.
+ *
+ * @param rng the source of randomness.
+ * @returns a random 2-dimensional unit vector.
+ */
+export const onUnitCircle = (rng: Rng): NVec<2> => {
+    const theta = 2 * Math.PI * rng.next()
+    return [Math.cos(theta), Math.sin(theta)]
+}
+
+/**
+ * Draws a point uniformly from inside the unit ball. A random direction is
+ * scaled by `u^(1/dim)`, since the volume within radius r grows as r^dim.
+ *
+ * @param dim the dimension of the space, at least 1.
+ * @param rng the source of randomness.
+ * @returns a random point with magnitude below 1.
+ */
+export const inUnitBall = <N extends Dim>(dim: N, rng: Rng): NVec<N> =>
+    mul(onUnitSphere(dim, rng), Math.pow(rng.next(), 1 / dim))
+
+/**
+ * Draws a point uniformly from inside a ball.
+ *
+ * @param center the center of the ball.
+ * @param radius the radius of the ball.
+ * @param rng the source of randomness.
+ * @returns a random point within `radius` of `center`.
+ */
+export const inBall = <N extends Dim>(center: NVec<N>, radius: number, rng: Rng): NVec<N> =>
+    add(center, mul(inUnitBall(center.length as N, rng), radius))
+
+/**
+ * Draws a point uniformly from inside an axis-aligned box.
+ *
+ * @param min the lower corner of the box.
+ * @param max the upper corner of the box.
+ * @param rng the source of randomness.
+ * @returns a random point with every component between those of the corners.
+ */
+export const inBox = <N extends Dim>(min: NVec<N>, max: NVec<N>, rng: Rng): NVec<N> =>
+    generate(min.length as N, i => uniform(rng, min[i], max[i]))
+
+/**
+ * Draws a point uniformly from inside a triangle. A point in the unit square
+ * is folded onto the triangle's half of it, which preserves uniformity.
+ *
+ * @param a the first vertex.
+ * @param b the second vertex.
+ * @param c the third vertex.
+ * @param rng the source of randomness.
+ * @returns a random point in the triangle.
+ */
+export const inTriangle = <N extends Dim>(a: NVec<N>, b: NVec<N>, c: NVec<N>, rng: Rng): NVec<N> => {
+    let u = rng.next()
+    let v = rng.next()
+    if (u + v > 1) {
+        u = 1 - u
+        v = 1 - v
+    }
+    return add(a, add(mul(sub(b, a), u), mul(sub(c, a), v)))
+}
@@ -0,0 +1,105 @@
+import { Field } from "./field"
+
+/**
+ * A complex number `re + im·i`, with double precision parts.
+ */
+export class Complex {
+    public readonly re: number
+    public readonly im: number
+
+    constructor(re: number, im: number = 0) {
+        this.re = re
+        this.im = im
+    }
+
+    public static readonly zero = new Complex(0, 0)
+    public static readonly one = new Complex(1, 0)
+    public static readonly i = new Complex(0, 1)
+
+    /**
+     * Creates a complex number from its polar form.
+     *
+     * @param modulus The absolute value of the complex number.
+     * @param argument The angle from the positive real axis in radians.
+     * @returns A new Complex.
+     */
+    public static fromPolar(modulus: number, argument: number): Complex {
+        return new Complex(modulus * Math.cos(argument), modulus * Math.sin(argument))
+    }
+
+    public add(other: Complex): Complex {
+        return new Complex(this.re + other.re, this.im + other.im)
+    }
+
+    public sub(other: Complex): Complex {
+        return new Complex(this.re - other.re, this.im - other.im)
+    }
+
+    public mul(other: Complex): Complex {
+        return new Complex(
+            this.re * other.re - this.im * other.im,
+            this.re * other.im + this.im * other.re)
+    }
+
+    public div(other: Complex): Complex {
+        return this.mul(other.inv())
+    }
+
+    public neg(): Complex {
+        return new Complex(-this.re, -this.im)
+    }
+
+    public inv(): Complex {
+        const d = this.absSquared
+        return new Complex(this.re / d, -this.im / d)
+    }
+
+    public get conjugate(): Complex {
+        return new Complex(this.re, -this.im)
+    }
+
+    public get absSquared(): number {
+        return this.re * this.re + this.im * this.im
+    }
+
+    public get abs(): number {
+        return Math.sqrt(this.absSquared)
+    }
+
+    /**
+     * The angle of this complex number from the positive real axis, in (-π, π].
+     */
+    public get arg(): number {
+        return Math.atan2(this.im, this.re)
+    }
+
+    public equals(other: Complex): boolean {
+        return this.re === other.re && this.im === other.im
+    }
+
+    /**
+     * Formats this complex number as `re+imi`, e.g. `1-2i`.
+     */
+    public toString(): string {
+        return `${this.re}${this.im < 0 ? "-" : "+"}${Math.abs(this.im)}i`
+    }
+}
+
+/**
+ * The complex numbers. Conjugation negates the imaginary part, which makes
+ * the dot product of complex vectors a Hermitian inner product.
+ */
+export const ComplexField: Field<Complex> = {
+    zero: Complex.zero,
+    one: Complex.one,
+    add: (l, r) => l.add(r),
+    sub: (l, r) => l.sub(r),
+    mul: (l, r) => l.mul(r),
+    div: (l, r) => l.div(r),
+    neg: n => n.neg(),
+    inv: n => n.inv(),
+    equals: (l, r) => l.equals(r),
+    conj: n => n.conjugate,
+    absSquared: n => n.absSquared,
+    fromNumber: n => new Complex(n, 0),
+}
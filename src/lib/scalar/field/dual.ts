@@ -0,0 +1,168 @@
+import { OrderedField } from "./field"
+
+/**
+ * A dual number `value + derivative·ε`, where `ε² = 0`. Evaluating a function
+ * on dual numbers carries the derivative along with the value, exactly and
+ * without step sizes: `f(x + ε) = f(x) + f'(x)·ε`. This is forward-mode
+ * automatic differentiation.
+ *
+ * Arithmetic and the elementary functions apply the chain rule as they go, so
+ * any function written with them can be differentiated.
+ */
+export class Dual {
+    public readonly value: number
+    public readonly derivative: number
+
+    constructor(value: number, derivative: number = 0) {
+        this.value = value
+        this.derivative = derivative
+    }
+
+    public static readonly zero = new Dual(0)
+    public static readonly one = new Dual(1)
+
+    /**
+     * Creates the variable a function is differentiated with respect to,
+     * whose own derivative is 1.
+     *
+     * @param value The point to differentiate at.
+     * @returns A new Dual.
+     */
+    public static variable(value: number): Dual {
+        return new Dual(value, 1)
+    }
+
+    /**
+     * Creates a constant, whose derivative is 0.
+     *
+     * @param value The constant.
+     * @returns A new Dual.
+     */
+    public static constant(value: number): Dual {
+        return new Dual(value, 0)
+    }
+
+    // Applies a function with a known derivative, by the chain rule.
+    private chain(value: number, derivative: number): Dual {
+        return new Dual(value, derivative * this.derivative)
+    }
+
+    public add(other: Dual | number): Dual {
+        const o = lift(other)
+        return new Dual(this.value + o.value, this.derivative + o.derivative)
+    }
+
+    public sub(other: Dual | number): Dual {
+        const o = lift(other)
+        return new Dual(this.value - o.value, this.derivative - o.derivative)
+    }
+
+    public mul(other: Dual | number): Dual {
+        const o = lift(other)
+        return new Dual(this.value * o.value, this.derivative * o.value + this.value * o.derivative)
+    }
+
+    public div(other: Dual | number): Dual {
+        const o = lift(other)
+        return new Dual(this.value / o.value, (this.derivative * o.value - this.value * o.derivative) / (o.value * o.value))
+    }
+
+    public neg(): Dual {
+        return new Dual(-this.value, -this.derivative)
+    }
+
+    public inv(): Dual {
+        return this.chain(1 / this.value, -1 / (this.value * this.value))
+    }
+
+    /**
+     * Raises this number to a constant power.
+     *
+     * @param exponent The power to raise to.
+     * @returns A new Dual.
+     */
+    public pow(exponent: number): Dual {
+        return exponent === 0
+            ? Dual.one
+            : this.chain(Math.pow(this.value, exponent), exponent * Math.pow(this.value, exponent - 1))
+    }
+
+    public sqrt(): Dual {
+        const root = Math.sqrt(this.value)
+        return this.chain(root, 0.5 / root)
+    }
+
+    public exp(): Dual {
+        const e = Math.exp(this.value)
+        return this.chain(e, e)
+    }
+
+    public log(): Dual {
+        return this.chain(Math.log(this.value), 1 / this.value)
+    }
+
+    public sin(): Dual {
+        return this.chain(Math.sin(this.value), Math.cos(this.value))
+    }
+
+    public cos(): Dual {
+        return this.chain(Math.cos(this.value), -Math.sin(this.value))
+    }
+
+    public tan(): Dual {
+        const c = Math.cos(this.value)
+        return this.chain(Math.tan(this.value), 1 / (c * c))
+    }
+
+    public atan(): Dual {
+        return this.chain(Math.atan(this.value), 1 / (1 + this.value * this.value))
+    }
+
+    public tanh(): Dual {
+        const t = Math.tanh(this.value)
+        return this.chain(t, 1 - t * t)
+    }
+
+    /**
+     * The absolute value. Its derivative at 0 is taken to be 0.
+     */
+    public abs(): Dual {
+        return this.chain(Math.abs(this.value), Math.sign(this.value))
+    }
+
+    public equals(other: Dual): boolean {
+        return this.value === other.value && this.derivative === other.derivative
+    }
+
+    /**
+     * Formats this dual number as `value+derivativeε`, e.g. `2+3ε`.
+     */
+    public toString(): string {
+        return `${this.value}${this.derivative < 0 ? "-" : "+"}${Math.abs(this.derivative)}ε`
+    }
+}
+
+const lift = (n: Dual | number): Dual =>
+    typeof n === "number" ? Dual.constant(n) : n
+
+/**
+ * The dual numbers, so that vectors of them can be used to differentiate
+ * vector functions. Only the values take part in `absSquared`, which makes
+ * `magnitude` a plain number; write `v.dot(v).sqrt()` to differentiate a length.
+ * Dual numbers are ordered by their values alone.
+ */
+export const DualField: OrderedField<Dual> = {
+    zero: Dual.zero,
+    one: Dual.one,
+    add: (l, r) => l.add(r),
+    sub: (l, r) => l.sub(r),
+    mul: (l, r) => l.mul(r),
+    div: (l, r) => l.div(r),
+    neg: n => n.neg(),
+    inv: n => n.inv(),
+    equals: (l, r) => l.equals(r),
+    conj: n => n,
+    absSquared: n => n.value * n.value,
+    fromNumber: n => Dual.constant(n),
+    compare: (l, r) => l.value - r.value,
+}
@@ -0,0 +1,52 @@
+import test from 'ava';
+
+import { Complex, ComplexField } from './complex';
+import { asField, BigIntRing, isField, NumberField } from './field';
+import { Rational, RationalField } from './rational';
+
+test('rationals are kept in lowest terms', (t) => {
+  const half = Rational.of(3, -6);
+  t.is(half.numerator, BigInt(-1));
+  t.is(half.denominator, BigInt(2));
+  t.is(half.toString(), '-1/2');
+  t.is(Rational.of(4, 2).toString(), '2');
+  t.throws(() => Rational.of(1, 0), { instanceOf: RangeError });
+});
+
+test('rational arithmetic is exact', (t) => {
+  const third = Rational.of(1, 3);
+  const sixth = Rational.of(1, 6);
+  t.true(third.add(sixth).equals(Rational.of(1, 2)));
+  t.true(third.sub(sixth).equals(sixth));
+  t.true(third.mul(sixth).equals(Rational.of(1, 18)));
+  t.true(third.div(sixth).equals(Rational.of(2)));
+  t.is(third.compare(sixth), 1);
+  t.throws(() => Rational.zero.inv(), { instanceOf: RangeError });
+});
+
+test('numbers convert to rationals exactly', (t) => {
+  t.true(Rational.fromNumber(0.375).equals(Rational.of(3, 8)));
+  t.is(Rational.fromNumber(0.1).toNumber(), 0.1);
+  t.throws(() => Rational.fromNumber(Infinity), { instanceOf: RangeError });
+});
+
+test('complex arithmetic', (t) => {
+  const z = new Complex(1, 2);
+  const w = new Complex(3, -1);
+  t.true(z.mul(w).equals(new Complex(5, 5)));
+  t.true(z.mul(z.inv()).equals(Complex.one));
+  t.true(z.conjugate.equals(new Complex(1, -2)));
+  t.is(new Complex(3, 4).abs, 5);
+  t.is(z.toString(), '1+2i');
+  t.is(w.toString(), '3-1i');
+});
+
+test('fields and rings', (t) => {
+  t.true(isField(NumberField));
+  t.true(isField(RationalField));
+  t.true(isField(ComplexField));
+  t.false(isField(BigIntRing));
+  t.throws(() => asField(BigIntRing), { instanceOf: TypeError });
+  t.is(BigIntRing.fromNumber(3), BigInt(3));
+  t.throws(() => BigIntRing.fromNumber(0.5), { instanceOf: RangeError });
+});
@@ -0,0 +1,109 @@
+import { add, div, mul, sub } from "../math/math.js"
+
+
+/**
+ * The arithmetic a vector needs from its scalars: a commutative ring with
+ * identities, plus the conjugation and absolute value used to define inner
+ * products and magnitudes.
+ *
+ * @typeParam T - the scalar type.
+ */
+export interface Ring<T> {
+	readonly zero: T
+	readonly one: T
+	add(l: T, r: T): T
+	sub(l: T, r: T): T
+	mul(l: T, r: T): T
+	neg(n: T): T
+	equals(l: T, r: T): boolean
+	/** The complex conjugate of a scalar; the identity for real scalars. */
+	conj(n: T): T
+	/** The squared absolute value of a scalar, as a number. */
+	absSquared(n: T): number
+	/** Converts a number to a scalar, throwing a RangeError if it cannot be represented. */
+	fromNumber(n: number): T
+}
+
+/**
+ * A ring in which every non-zero scalar has a multiplicative inverse.
+ *
+ * @typeParam T - the scalar type.
+ */
+export interface Field<T> extends Ring<T> {
+	div(l: T, r: T): T
+	inv(n: T): T
+}
+
+/**
+ * A field whose scalars are totally ordered, as needed to clamp them.
+ *
+ * @typeParam T - the scalar type.
+ */
+export interface OrderedField<T> extends Field<T> {
+	/** Negative if `l` is less than `r`, positive if greater, and 0 if neither. */
+	compare(l: T, r: T): number
+}
+
+/**
+ * Determines whether a ring supports division.
+ *
+ * @param ring the ring to check.
+ * @returns true if the ring is a field.
+ */
+export const isField = <T>(ring: Ring<T>): ring is Field<T> =>
+	typeof (ring as Field<T>).div === "function"
+
+/**
+ * Narrows a ring to a field.
+ *
+ * @param ring the ring to narrow.
+ * @returns the ring, typed as a field.
+ * @throws TypeError if the ring does not support division.
+ */
+export const asField = <T>(ring: Ring<T>): Field<T> => {
+	if (!isField(ring)) {
+		throw new TypeError("Division requires a field, but the scalars only form a ring")
+	}
+	return ring
+}
+
+/**
+ * The real numbers, as approximated by IEEE 754 doubles.
+ */
+export const NumberField: OrderedField<number> = {
+	zero: 0,
+	one: 1,
+	add,
+	sub,
+	mul,
+	div,
+	neg: n => -n,
+	inv: n => 1 / n,
+	equals: (l, r) => l === r,
+	conj: n => n,
+	absSquared: n => n * n,
+	fromNumber: n => n,
+	compare: (l, r) => l - r,
+}
+
+/**
+ * The integers, represented exactly as bigints. Integers have no general
+ * division, so this is only a ring.
+ */
+export const BigIntRing: Ring<bigint> = {
+	zero: BigInt(0),
+	one: BigInt(1),
+	add: (l, r) => l + r,
+	sub: (l, r) => l - r,
+	mul: (l, r) => l * r,
+	neg: n => -n,
+	equals: (l, r) => l === r,
+	conj: n => n,
+	absSquared: n => Number(n * n),
+	fromNumber: n => {
+		if (!Number.isInteger(n)) {
+			throw new RangeError(`${n} is not an integer`)
+		}
+		return BigInt(n)
+	},
+}
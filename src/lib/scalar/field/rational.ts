@@ -0,0 +1,164 @@
+import { Field } from "./field"
+
+const ZERO = BigInt(0)
+const ONE = BigInt(1)
+const TWO = BigInt(2)
+
+const abs = (n: bigint): bigint => n < ZERO ? -n : n
+
+const gcd = (a: bigint, b: bigint): bigint => {
+    a = abs(a)
+    b = abs(b)
+    while (b !== ZERO) {
+        [a, b] = [b, a % b]
+    }
+    return a
+}
+
+/**
+ * An exact rational number, the quotient of two bigints. Rationals are kept
+ * in lowest terms with a positive denominator, so equal values always have
+ * equal numerators and denominators.
+ */
+export class Rational {
+    public readonly numerator: bigint
+    public readonly denominator: bigint
+
+    private constructor(numerator: bigint, denominator: bigint) {
+        this.numerator = numerator
+        this.denominator = denominator
+    }
+
+    public static readonly zero = new Rational(ZERO, ONE)
+    public static readonly one = new Rational(ONE, ONE)
+
+    /**
+     * Creates the rational `numerator / denominator` in lowest terms.
+     *
+     * @param numerator The integer numerator.
+     * @param denominator The integer denominator, defaults to 1.
+     * @returns A new Rational.
+     * @throws RangeError if the denominator is 0 or either part is not an integer.
+     */
+    public static of(numerator: bigint | number, denominator: bigint | number = ONE): Rational {
+        const n = BigInt(numerator)
+        const d = BigInt(denominator)
+        if (d === ZERO) {
+            throw new RangeError("The denominator of a rational cannot be 0")
+        }
+
+        const divisor = gcd(n, d) * (d < ZERO ? -ONE : ONE)
+        return new Rational(n / divisor, d / divisor)
+    }
+
+    /**
+     * Converts a number to the rational with exactly the same value. Every
+     * finite double is a fraction with a power of two as its denominator.
+     *
+     * @param n The number to convert.
+     * @returns A new Rational equal to `n`.
+     * @throws RangeError if `n` is not finite.
+     */
+    public static fromNumber(n: number): Rational {
+        if (!Number.isFinite(n)) {
+            throw new RangeError(`${n} cannot be represented as a rational`)
+        }
+
+        let denominator = ONE
+        while (!Number.isInteger(n)) {
+            n *= 2
+            denominator *= TWO
+        }
+        return Rational.of(BigInt(n), denominator)
+    }
+
+    public add(other: Rational): Rational {
+        return Rational.of(
+            this.numerator * other.denominator + other.numerator * this.denominator,
+            this.denominator * other.denominator)
+    }
+
+    public sub(other: Rational): Rational {
+        return this.add(other.neg())
+    }
+
+    public mul(other: Rational): Rational {
+        return Rational.of(this.numerator * other.numerator, this.denominator * other.denominator)
+    }
+
+    /**
+     * Divides this rational by another.
+     *
+     * @param other The divisor.
+     * @returns A new Rational representing the quotient.
+     * @throws RangeError if the divisor is 0.
+     */
+    public div(other: Rational): Rational {
+        return this.mul(other.inv())
+    }
+
+    public neg(): Rational {
+        return new Rational(-this.numerator, this.denominator)
+    }
+
+    /**
+     * Calculates the reciprocal of this rational.
+     *
+     * @returns A new Rational equal to `1 / this`.
+     * @throws RangeError if this rational is 0.
+     */
+    public inv(): Rational {
+        return Rational.of(this.denominator, this.numerator)
+    }
+
+    public equals(other: Rational): boolean {
+        return this.numerator === other.numerator && this.denominator === other.denominator
+    }
+
+    /**
+     * Compares this rational with another.
+     *
+     * @param other The rational to compare with.
+     * @returns -1, 0 or 1 as this rational is less than, equal to or greater than `other`.
+     */
+    public compare(other: Rational): -1 | 0 | 1 {
+        const difference = this.numerator * other.denominator - other.numerator * this.denominator
+        return difference < ZERO ? -1 : difference > ZERO ? 1 : 0
+    }
+
+    /**
+     * Converts this rational to the nearest number. Precision is lost when the
+     * numerator or denominator exceed `Number.MAX_SAFE_INTEGER`.
+     */
+    public toNumber(): number {
+        return Number(this.numerator) / Number(this.denominator)
+    }
+
+    /**
+     * Formats this rational as `numerator/denominator`, or as an integer when
+     * the denominator is 1.
+     */
+    public toString(): string {
+        return this.denominator === ONE
+            ? `${this.numerator}`
+            : `${this.numerator}/${this.denominator}`
+    }
+}
+
+/**
+ * The rational numbers, with exact arithmetic.
+ */
+export const RationalField: Field<Rational> = {
+    zero: Rational.zero,
+    one: Rational.one,
+    add: (l, r) => l.add(r),
+    sub: (l, r) => l.sub(r),
+    mul: (l, r) => l.mul(r),
+    div: (l, r) => l.div(r),
+    neg: n => n.neg(),
+    inv: n => n.inv(),
+    equals: (l, r) => l.equals(r),
+    conj: n => n,
+    absSquared: n => n.mul(n).toNumber(),
+    fromNumber: Rational.fromNumber,
+}
@@ -0,0 +1,76 @@
+import { clamp } from "./math"
+
+
+/**
+ * An easing function maps progress `t` in [0, 1] to eased progress, with
+ * `f(0) = 0` and `f(1) = 1`. Some easings overshoot in between.
+ */
+export type Easing = (t: number) => number
+
+const BACK = 1.70158
+const ELASTIC_PERIOD = 2 * Math.PI / 3
+
+// Mirroring turns an ease-in into an ease-out and back; the in-out variant
+// runs the ease-in for the first half and its mirror for the second.
+const mirror = (easing: Easing): Easing => t => 1 - easing(1 - t)
+const easeInOutOf = (easeIn: Easing): Easing => t =>
+	t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2
+
+export const linear: Easing = t => t
+
+export const easeInQuad: Easing = t => t * t
+export const easeOutQuad = mirror(easeInQuad)
+export const easeInOutQuad = easeInOutOf(easeInQuad)
+
+export const easeInCubic: Easing = t => t * t * t
+export const easeOutCubic = mirror(easeInCubic)
+export const easeInOutCubic = easeInOutOf(easeInCubic)
+
+export const easeInQuart: Easing = t => t * t * t * t
+export const easeOutQuart = mirror(easeInQuart)
+export const easeInOutQuart = easeInOutOf(easeInQuart)
+
+export const easeInQuint: Easing = t => t * t * t * t * t
+export const easeOutQuint = mirror(easeInQuint)
+export const easeInOutQuint = easeInOutOf(easeInQuint)
+
+export const easeInSine: Easing = t => 1 - Math.cos(t * Math.PI / 2)
+export const easeOutSine = mirror(easeInSine)
+export const easeInOutSine = easeInOutOf(easeInSine)
+
+export const easeInExpo: Easing = t => t === 0 ? 0 : Math.pow(2, 10 * t - 10)
+export const easeOutExpo = mirror(easeInExpo)
+export const easeInOutExpo = easeInOutOf(easeInExpo)
+
+export const easeInCirc: Easing = t => 1 - Math.sqrt(1 - clamp(t, 0, 1) ** 2)
+export const easeOutCirc = mirror(easeInCirc)
+export const easeInOutCirc = easeInOutOf(easeInCirc)
+
+/**
+ * Pulls back slightly below 0 before accelerating towards 1.
+ */
+export const easeInBack: Easing = t => (BACK + 1) * t * t * t - BACK * t * t
+export const easeOutBack = mirror(easeInBack)
+export const easeInOutBack = easeInOutOf(easeInBack)
+
+/**
+ * Oscillates with growing amplitude before snapping to 1, like a spring.
+ */
+export const easeInElastic: Easing = t =>
+	t === 0 || t === 1 ? t : -Math.pow(2, 10 * t - 10) * Math.sin((10 * t - 10.75) * ELASTIC_PERIOD)
+export const easeOutElastic = mirror(easeInElastic)
+export const easeInOutElastic = easeInOutOf(easeInElastic)
+
+/**
+ * Bounces off 1 with decreasing height, like a dropped ball.
+ */
+export const easeOutBounce: Easing = t => {
+	const n = 7.5625
+	const d = 2.75
+	if (t < 1 / d) return n * t * t
+	if (t < 2 / d) return n * (t -= 1.5 / d) * t + 0.75
+	if (t < 2.5 / d) return n * (t -= 2.25 / d) * t + 0.9375
+	return n * (t -= 2.625 / d) * t + 0.984375
+}
+export const easeInBounce = mirror(easeOutBounce)
+export const easeInOutBounce = easeInOutOf(easeInBounce)
@@ -0,0 +1,63 @@
+import { Field, OrderedField } from "../field/field"
+
+// Scalar helpers over any field, such as dual numbers for differentiation.
+// These mirror the functions in `math.ts`, taking the scalar arithmetic as
+// their first argument; with `NumberField` they produce the same results.
+
+export const square = <T>(field: Field<T>, n: T): T => field.mul(n, n)
+
+export const sum = <T>(field: Field<T>, ns: T[]): T => ns.reduce((acc, n) => field.add(acc, n), field.zero)
+
+export const avg = <T>(field: Field<T>, ...ns: T[]): T => field.div(sum(field, ns), field.fromNumber(ns.length))
+
+export const clamp = <T>(field: OrderedField<T>, n: T, min: T, max: T): T => {
+	if (field.compare(n, min) < 0) return min
+	return field.compare(n, max) > 0 ? max : n
+}
+
+// Interpolation
+
+/**
+ * Linearly interpolates between two scalars.
+ *
+ * @param field the scalar arithmetic.
+ * @param a the value at t = 0.
+ * @param b the value at t = 1.
+ * @param t the interpolation parameter; values outside [0, 1] extrapolate.
+ * @returns the interpolated value.
+ */
+export const lerp = <T>(field: Field<T>, a: T, b: T, t: T): T =>
+	field.add(a, field.mul(field.sub(b, a), t))
+
+/**
+ * The inverse of `lerp`: finds the parameter at which the interpolation from
+ * `a` to `b` reaches `value`.
+ *
+ * @param field the scalar arithmetic.
+ * @param a the value at t = 0.
+ * @param b the value at t = 1; must differ from `a`.
+ * @param value the interpolated value.
+ * @returns the interpolation parameter.
+ */
+export const inverseLerp = <T>(field: Field<T>, a: T, b: T, value: T): T =>
+	field.div(field.sub(value, a), field.sub(b, a))
+
+/**
+ * Maps a value from one range onto another, so that `inMin` maps to `outMin`
+ * and `inMax` to `outMax`. The result is not clamped.
+ *
+ * @returns the remapped value.
+ */
+export const remap = <T>(field: Field<T>, value: T, inMin: T, inMax: T, outMin: T, outMax: T): T =>
+	lerp(field, outMin, outMax, inverseLerp(field, inMin, inMax, value))
+
+/**
+ * Hermite interpolation between 0 and 1 as `x` moves from `edge0` to `edge1`,
+ * with zero slope at both edges, as in GLSL.
+ *
+ * @returns 0 at or below `edge0`, 1 at or above `edge1`, and a smooth curve between.
+ */
+export const smoothstep = <T>(field: OrderedField<T>, edge0: T, edge1: T, x: T): T => {
+	const t = clamp(field, inverseLerp(field, edge0, edge1, x), field.zero, field.one)
+	return field.mul(square(field, t), field.sub(field.fromNumber(3), field.mul(field.fromNumber(2), t)))
+}
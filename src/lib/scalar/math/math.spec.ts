@@ -0,0 +1,76 @@
+import test from 'ava';
+
+import { NumberField } from '../field/field';
+
+import * as easing from './easing';
+import * as fieldMath from './field-math';
+import {
+  angleDifference,
+  clamp,
+  degToRad,
+  fract,
+  inverseLerp,
+  lerp,
+  mod,
+  radToDeg,
+  remap,
+  smoothstep,
+  wrapAngle,
+} from './math';
+
+const close = (a: number, b: number) => Math.abs(a - b) < 1e-12;
+
+test('interpolation', (t) => {
+  t.is(clamp(5, 0, 3), 3);
+  t.is(lerp(2, 6, 0.25), 3);
+  t.is(inverseLerp(2, 6, 3), 0.25);
+  t.is(remap(5, 0, 10, 100, 200), 150);
+  t.is(remap(-5, 0, 10, 100, 200), 50);
+});
+
+test('smoothstep', (t) => {
+  t.is(smoothstep(0, 1, -1), 0);
+  t.is(smoothstep(0, 1, 0.5), 0.5);
+  t.is(smoothstep(0, 1, 2), 1);
+  t.true(smoothstep(0, 1, 0.25) < 0.25);
+});
+
+test('mod and fract are never negative', (t) => {
+  t.is(mod(-1, 3), 2);
+  t.is(mod(7, -3), 1);
+  t.is(mod(6, 3), 0);
+  t.true(mod(-1e-20, 3) < 3);
+  t.is(fract(-1.25), 0.75);
+  t.is(fract(2.5), 0.5);
+  t.is(fract(-1e-20), 0);
+});
+
+test('angles', (t) => {
+  t.is(degToRad(180), Math.PI);
+  t.is(radToDeg(Math.PI / 2), 90);
+  t.true(close(wrapAngle(3 * Math.PI), -Math.PI));
+  t.true(close(wrapAngle(-Math.PI / 2 - 4 * Math.PI), -Math.PI / 2));
+  t.true(close(angleDifference(degToRad(350), degToRad(10)), degToRad(20)));
+  t.true(close(angleDifference(degToRad(10), degToRad(350)), degToRad(-20)));
+});
+
+test('easings start at 0 and end at 1', (t) => {
+  Object.entries(easing).forEach(([name, ease]) => {
+    t.true(close(ease(0), 0), `${name}(0)`);
+    t.true(close(ease(1), 1), `${name}(1)`);
+  });
+  t.is(easing.easeInOutQuad(0.5), 0.5);
+  t.true(easing.easeInBack(0.2) < 0);
+  t.true(easing.easeOutBounce(0.5) > 0.5);
+});
+
+test('the field versions agree with the number versions', (t) => {
+  t.is(fieldMath.clamp(NumberField, 5, 0, 3), clamp(5, 0, 3));
+  t.is(fieldMath.clamp(NumberField, -1, 0, 3), 0);
+  t.is(fieldMath.lerp(NumberField, 2, 6, 0.25), lerp(2, 6, 0.25));
+  t.is(fieldMath.inverseLerp(NumberField, 2, 6, 3), inverseLerp(2, 6, 3));
+  t.is(fieldMath.remap(NumberField, -5, 0, 10, 100, 200), remap(-5, 0, 10, 100, 200));
+  [-1, 0.25, 0.5, 0.8, 2].forEach((x) => t.is(fieldMath.smoothstep(NumberField, 0, 1, x), smoothstep(0, 1, x)));
+  t.is(fieldMath.avg(NumberField, 1, 2, 6), 3);
+  t.is(fieldMath.sum(NumberField, []), 0);
+});
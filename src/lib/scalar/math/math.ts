@@ -11,3 +11,99 @@ export const square = (n: number) => n * n
 export const sum = (ns: number[]) => ns.reduce(add, 0)
 
 export const avg = (...ns: number[]) => sum(ns) / ns.length
+
+export const clamp = (n: number, min: number, max: number) => Math.min(Math.max(n, min), max)
+
+// Interpolation
+
+/**
+ * Linearly interpolates between two numbers.
+ *
+ * @param a the value at t = 0.
+ * @param b the value at t = 1.
+ * @param t the interpolation parameter; values outside [0, 1] extrapolate.
+ * @returns the interpolated value.
+ */
+export const lerp = (a: number, b: number, t: number) => a + (b - a) * t
+
+/**
+ * The inverse of `lerp`: finds the parameter at which the interpolation from
+ * `a` to `b` reaches `value`.
+ *
+ * @param a the value at t = 0.
+ * @param b the value at t = 1; must differ from `a`.
+ * @param value the interpolated value.
+ * @returns the interpolation parameter.
+ */
+export const inverseLerp = (a: number, b: number, value: number) => (value - a) / (b - a)
+
+/**
+ * Maps a value from one range onto another, so that `inMin` maps to `outMin`
+ * and `inMax` to `outMax`. The result is not clamped.
+ *
+ * @returns the remapped value.
+ */
+export const remap = (value: number, inMin: number, inMax: number, outMin: number, outMax: number) =>
+	lerp(outMin, outMax, inverseLerp(inMin, inMax, value))
+
+/**
+ * Hermite interpolation between 0 and 1 as `x` moves from `edge0` to `edge1`,
+ * with zero slope at both edges, as in GLSL.
+ *
+ * @returns 0 at or below `edge0`, 1 at or above `edge1`, and a smooth curve between.
+ */
+export const smoothstep = (edge0: number, edge1: number, x: number) => {
+	const t = clamp(inverseLerp(edge0, edge1, x), 0, 1)
+	return t * t * (3 - 2 * t)
+}
+
+// Modular arithmetic
+
+/**
+ * The remainder of floored division, which unlike `%` is never negative:
+ * `mod(-1, 3)` is 2.
+ *
+ * @param n the dividend.
+ * @param m the divisor; its sign is ignored.
+ * @returns a value in [0, |m|).
+ */
+export const mod = (n: number, m: number) => {
+	const d = Math.abs(m)
+	const r = n % d
+	// A tiny negative remainder can round up to d itself.
+	return r < 0 ? (r + d < d ? r + d : 0) : r
+}
+
+/**
+ * The fractional part of a number, `n - floor(n)`, which is never negative:
+ * `fract(-1.25)` is 0.75.
+ *
+ * @returns a value in [0, 1).
+ */
+export const fract = (n: number) => {
+	const f = n - Math.floor(n)
+	// A tiny negative number rounds up to 1 itself.
+	return f === 1 ? 0 : f
+}
+
+// Angles
+
+export const degToRad = (degrees: number) => degrees * Math.PI / 180
+export const radToDeg = (radians: number) => radians * 180 / Math.PI
+
+/**
+ * Wraps an angle in radians into the interval [-π, π).
+ *
+ * @param theta the angle to wrap.
+ * @returns the equivalent angle in [-π, π).
+ */
+export const wrapAngle = (theta: number) => mod(theta + Math.PI, 2 * Math.PI) - Math.PI
+
+/**
+ * Calculates the shortest signed rotation from one angle to another.
+ *
+ * @param from the starting angle in radians.
+ * @param to the target angle in radians.
+ * @returns the rotation in [-π, π) that takes `from` to `to`.
+ */
+export const angleDifference = (from: number, to: number) => wrapAngle(to - from)
@@ -0,0 +1,50 @@
+import test from 'ava';
+
+import { gaussLegendre, gaussLegendreRule, simpson, trapezoid } from './quadrature';
+
+const close = (actual: number, expected: number, tolerance: number) => Math.abs(actual - expected) <= tolerance;
+
+test('trapezoid is exact for lines and converges quadratically', (t) => {
+  t.true(close(trapezoid((x) => 3 * x + 1, 0, 2, 1), 8, 1e-15));
+  const coarse = Math.abs(trapezoid(Math.sin, 0, Math.PI, 10) - 2);
+  const fine = Math.abs(trapezoid(Math.sin, 0, Math.PI, 20) - 2);
+  t.true(Math.abs(coarse / fine - 4) < 0.1);
+  t.true(close(trapezoid(Math.exp, 0, 1), Math.E - 1, 2e-5));
+});
+
+test('simpson is exact for cubics and converges with the fourth power', (t) => {
+  t.true(close(simpson((x) => x * x * x - 2 * x, -1, 3, 2), 12, 1e-12));
+  t.true(close(simpson((x) => x * x, 0, 3, 3), 9, 1e-12));
+  const coarse = Math.abs(simpson(Math.sin, 0, Math.PI, 10) - 2);
+  const fine = Math.abs(simpson(Math.sin, 0, Math.PI, 20) - 2);
+  t.true(Math.abs(coarse / fine - 16) < 0.5);
+  t.true(close(simpson(Math.exp, 0, 1), Math.E - 1, 1e-10));
+});
+
+test('Gauss-Legendre rules', (t) => {
+  const midpoint = gaussLegendreRule(1);
+  t.true(close(midpoint.nodes[0], 0, 1e-15));
+  t.true(close(midpoint.weights[0], 2, 1e-15));
+  const { nodes, weights } = gaussLegendreRule(3);
+  t.true(close(nodes[0], -Math.sqrt(3 / 5), 1e-15));
+  t.true(close(nodes[1], 0, 1e-15));
+  t.true(close(weights[0], 5 / 9, 1e-14));
+  t.true(close(weights[1], 8 / 9, 1e-15));
+  for (const n of [2, 5, 10, 20]) {
+    const rule = gaussLegendreRule(n);
+    t.true(close(rule.weights.reduce((a, b) => a + b, 0), 2, 1e-13));
+    t.true(rule.nodes.every((x, i) => i === 0 || x > rule.nodes[i - 1]));
+  }
+});
+
+test('Gauss-Legendre is exact to degree 2n - 1', (t) => {
+  // The integral of x^9 - x^4 over [0, 2] is 2^10 / 10 - 2^5 / 5.
+  t.true(close(gaussLegendre((x) => Math.pow(x, 9) - Math.pow(x, 4), 0, 2, 5), 102.4 - 6.4, 1e-11));
+  t.false(close(gaussLegendre((x) => Math.pow(x, 10), 0, 2, 5), Math.pow(2, 11) / 11, 1e-6));
+  t.true(close(gaussLegendre(Math.exp, 0, 1, 10), Math.E - 1, 1e-14));
+  t.true(close(gaussLegendre(Math.sin, 0, 10, 8, 4), 1 - Math.cos(10), 1e-10));
+  // The limits are never evaluated, so an integrable singularity is fine.
+  t.true(close(gaussLegendre((x) => 1 / Math.sqrt(x), 0, 1, 20, 50), 2, 1e-2));
+  t.throws(() => trapezoid(Math.sin, 0, 1, 0), { instanceOf: RangeError });
+  t.throws(() => gaussLegendre(Math.sin, 0, 1, 2.5), { instanceOf: RangeError });
+});
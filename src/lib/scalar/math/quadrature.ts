@@ -0,0 +1,128 @@
+// Numerical integration of scalar functions over an interval
+
+const checkCount = (n: number, what: string) => {
+	if (!(Number.isInteger(n) && n >= 1)) {
+		throw new RangeError(`The number of ${what} must be a positive integer, got ${n}`)
+	}
+}
+
+/**
+ * Integrates a function with the composite trapezoid rule, which is exact for
+ * linear functions. The error shrinks with the square of the interval width.
+ *
+ * @param f the function to integrate.
+ * @param a the lower limit.
+ * @param b the upper limit.
+ * @param n the number of equal intervals, defaults to 100.
+ * @returns the approximate integral of f from a to b.
+ */
+export const trapezoid = (f: (x: number) => number, a: number, b: number, n: number = 100): number => {
+	checkCount(n, "intervals")
+	const h = (b - a) / n
+	let sum = (f(a) + f(b)) / 2
+	for (let i = 1; i < n; i++) sum += f(a + i * h)
+	return sum * h
+}
+
+/**
+ * Integrates a function with the composite Simpson's rule, which is exact for
+ * cubics. The error shrinks with the fourth power of the interval width.
+ *
+ * @param f the function to integrate.
+ * @param a the lower limit.
+ * @param b the upper limit.
+ * @param n the number of equal intervals, defaults to 100; odd counts are
+ * rounded up, as the rule works on pairs of intervals.
+ * @returns the approximate integral of f from a to b.
+ */
+export const simpson = (f: (x: number) => number, a: number, b: number, n: number = 100): number => {
+	checkCount(n, "intervals")
+	const even = n % 2 === 0 ? n : n + 1
+	const h = (b - a) / even
+	let sum = f(a) + f(b)
+	for (let i = 1; i < even; i++) sum += (i % 2 === 0 ? 2 : 4) * f(a + i * h)
+	return sum * h / 3
+}
+
+/**
+ * The nodes and weights of an n-point Gauss-Legendre rule on [-1, 1].
+ */
+export type GaussLegendreRule = {
+	nodes: number[]
+	weights: number[]
+}
+
+const rules = new Map<number, GaussLegendreRule>()
+
+/**
+ * Evaluates the Legendre polynomial Pₙ and its derivative by Bonnet's recursion.
+ */
+const legendre = (n: number, x: number): [number, number] => {
+	let p = 1, previous = 0
+	for (let k = 1; k <= n; k++) {
+		const next = ((2 * k - 1) * x * p - (k - 1) * previous) / k
+		previous = p
+		p = next
+	}
+	return [p, n * (x * p - previous) / (x * x - 1)]
+}
+
+/**
+ * Computes the n-point Gauss-Legendre rule: the nodes are the roots of the
+ * Legendre polynomial Pₙ, found by Newton's method from Chebyshev estimates.
+ * Rules are cached, as they only depend on n.
+ *
+ * @param n the number of points, at least 1.
+ * @returns the nodes, in increasing order, and their weights.
+ */
+export const gaussLegendreRule = (n: number): GaussLegendreRule => {
+	checkCount(n, "points")
+	const cached = rules.get(n)
+	if (cached) return cached
+
+	const nodes: number[] = []
+	const weights: number[] = []
+	for (let i = 0; i < n; i++) {
+		let x = Math.cos(Math.PI * (i + 0.75) / (n + 0.5))
+		for (let iteration = 0; iteration < 100; iteration++) {
+			const [p, derivative] = legendre(n, x)
+			const dx = p / derivative
+			x -= dx
+			if (Math.abs(dx) <= 1e-15) break
+		}
+		const [, derivative] = legendre(n, x)
+		nodes.unshift(x)
+		weights.unshift(2 / ((1 - x * x) * derivative * derivative))
+	}
+
+	const rule = { nodes, weights }
+	rules.set(n, rule)
+	return rule
+}
+
+/**
+ * Integrates a function with Gauss-Legendre quadrature, which is exact for
+ * polynomials of degree up to 2·points - 1 and converges very quickly for
+ * smooth functions. The function is never evaluated at the limits, so they
+ * may be integrable singularities.
+ *
+ * @param f the function to integrate.
+ * @param a the lower limit.
+ * @param b the upper limit.
+ * @param points the number of points per interval, defaults to 5.
+ * @param intervals the number of equal intervals to apply the rule on, defaults to 1.
+ * @returns the approximate integral of f from a to b.
+ */
+export const gaussLegendre = (f: (x: number) => number, a: number, b: number, points: number = 5, intervals: number = 1): number => {
+	checkCount(intervals, "intervals")
+	const { nodes, weights } = gaussLegendreRule(points)
+	const h = (b - a) / intervals
+	let sum = 0
+	for (let i = 0; i < intervals; i++) {
+		const center = a + (i + 0.5) * h
+		for (let j = 0; j < nodes.length; j++) {
+			sum += weights[j] * f(center + nodes[j] * h / 2)
+		}
+	}
+	return sum * h / 2
+}
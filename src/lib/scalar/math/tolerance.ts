@@ -0,0 +1,52 @@
+/**
+ * Tolerances used when comparing floating point numbers. Two numbers are
+ * considered equal when any of the provided tolerances is satisfied.
+ *
+ * - `absolute`: the maximum absolute difference.
+ * - `relative`: the maximum difference relative to the larger magnitude.
+ * - `ulps`: the maximum number of units in the last place between them.
+ */
+export type Tolerance = {
+	absolute?: number
+	relative?: number
+	ulps?: number
+}
+
+export const DEFAULT_TOLERANCE: Readonly<Tolerance> = { absolute: 1e-12, relative: 1e-9 }
+
+/**
+ * The unit in the last place of a number: the gap between it and the next
+ * representable double of greater magnitude.
+ */
+export const ulp = (n: number) => {
+	const abs = Math.abs(n)
+	return abs < Number.MIN_VALUE / Number.EPSILON
+		? Number.MIN_VALUE
+		: Math.pow(2, Math.floor(Math.log2(abs))) * Number.EPSILON
+}
+
+/**
+ * The distance between two numbers measured in units in the last place of the
+ * larger one.
+ */
+export const ulpDistance = (l: number, r: number) =>
+	l === r ? 0 : Math.abs(l - r) / ulp(Math.max(Math.abs(l), Math.abs(r)))
+
+/**
+ * Compares two numbers within a tolerance.
+ *
+ * @param l one of the numbers.
+ * @param r the other number.
+ * @param tolerance the tolerances to compare with, defaults to `DEFAULT_TOLERANCE`.
+ * @returns true if the numbers are equal within any of the given tolerances.
+ */
+export const approxEqual = (l: number, r: number, tolerance: Tolerance = DEFAULT_TOLERANCE) => {
+	if (l === r) return true
+	if (!Number.isFinite(l) || !Number.isFinite(r)) return false
+
+	const { absolute = 0, relative = 0, ulps = 0 } = tolerance
+	const diff = Math.abs(l - r)
+	return diff <= absolute
+		|| diff <= relative * Math.max(Math.abs(l), Math.abs(r))
+		|| ulpDistance(l, r) <= ulps
+}
@@ -0,0 +1,86 @@
+import test from 'ava';
+
+import { SeededRng } from '../random/rng';
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { HashGrid } from './hash-grid';
+
+type Body = { id: number; position: NDimVector<2> };
+
+const scene = (count: number) => {
+  const rng = new SeededRng(10);
+  return Array.from({ length: count }, (_, id): Body => ({
+    id,
+    position: NDimVector.random(2, rng).mul(10).sub([5, 5]),
+  }));
+};
+
+const ids = (bodies: Body[]) => bodies.map((b) => b.id).sort((a, b) => a - b);
+
+test('queries agree with brute force', (t) => {
+  const bodies = scene(300);
+  const grid = new HashGrid<2, Body>(1);
+  bodies.forEach((b) => grid.insert(b, b.position));
+  t.is(grid.size, 300);
+
+  for (const center of scene(20).map((b) => b.position)) {
+    t.deepEqual(
+      ids(grid.queryRadius(center, 1.5)),
+      ids(bodies.filter((b) => b.position.distance(center) <= 1.5))
+    );
+  }
+  t.deepEqual(
+    ids(grid.queryBox([-2, -1], [0.5, 3])),
+    ids(bodies.filter((b) => b.position.x >= -2 && b.position.x <= 0.5 && b.position.y >= -1 && b.position.y <= 3))
+  );
+});
+
+test('moving and removing items', (t) => {
+  const bodies = scene(100);
+  const grid = new HashGrid<2, Body>(0.5);
+  bodies.forEach((b) => grid.insert(b, b.position));
+
+  const rng = new SeededRng(3);
+  bodies.forEach((b) => {
+    b.position = b.position.add(NDimVector.randomInUnitBall(2, rng));
+    grid.move(b, b.position);
+  });
+  t.is(grid.size, 100);
+  t.deepEqual(ids(grid.queryBox([-10, -10], [10, 10])), ids(bodies));
+  t.deepEqual(ids(grid.queryRadius([0, 0], 3)), ids(bodies.filter((b) => b.position.magnitude <= 3)));
+
+  t.true(grid.remove(bodies[0]));
+  t.false(grid.remove(bodies[0]));
+  t.false(grid.has(bodies[0]));
+  t.is(grid.positionOf(bodies[0]), undefined);
+  t.deepEqual(grid.positionOf(bodies[1])?.components, bodies[1].position.components);
+  t.is(grid.queryBox([-10, -10], [10, 10]).length, 99);
+
+  grid.clear();
+  t.is(grid.size, 0);
+  t.deepEqual(grid.queryRadius([0, 0], 100), []);
+});
+
+test('3D grids and invalid cell sizes', (t) => {
+  const grid = new HashGrid<3, string>(2);
+  grid.insert('a', [0, 0, 0]);
+  grid.insert('b', [0, 0, 3.9]);
+  grid.insert('c', [-0.1, 0, 0]);
+  t.deepEqual(grid.queryRadius([0, 0, 0], 1).sort(), ['a', 'c']);
+  t.deepEqual(grid.queryRadius([0, 0, 2], 2).sort(), ['a', 'b']);
+  t.throws(() => new HashGrid<2, string>(0), { instanceOf: RangeError });
+});
+
+test('huge and infinite queries scan the occupied cells', (t) => {
+  const grid = new HashGrid<2, string>(1);
+  grid.insert('a', [0, 0]);
+  grid.insert('b', [5, -3]);
+  grid.insert('c', [1e9, 1e9]);
+  t.deepEqual(grid.queryRadius([0, 0], Infinity).sort(), ['a', 'b', 'c']);
+  t.deepEqual(grid.queryRadius([0, 0], 1e12).sort(), ['a', 'b', 'c']);
+  t.deepEqual(grid.queryRadius([0, 0], 1e6).sort(), ['a', 'b']);
+  t.deepEqual(grid.queryBox([-Infinity, -Infinity], [Infinity, 0]).sort(), ['a', 'b']);
+  t.deepEqual(grid.queryBox([1, -1e12], [1e12, 1e12]).sort(), ['b', 'c']);
+  t.throws(() => grid.queryRadius([0, 0], NaN), { instanceOf: RangeError });
+  t.throws(() => grid.queryBox([NaN, 0], [1, 1]), { instanceOf: RangeError });
+});
@@ -0,0 +1,194 @@
+import { FArray } from "../types/array";
+import { distSquared } from "../vector/math";
+import { NDimVector } from "../vector/n-dim-vector";
+
+type NVec<N extends number> = FArray<N, number>
+type Point<N extends 2 | 3> = NVec<N> | NDimVector<N>
+
+type Entry<N extends 2 | 3> = {
+    position: NVec<N>
+    key: string
+}
+
+/**
+ * A uniform grid of cells keyed by a hash of their coordinates, for scenes
+ * where items move every frame. Inserting, moving and removing an item are
+ * constant time, and a query only looks at the cells it overlaps.
+ *
+ * Queries are fastest when the cell size is close to the typical query
+ * radius. Items are identified by reference, so each can be in the grid once.
+ *
+ * @typeParam N - The dimension of the scene, 2 or 3.
+ * @typeParam T - The type of the items.
+ */
+export class HashGrid<N extends 2 | 3, T> {
+    public readonly cellSize: number
+    private readonly cells = new Map<string, Set<T>>()
+    private readonly entries = new Map<T, Entry<N>>()
+
+    /**
+     * @param cellSize The side length of each cell.
+     */
+    constructor(cellSize: number) {
+        if (!(cellSize > 0 && Number.isFinite(cellSize))) {
+            throw new RangeError(`The cell size must be positive, got ${cellSize}`)
+        }
+        this.cellSize = cellSize
+    }
+
+    /**
+     * The number of items in the grid.
+     */
+    public get size(): number {
+        return this.entries.size
+    }
+
+    private cellOf(position: readonly number[]): number[] {
+        return position.map(n => Math.floor(n / this.cellSize))
+    }
+
+    /**
+     * Adds an item at a position, or moves it there if it is already in the grid.
+     *
+     * @param item The item to add.
+     * @param position Where the item is.
+     */
+    public insert(item: T, position: Point<N>): void {
+        const p = [...NDimVector.getComponents<N>(position)] as NVec<N>
+        const key = this.cellOf(p).join(",")
+        const entry = this.entries.get(item)
+        if (entry) {
+            entry.position = p
+            if (entry.key === key) return
+            this.leave(item, entry.key)
+            entry.key = key
+        } else {
+            this.entries.set(item, { position: p, key })
+        }
+
+        const cell = this.cells.get(key)
+        if (cell) cell.add(item)
+        else this.cells.set(key, new Set([item]))
+    }
+
+    /**
+     * Moves an item to a new position. The same as `insert`.
+     *
+     * @param item The item to move.
+     * @param position Where the item is now.
+     */
+    public move(item: T, position: Point<N>): void {
+        this.insert(item, position)
+    }
+
+    private leave(item: T, key: string): void {
+        const cell = this.cells.get(key)
+        if (!cell) return
+        cell.delete(item)
+        if (cell.size === 0) this.cells.delete(key)
+    }
+
+    /**
+     * Removes an item from the grid.
+     *
+     * @param item The item to remove.
+     * @returns true if the item was in the grid.
+     */
+    public remove(item: T): boolean {
+        const entry = this.entries.get(item)
+        if (!entry) return false
+        this.leave(item, entry.key)
+        this.entries.delete(item)
+        return true
+    }
+
+    public has(item: T): boolean {
+        return this.entries.has(item)
+    }
+
+    /**
+     * Finds where an item is.
+     *
+     * @param item The item to look up.
+     * @returns The position of the item, or undefined if it is not in the grid.
+     */
+    public positionOf(item: T): NDimVector<N> | undefined {
+        const entry = this.entries.get(item)
+        return entry && new NDimVector<N>([...entry.position] as NVec<N>)
+    }
+
+    public clear(): void {
+        this.cells.clear()
+        this.entries.clear()
+    }
+
+    // Calls `fn` with the items of every cell overlapping the box [lo, hi].
+    // Boxes spanning more cells than are occupied, up to infinite ones, scan
+    // the occupied cells instead of walking every cell coordinate.
+    private forEachCell(lo: readonly number[], hi: readonly number[], fn: (items: Set<T>) => void): void {
+        if ([...lo, ...hi].some(n => Number.isNaN(n))) {
+            throw new RangeError(`The query bounds must be numbers, got [${lo}] to [${hi}]`)
+        }
+        const from = this.cellOf(lo)
+        const to = this.cellOf(hi)
+        const span = from.reduce((acc, c, axis) => acc * Math.max(0, to[axis] - c + 1), 1)
+
+        if (span > this.cells.size) {
+            this.cells.forEach((items, key) => {
+                const coordinates = key.split(",").map(Number)
+                if (coordinates.every((c, axis) => c >= from[axis] && c <= to[axis])) fn(items)
+            })
+            return
+        }
+
+        const visit = (axis: number, coordinates: number[]) => {
+            if (axis === from.length) {
+                const cell = this.cells.get(coordinates.join(","))
+                if (cell) fn(cell)
+                return
+            }
+            for (let c = from[axis]; c <= to[axis]; c++) {
+                visit(axis + 1, [...coordinates, c])
+            }
+        }
+        visit(0, [])
+    }
+
+    /**
+     * Finds every item within a Euclidean distance of a point.
+     *
+     * @param center The query point.
+     * @param radius The largest distance to include.
+     * @returns The items within `radius`, in no particular order.
+     * @throws RangeError if the center or radius is NaN.
+     */
+    public queryRadius(center: Point<N>, radius: number): T[] {
+        const c = NDimVector.getComponents<N>(center)
+        const found: T[] = []
+        this.forEachCell(c.map(n => n - radius), c.map(n => n + radius), items =>
+            items.forEach(item => {
+                if (distSquared(this.entries.get(item).position, c) <= radius * radius) found.push(item)
+            }))
+        return found
+    }
+
+    /**
+     * Finds every item inside an axis-aligned box, boundary included.
+     *
+     * @param min The lower corner of the box.
+     * @param max The upper corner of the box.
+     * @returns The items in the box, in no particular order.
+     * @throws RangeError if a corner has a NaN component.
+     */
+    public queryBox(min: Point<N>, max: Point<N>): T[] {
+        const lo = NDimVector.getComponents<N>(min)
+        const hi = NDimVector.getComponents<N>(max)
+        const found: T[] = []
+        this.forEachCell(lo, hi, items =>
+            items.forEach(item => {
+                const p = this.entries.get(item).position
+                if (p.every((n, i) => n >= lo[i] && n <= hi[i])) found.push(item)
+            }))
+        return found
+    }
+}
@@ -0,0 +1,107 @@
+import test from 'ava';
+
+import { Maybe } from '../fn/maybe1';
+import { SeededRng } from '../random/rng';
+import { Cosine, minkowski } from '../vector/metric';
+import { NDimVector } from '../vector/n-dim-vector';
+
+import { KdMetric, KdTree, Neighbour } from './kd-tree';
+
+const unwrap = <T>(maybe: Maybe<T>): T =>
+  maybe.match({
+    just: (value) => value,
+    none: () => {
+      throw new Error('Expected a value');
+    },
+  });
+
+const distances: Record<KdMetric, (a: NDimVector<3>, b: NDimVector<3>) => number> = {
+  euclidean: (a, b) => a.distance(b),
+  manhattan: (a, b) => a.components.reduce((acc, n, i) => acc + Math.abs(n - b[i]), 0),
+  chebyshev: (a, b) => Math.max(...a.components.map((n, i) => Math.abs(n - b[i]))),
+};
+
+const cloud = (seed: number, count: number) => {
+  const rng = new SeededRng(seed);
+  // Rounded coordinates give plenty of ties along each axis.
+  return Array.from({ length: count }, () => NDimVector.random(3, rng).map((n) => Math.round(n * 20) / 20));
+};
+
+const bruteForce = (points: NDimVector<3>[], query: NDimVector<3>, metric: KdMetric) =>
+  points.map((p) => distances[metric](p, query)).sort((a, b) => a - b);
+
+const distancesOf = (found: Neighbour<3>[]) => found.map((n) => n.distance);
+
+for (const metric of ['euclidean', 'manhattan', 'chebyshev'] as KdMetric[]) {
+  test(`queries agree with brute force: ${metric}`, (t) => {
+    const points = cloud(1, 400);
+    const tree = new KdTree<3>(points, metric);
+    const queries = cloud(2, 30);
+    for (const query of queries) {
+      const expected = bruteForce(points, query, metric);
+      t.is(unwrap(tree.nearest(query)).distance, expected[0]);
+      t.deepEqual(distancesOf(tree.kNearest(query, 7)), expected.slice(0, 7));
+      t.deepEqual(distancesOf(tree.withinRadius(query, 0.2)), expected.filter((d) => d <= 0.2));
+      for (const neighbour of tree.kNearest(query, 3)) {
+        t.is(distances[metric](neighbour.point, query), neighbour.distance);
+      }
+    }
+  });
+}
+
+test('box queries agree with brute force', (t) => {
+  const points = cloud(3, 400);
+  const tree = new KdTree<3>(points);
+  const key = (p: NDimVector<3>) => p.toString();
+  for (const [lo, hi] of [
+    [[0.1, 0.2, 0.3], [0.5, 0.5, 0.9]],
+    [[0.25, 0.25, 0.25], [0.25, 1, 1]],
+    [[0, 0, 0], [1, 1, 1]],
+  ] as [number[], number[]][]) {
+    const inside = points.filter((p) => p.components.every((n, i) => n >= lo[i] && n <= hi[i]));
+    const found = tree.inBox(lo as [number, number, number], hi as [number, number, number]);
+    t.deepEqual(found.map(key).sort(), inside.map(key).sort());
+  }
+});
+
+test('insert and remove', (t) => {
+  const points = cloud(4, 200);
+  const tree = new KdTree<3>(points.slice(0, 100));
+  points.slice(100).forEach((p) => tree.insert(p));
+  t.is(tree.size, 200);
+
+  const removed = points.filter((_, i) => i % 3 === 0);
+  removed.forEach((p) => t.true(tree.remove(p)));
+  t.is(tree.size, 200 - removed.length);
+  t.false(tree.remove([5, 5, 5]));
+
+  const remaining = points.filter((_, i) => i % 3 !== 0);
+  const key = (p: NDimVector<3>) => p.toString();
+  t.deepEqual(tree.points().map(key).sort(), remaining.map(key).sort());
+  for (const query of cloud(5, 20)) {
+    t.deepEqual(distancesOf(tree.kNearest(query, 5)), bruteForce(remaining, query, 'euclidean').slice(0, 5));
+  }
+});
+
+test('empty trees and small k', (t) => {
+  const tree = new KdTree<2>();
+  t.true(tree.nearest([0, 0]).isNone);
+  t.deepEqual(tree.withinRadius([0, 0], 1), []);
+  tree.insert([1, 1]);
+  tree.insert([1, 1]);
+  t.is(tree.kNearest([0, 0], 5).length, 2);
+  t.deepEqual(tree.kNearest([0, 0], 0), []);
+  t.true(tree.remove(new NDimVector<2>([1, 1])));
+  t.deepEqual(unwrap(tree.nearest([0, 0])).point.components, [1, 1]);
+});
+
+test('any axis-bounded metric can be used', (t) => {
+  const points = cloud(6, 200);
+  const metric = minkowski<3>(3);
+  const tree = new KdTree<3>(points, metric);
+  for (const query of cloud(7, 10)) {
+    const expected = points.map((p) => metric.distance(p.components, query.components)).sort((a, b) => a - b);
+    t.deepEqual(distancesOf(tree.kNearest(query, 4)), expected.slice(0, 4));
+  }
+  t.throws(() => new KdTree<3>(points, Cosine), { instanceOf: RangeError });
+});
@@ -0,0 +1,264 @@
+import { Maybe } from "../fn/maybe1";
+import { FArray } from "../types/array";
+import { Dim, equals } from "../vector/math";
+import { Chebyshev, Euclidean, Manhattan, Metric } from "../vector/metric";
+import { NDimVector } from "../vector/n-dim-vector";
+
+type NVec<N extends Dim> = FArray<N, number>
+type Point<N extends Dim> = NVec<N> | NDimVector<N>
+
+/**
+ * The names of the common metrics a KdTree can search with.
+ */
+export type KdMetric = "euclidean" | "manhattan" | "chebyshev"
+
+const metrics: Record<KdMetric, Metric<Dim>> = {
+    euclidean: Euclidean,
+    manhattan: Manhattan,
+    chebyshev: Chebyshev,
+}
+
+type KdNode<N extends Dim> = {
+    point: NVec<N>
+    axis: number
+    left?: KdNode<N>
+    right?: KdNode<N>
+    removed: boolean
+}
+
+/**
+ * A point found by a KdTree query, with its distance from the query point.
+ */
+export type Neighbour<N extends Dim> = {
+    point: NDimVector<N>
+    distance: number
+}
+
+/**
+ * A k-d tree over a set of points, for fast nearest-neighbour, radius and
+ * box queries. Each level of the tree splits the points in two along one
+ * axis, cycling through the axes.
+ *
+ * The tree is built balanced; inserting afterwards may unbalance it. Removed
+ * points are only marked, and the tree is rebuilt once they make up half of
+ * it.
+ *
+ * @typeParam N - The dimension of the points.
+ */
+export class KdTree<N extends Dim> {
+    public readonly metric: Metric<N>
+    private root?: KdNode<N>
+    private count: number = 0
+    private removedCount: number = 0
+
+    /**
+     * @param points The points to build the tree from. They are copied.
+     * @param metric The distance used by the queries, by name or as any
+     * axis-bounded Metric, such as `minkowski(3)`. Defaults to euclidean.
+     */
+    constructor(points: Point<N>[] = [], metric: KdMetric | Metric<N> = "euclidean") {
+        this.metric = typeof metric === "string" ? metrics[metric] : metric
+        // Skipping the far side of a splitting plane is only safe when the
+        // distance is at least the difference along the splitting axis.
+        if (!this.metric.axisBounded) {
+            throw new RangeError("A KdTree needs a metric that is bounded below by every axis difference")
+        }
+        this.rebuild(points.map(p => [...NDimVector.getComponents<N>(p)] as NVec<N>))
+    }
+
+    /**
+     * The number of points in the tree.
+     */
+    public get size(): number {
+        return this.count
+    }
+
+    /**
+     * Lists the points in the tree, in no particular order.
+     *
+     * @returns A new NDimVector for each point.
+     */
+    public points(): NDimVector<N>[] {
+        return this.collect().map(p => new NDimVector<N>([...p] as NVec<N>))
+    }
+
+    private collect(): NVec<N>[] {
+        const points: NVec<N>[] = []
+        const visit = (node?: KdNode<N>) => {
+            if (!node) return
+            if (!node.removed) points.push(node.point)
+            visit(node.left)
+            visit(node.right)
+        }
+        visit(this.root)
+        return points
+    }
+
+    private rebuild(points: NVec<N>[]): void {
+        const build = (items: NVec<N>[], depth: number): KdNode<N> | undefined => {
+            if (items.length === 0) return undefined
+            const axis = depth % items[0].length
+            const sorted = [...items].sort((a, b) => a[axis] - b[axis])
+            const median = sorted.length >> 1
+            return {
+                point: sorted[median],
+                axis,
+                left: build(sorted.slice(0, median), depth + 1),
+                right: build(sorted.slice(median + 1), depth + 1),
+                removed: false,
+            }
+        }
+        this.root = build(points, 0)
+        this.count = points.length
+        this.removedCount = 0
+    }
+
+    /**
+     * Adds a point to the tree.
+     *
+     * @param point The point to add. It is copied.
+     */
+    public insert(point: Point<N>): void {
+        const p = [...NDimVector.getComponents<N>(point)] as NVec<N>
+        this.count++
+        if (!this.root) {
+            this.root = { point: p, axis: 0, removed: false }
+            return
+        }
+        let node = this.root
+        for (;;) {
+            const side = p[node.axis] < node.point[node.axis] ? "left" : "right"
+            const child = node[side]
+            if (!child) {
+                node[side] = { point: p, axis: (node.axis + 1) % p.length, removed: false }
+                return
+            }
+            node = child
+        }
+    }
+
+    /**
+     * Removes one occurrence of a point from the tree.
+     *
+     * @param point The point to remove.
+     * @returns true if the point was found and removed.
+     */
+    public remove(point: Point<N>): boolean {
+        const p = NDimVector.getComponents<N>(point)
+        // Equal coordinates may sit on either side of a split, as the build
+        // and insert place them differently.
+        const find = (node?: KdNode<N>): KdNode<N> | undefined => {
+            if (!node) return undefined
+            if (!node.removed && equals(node.point, p)) return node
+            const c = p[node.axis], split = node.point[node.axis]
+            return (c <= split ? find(node.left) : undefined) ?? (c >= split ? find(node.right) : undefined)
+        }
+
+        const node = find(this.root)
+        if (!node) return false
+        node.removed = true
+        this.count--
+        this.removedCount++
+        if (this.removedCount > this.count) {
+            this.rebuild(this.collect())
+        }
+        return true
+    }
+
+    /**
+     * Finds the point closest to a query point.
+     *
+     * @param query The query point.
+     * @returns The nearest point, or none if the tree is empty.
+     */
+    public nearest(query: Point<N>): Maybe<Neighbour<N>> {
+        const [found] = this.kNearest(query, 1)
+        return found ? Maybe.just(found) : Maybe.none()
+    }
+
+    /**
+     * Finds the `k` points closest to a query point.
+     *
+     * @param query The query point.
+     * @param k The number of points to find.
+     * @returns Up to `k` points, nearest first.
+     */
+    public kNearest(query: Point<N>, k: number): Neighbour<N>[] {
+        const q = NDimVector.getComponents<N>(query)
+        // Kept sorted by distance; k is expected to be small.
+        const best: { point: NVec<N>, distance: number }[] = []
+        const limit = () => best.length < k ? Infinity : best[best.length - 1].distance
+
+        const visit = (node?: KdNode<N>) => {
+            if (!node) return
+            if (!node.removed) {
+                const d = this.metric.distance(node.point, q)
+                if (d < limit()) {
+                    let i = best.length
+                    while (i > 0 && best[i - 1].distance > d) i--
+                    best.splice(i, 0, { point: node.point, distance: d })
+                    if (best.length > k) best.pop()
+                }
+            }
+            const diff = q[node.axis] - node.point[node.axis]
+            const [near, far] = diff < 0 ? [node.left, node.right] : [node.right, node.left]
+            visit(near)
+            if (Math.abs(diff) <= limit()) visit(far)
+        }
+
+        if (k > 0) visit(this.root)
+        return best.map(({ point, distance }) => ({ point: new NDimVector<N>([...point] as NVec<N>), distance }))
+    }
+
+    /**
+     * Finds every point within a distance of a query point.
+     *
+     * @param query The query point.
+     * @param radius The largest distance to include.
+     * @returns The points within `radius`, nearest first.
+     */
+    public withinRadius(query: Point<N>, radius: number): Neighbour<N>[] {
+        const q = NDimVector.getComponents<N>(query)
+        const found: { point: NVec<N>, distance: number }[] = []
+
+        const visit = (node?: KdNode<N>) => {
+            if (!node) return
+            if (!node.removed) {
+                const d = this.metric.distance(node.point, q)
+                if (d <= radius) found.push({ point: node.point, distance: d })
+            }
+            const diff = q[node.axis] - node.point[node.axis]
+            if (diff - radius <= 0) visit(node.left)
+            if (diff + radius >= 0) visit(node.right)
+        }
+
+        visit(this.root)
+        return found
+            .sort((a, b) => a.distance - b.distance)
+            .map(({ point, distance }) => ({ point: new NDimVector<N>([...point] as NVec<N>), distance }))
+    }
+
+    /**
+     * Finds every point inside an axis-aligned box, boundary included.
+     *
+     * @param min The lower corner of the box.
+     * @param max The upper corner of the box.
+     * @returns The points in the box, in no particular order.
+     */
+    public inBox(min: Point<N>, max: Point<N>): NDimVector<N>[] {
+        const lo = NDimVector.getComponents<N>(min)
+        const hi = NDimVector.getComponents<N>(max)
+        const found: NVec<N>[] = []
+
+        const visit = (node?: KdNode<N>) => {
+            if (!node) return
+            const p = node.point
+            if (!node.removed && p.every((n, i) => n >= lo[i] && n <= hi[i])) found.push(p)
+            if (lo[node.axis] <= p[node.axis]) visit(node.left)
+            if (hi[node.axis] >= p[node.axis]) visit(node.right)
+        }
+
+        visit(this.root)
+        return found.map(p => new NDimVector<N>([...p] as NVec<N>))
+    }
+}
@@ -36,15 +36,31 @@ export type Length<Arr extends unknown[]> =
     Arr extends { readonly length: infer Len } ? Len : never
 
   
+// The tuples of 0 to 9 elements of type T, indexed by decimal digit.
+type DigitArrays<T> = {
+	"0": [], "1": [T], "2": [T, T], "3": [T, T, T], "4": [T, T, T, T],
+	"5": [T, T, T, T, T], "6": [T, T, T, T, T, T], "7": [T, T, T, T, T, T, T],
+	"8": [T, T, T, T, T, T, T, T], "9": [T, T, T, T, T, T, T, T, T],
+}
+
+type Times10<T extends readonly unknown[]> = [...T, ...T, ...T, ...T, ...T, ...T, ...T, ...T, ...T, ...T]
+
+type BuildFromDigits<Digits extends string, T, Acc extends T[] = []> =
+	Digits extends `${infer D extends keyof DigitArrays<T>}${infer Rest}`
+		? BuildFromDigits<Rest, T, [...Times10<Acc>, ...DigitArrays<T>[D]]>
+		: Acc
+
 /**
- * Constructs a homogenous tuple of a specified length.
+ * Constructs a homogenous tuple of a specified length. The tuple is built one
+ * decimal digit at a time, so the recursion depth grows with the number of
+ * digits rather than the length, and any length up to TypeScript's tuple
+ * limit of 9999 can be built. A non-literal length gives a plain array.
  *
  * @typeParam {number} Len - The length of the array to construct.
  * @typeParam T - The type of elements in the tuple.
- * @typeParam Acc - Accumulator for recursive construction, defaults to an empty array.
  */
-export type BuildArray<Len extends number, T extends unknown, Acc extends readonly T[] = []> =
-	Acc extends { length: Len } ? Acc : BuildArray<Len, T, [...Acc, T]>
+export type BuildArray<Len extends number, T extends unknown> =
+	number extends Len ? T[] : BuildFromDigits<`${Len}`, T>
 
 export type FArray<Len extends number, T> = Array<T> & FixedArray<Len, T>
 
@@ -1,31 +1,84 @@
-import { ArrayKeys, BuildArray, Length } from "./array"
+import { ArrayKeys, BuildArray } from "./array"
+
+// Arithmetic is done on the decimal digits of numbers, as strings, so the
+// recursion depth grows with the number of digits rather than the value.
+
+type Digit = "0" | "1" | "2" | "3" | "4" | "5" | "6" | "7" | "8" | "9"
+
+type Ten = BuildArray<10, 0>
+
+type DigitArray<D extends string> = D extends `${infer N extends number}` ? BuildArray<N, 0> : []
+
+type Head<S extends string> = S extends `${infer D extends Digit}${string}` ? D : "0"
+
+type Tail<S extends string> = S extends `${string}${infer Rest}` ? Rest : ""
+
+type Reverse<S extends string, Acc extends string = ""> =
+	S extends `${infer First}${infer Rest}` ? Reverse<Rest, `${First}${Acc}`> : Acc
+
+type TrimZeros<S extends string> =
+	S extends `0${infer Rest}` ? Rest extends "" ? "0" : TrimZeros<Rest> : S
+
+type ToNumber<S extends string> = S extends `${infer N extends number}` ? N : never
+
+// Both operands and the result have their least significant digit first.
+type AddDigits<A extends string, B extends string, Carry extends 0[] = [], Acc extends string = ""> =
+	[A, B] extends ["", ""]
+		? Carry extends [] ? Acc : `${Acc}1`
+		: [...DigitArray<Head<A>>, ...DigitArray<Head<B>>, ...Carry] extends infer Sum extends 0[]
+			? Sum extends [...Ten, ...infer Rest extends 0[]]
+				? AddDigits<Tail<A>, Tail<B>, [0], `${Acc}${Rest["length"]}`>
+				: AddDigits<Tail<A>, Tail<B>, [], `${Acc}${Sum["length"]}`>
+			: never
+
+// As AddDigits, giving never if the result would be negative.
+type SubtractDigits<A extends string, B extends string, Borrow extends 0[] = [], Acc extends string = ""> =
+	A extends ""
+		? [B, Borrow] extends ["", []] ? Acc : never
+		: DigitArray<Head<A>> extends [...DigitArray<Head<B>>, ...Borrow, ...infer Rest extends 0[]]
+			? SubtractDigits<Tail<A>, Tail<B>, [], `${Acc}${Rest["length"]}`>
+			: [...Ten, ...DigitArray<Head<A>>] extends [...DigitArray<Head<B>>, ...Borrow, ...infer Rest extends 0[]]
+				? SubtractDigits<Tail<A>, Tail<B>, [0], `${Acc}${Rest["length"]}`>
+				: never
+
+type FromDigits<Reversed extends string> =
+	[Reversed] extends [never] ? never : ToNumber<TrimZeros<Reverse<Reversed>>>
 
-	
 /**
- * Generate a rage of positive integers at compile time, from 0 to N. 
+ * Generate a rage of positive integers at compile time, from 0 to N. The
+ * range is a union of N + 1 members, so N is limited to 9999; a non-literal
+ * N gives `number`.
  * 
  * @typeParam {number} N - the max number in the inclusive range.
  */
-export type IntegerRange<N extends CompileTimeInt> = 
-	ArrayKeys<BuildArray<N, any>> extends `${infer R extends number}` ? R | N : never
+export type IntegerRange<N extends number> = 
+	number extends N ? number
+	: ArrayKeys<BuildArray<N, any>> extends `${infer R extends number}` ? R | N : never
 
-
-type CompileTimeInt = IntegerRange<100>
-	
 /**
-* Compile-time numeric addition.
+* Compile-time numeric addition of non-negative integers.
 * @typeParam Augend - The first number.
 * @typeParam Addend - The second number.
 */
-export type Add<Augend extends CompileTimeInt, Addend extends CompileTimeInt> =
-	Length<[...BuildArray<Augend, any>, ...BuildArray<Addend, any>]>
+export type Add<Augend extends number, Addend extends number> =
+	number extends Augend | Addend ? number
+	: FromDigits<AddDigits<Reverse<`${Augend}`>, Reverse<`${Addend}`>>>
 
 /**
-* Compile-time numeric subtraction.
+* Compile-time numeric subtraction of non-negative integers. The result is
+* `never` if it would be negative.
 * @typeParam Minuend - The number to subtract from.
 * @typeParam Subtrahend - The number to subtract.
 */
-export type Subtract<Minuend extends CompileTimeInt, Subtrahend extends CompileTimeInt> =
-	BuildArray<Minuend, any> extends [...(infer U), ...BuildArray<Subtrahend, any>] ? Length<U> : never
-
+export type Subtract<Minuend extends number, Subtrahend extends number> =
+	number extends Minuend | Subtrahend ? number
+	: FromDigits<SubtractDigits<Reverse<`${Minuend}`>, Reverse<`${Subtrahend}`>>>
 
+/**
+* Compile-time minimum of two non-negative integers.
+* @typeParam A - The first number.
+* @typeParam B - The second number.
+*/
+export type Min<A extends number, B extends number> =
+	number extends A | B ? number
+	: [Subtract<A, B>] extends [never] ? A : B
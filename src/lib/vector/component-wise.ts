@@ -0,0 +1,112 @@
+import * as S from "../scalar/math/math.js"
+import { Easing } from "../scalar/math/easing.js"
+import { FArray } from "../types/array.js"
+import { Dim, map } from "./math.js"
+
+// The scalar helpers of `scalar/math`, applied to each component of a vector.
+// Every parameter besides the vector itself may be a single number, used for
+// all components, or a vector supplying one value per component.
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * A per-component argument: either one number for every component or a
+ * vector of one number per component.
+ */
+export type Operand<N extends Dim> = number | NVec<N>
+
+const at = <N extends Dim>(operand: Operand<N>, i: number): number =>
+    typeof operand === "number" ? operand : operand[i]
+
+/**
+ * Restricts each component to a range.
+ *
+ * @param vector the vector to clamp.
+ * @param min the lower bound.
+ * @param max the upper bound.
+ * @returns the clamped vector.
+ */
+export const clamp = <N extends Dim>(vector: NVec<N>, min: Operand<N>, max: Operand<N>): NVec<N> =>
+    map((n, i) => S.clamp(n, at(min, i), at(max, i)), vector)
+
+/**
+ * Finds, for each component, the parameter at which interpolating from `a`
+ * to `b` reaches the vector.
+ *
+ * @param vector the interpolated values.
+ * @param a the values at t = 0.
+ * @param b the values at t = 1.
+ * @returns the interpolation parameter of each component.
+ */
+export const inverseLerp = <N extends Dim>(vector: NVec<N>, a: Operand<N>, b: Operand<N>): NVec<N> =>
+    map((n, i) => S.inverseLerp(at(a, i), at(b, i), n), vector)
+
+/**
+ * Maps each component from one range onto another.
+ *
+ * @param vector the vector to remap.
+ * @param inMin the value mapped to `outMin`.
+ * @param inMax the value mapped to `outMax`.
+ * @param outMin the start of the target range.
+ * @param outMax the end of the target range.
+ * @returns the remapped vector.
+ */
+export const remap = <N extends Dim>(vector: NVec<N>, inMin: Operand<N>, inMax: Operand<N>, outMin: Operand<N>, outMax: Operand<N>): NVec<N> =>
+    map((n, i) => S.remap(n, at(inMin, i), at(inMax, i), at(outMin, i), at(outMax, i)), vector)
+
+/**
+ * Applies Hermite smoothing to each component between two edges.
+ *
+ * @param vector the vector to smooth.
+ * @param edge0 the value at which the result is 0.
+ * @param edge1 the value at which the result is 1.
+ * @returns a vector with components in [0, 1].
+ */
+export const smoothstep = <N extends Dim>(vector: NVec<N>, edge0: Operand<N>, edge1: Operand<N>): NVec<N> =>
+    map((n, i) => S.smoothstep(at(edge0, i), at(edge1, i), n), vector)
+
+/**
+ * Calculates the non-negative remainder of each component.
+ *
+ * @param vector the dividend.
+ * @param m the divisor.
+ * @returns a vector with each component in [0, |m|).
+ */
+export const mod = <N extends Dim>(vector: NVec<N>, m: Operand<N>): NVec<N> =>
+    map((n, i) => S.mod(n, at(m, i)), vector)
+
+export const fract = <N extends Dim>(vector: NVec<N>): NVec<N> =>
+    map(S.fract, vector)
+
+export const degToRad = <N extends Dim>(vector: NVec<N>): NVec<N> =>
+    map(S.degToRad, vector)
+
+export const radToDeg = <N extends Dim>(vector: NVec<N>): NVec<N> =>
+    map(S.radToDeg, vector)
+
+/**
+ * Wraps each component, an angle in radians, into [-π, π).
+ */
+export const wrapAngle = <N extends Dim>(vector: NVec<N>): NVec<N> =>
+    map(S.wrapAngle, vector)
+
+/**
+ * Calculates the shortest signed rotation from each angle to the matching
+ * target angle.
+ *
+ * @param from the starting angles in radians.
+ * @param to the target angles in radians.
+ * @returns a vector of rotations in [-π, π).
+ */
+export const angleDifference = <N extends Dim>(from: NVec<N>, to: Operand<N>): NVec<N> =>
+    map((n, i) => S.angleDifference(n, at(to, i)), from)
+
+/**
+ * Applies an easing function to each component.
+ *
+ * @param vector the progress of each component.
+ * @param easing the easing to apply.
+ * @returns the eased progress.
+ */
+export const ease = <N extends Dim>(vector: NVec<N>, easing: Easing): NVec<N> =>
+    map(t => easing(t), vector)
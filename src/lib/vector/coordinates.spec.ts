@@ -0,0 +1,62 @@
+import test from 'ava';
+
+import {
+  fromCylindrical,
+  fromHomogeneous,
+  fromPolar,
+  fromSpherical,
+  polar,
+  Spherical,
+  toCylindrical,
+  toHomogeneous,
+  toPolar,
+  toSpherical,
+} from './coordinates';
+import { NDimVector } from './n-dim-vector';
+
+test('polar', (t) => {
+  const p = toPolar([0, 2]);
+  t.is(p.radius, 2);
+  t.is(p.azimuth, Math.PI / 2);
+  t.true(fromPolar(polar(2, Math.PI / 3)).approxEquals([1, Math.sqrt(3)]));
+});
+
+test('cylindrical round trip', (t) => {
+  const v = new NDimVector<3>([-1, 2, 5]);
+  const c = toCylindrical(v);
+  t.is(c.height, 5);
+  t.true(fromCylindrical(c).approxEquals(v));
+});
+
+test('spherical round trip', (t) => {
+  const s = toSpherical([0, 0, 3]);
+  t.deepEqual([s.radius, s.inclination], [3, 0]);
+
+  const v = new NDimVector<3>([1, -2, 3]);
+  t.true(fromSpherical(toSpherical(v)).approxEquals(v));
+  t.deepEqual(toSpherical([0, 0, 0]).radius, 0);
+});
+
+test('coordinate systems cannot be mixed up', (t) => {
+  const s: Spherical = toSpherical([1, 2, 3]);
+  // @ts-expect-error spherical coordinates are not cylindrical coordinates
+  const c = () => fromCylindrical(s);
+  // @ts-expect-error spherical coordinates are not a Cartesian vector
+  const v = () => toSpherical(s);
+  t.is(typeof c, 'function');
+  t.is(typeof v, 'function');
+});
+
+test('homogeneous coordinates', (t) => {
+  const point: NDimVector<4> = toHomogeneous(new NDimVector<3>([1, 2, 3]));
+  t.deepEqual(point.components, [1, 2, 3, 1]);
+  t.deepEqual(toHomogeneous<2>([1, 2], 0).components, [1, 2, 0]);
+
+  const back: NDimVector<3> = fromHomogeneous<4>([2, 4, 6, 2]);
+  t.deepEqual(back.components, [1, 2, 3]);
+  t.deepEqual(fromHomogeneous<3>([2, 4, 0]).components, [2, 4]);
+
+  // @ts-expect-error promoting a 3-dimensional vector gives 4 dimensions
+  const wrong: NDimVector<3> = toHomogeneous(new NDimVector<3>([1, 2, 3]));
+  t.truthy(wrong);
+});
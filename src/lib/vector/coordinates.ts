@@ -0,0 +1,143 @@
+import { FArray } from "../types/array";
+import { Dim } from "./math";
+import { NDimVector } from "./n-dim-vector";
+import { Difference, extend, Sum, truncate } from "./reshape";
+
+/**
+ * 2-dimensional polar coordinates. The azimuth is measured in radians
+ * counter-clockwise from the positive x axis.
+ */
+export type Polar = {
+    readonly system: "polar"
+    readonly radius: number
+    readonly azimuth: number
+}
+
+/**
+ * 3-dimensional cylindrical coordinates. The azimuth is measured in radians
+ * counter-clockwise from the positive x axis in the xy plane, and the height
+ * along the z axis.
+ */
+export type Cylindrical = {
+    readonly system: "cylindrical"
+    readonly radius: number
+    readonly azimuth: number
+    readonly height: number
+}
+
+/**
+ * 3-dimensional spherical coordinates. The inclination is measured in
+ * radians from the positive z axis, and the azimuth counter-clockwise from
+ * the positive x axis in the xy plane.
+ */
+export type Spherical = {
+    readonly system: "spherical"
+    readonly radius: number
+    readonly inclination: number
+    readonly azimuth: number
+}
+
+type Vec2 = FArray<2, number> | NDimVector<2>
+type Vec3 = FArray<3, number> | NDimVector<3>
+
+export const polar = (radius: number, azimuth: number): Polar =>
+    ({ system: "polar", radius, azimuth })
+
+export const cylindrical = (radius: number, azimuth: number, height: number): Cylindrical =>
+    ({ system: "cylindrical", radius, azimuth, height })
+
+export const spherical = (radius: number, inclination: number, azimuth: number): Spherical =>
+    ({ system: "spherical", radius, inclination, azimuth })
+
+/**
+ * Converts a 2-dimensional Cartesian vector to polar coordinates.
+ *
+ * @param vector the Cartesian vector.
+ * @returns the polar coordinates, with the azimuth in (-π, π].
+ */
+export const toPolar = (vector: Vec2): Polar => {
+    const [x, y] = NDimVector.getComponents<2>(vector)
+    return polar(Math.sqrt(x * x + y * y), Math.atan2(y, x))
+}
+
+/**
+ * Converts polar coordinates to a 2-dimensional Cartesian vector.
+ *
+ * @param coords the polar coordinates.
+ * @returns the Cartesian vector.
+ */
+export const fromPolar = ({ radius, azimuth }: Polar): NDimVector<2> =>
+    new NDimVector<2>([radius * Math.cos(azimuth), radius * Math.sin(azimuth)])
+
+/**
+ * Converts a 3-dimensional Cartesian vector to cylindrical coordinates.
+ *
+ * @param vector the Cartesian vector.
+ * @returns the cylindrical coordinates, with the azimuth in (-π, π].
+ */
+export const toCylindrical = (vector: Vec3): Cylindrical => {
+    const [x, y, z] = NDimVector.getComponents<3>(vector)
+    return cylindrical(Math.sqrt(x * x + y * y), Math.atan2(y, x), z)
+}
+
+/**
+ * Converts cylindrical coordinates to a 3-dimensional Cartesian vector.
+ *
+ * @param coords the cylindrical coordinates.
+ * @returns the Cartesian vector.
+ */
+export const fromCylindrical = ({ radius, azimuth, height }: Cylindrical): NDimVector<3> =>
+    new NDimVector<3>([radius * Math.cos(azimuth), radius * Math.sin(azimuth), height])
+
+/**
+ * Converts a 3-dimensional Cartesian vector to spherical coordinates. The
+ * zero vector converts to a radius, inclination and azimuth of 0.
+ *
+ * @param vector the Cartesian vector.
+ * @returns the spherical coordinates, with the inclination in [0, π] and the
+ * azimuth in (-π, π].
+ */
+export const toSpherical = (vector: Vec3): Spherical => {
+    const [x, y, z] = NDimVector.getComponents<3>(vector)
+    const radius = Math.sqrt(x * x + y * y + z * z)
+    return spherical(radius, radius === 0 ? 0 : Math.acos(z / radius), Math.atan2(y, x))
+}
+
+/**
+ * Converts spherical coordinates to a 3-dimensional Cartesian vector.
+ *
+ * @param coords the spherical coordinates.
+ * @returns the Cartesian vector.
+ */
+export const fromSpherical = ({ radius, inclination, azimuth }: Spherical): NDimVector<3> =>
+    new NDimVector<3>([
+        radius * Math.sin(inclination) * Math.cos(azimuth),
+        radius * Math.sin(inclination) * Math.sin(azimuth),
+        radius * Math.cos(inclination),
+    ])
+
+/**
+ * Promotes an N-dimensional vector to homogeneous coordinates by appending a
+ * weight component. The dimension of the result is computed at compile time.
+ *
+ * @param vector the vector to promote.
+ * @param w the appended component: 1 for points, 0 for directions.
+ * @returns the vector of N + 1 components.
+ */
+export const toHomogeneous = <N extends Dim>(vector: FArray<N, number> | NDimVector<N>, w: number = 1): NDimVector<Sum<N, 1>> =>
+    new NDimVector(extend(NDimVector.getComponents<N>(vector), w))
+
+/**
+ * Converts a vector in homogeneous coordinates back to N - 1 dimensions by
+ * dividing by its last component and dropping it. When the last component is
+ * 0 the vector is a direction, and the remaining components are returned
+ * unchanged.
+ *
+ * @param vector the homogeneous vector.
+ * @returns the vector of N - 1 components.
+ */
+export const fromHomogeneous = <N extends Dim>(vector: FArray<N, number> | NDimVector<N>): NDimVector<Difference<N, 1>> => {
+    const components = NDimVector.getComponents<N>(vector)
+    const w = components[components.length - 1]
+    return new NDimVector(truncate(components)).mul(w === 0 ? 1 : 1 / w)
+}
@@ -0,0 +1,115 @@
+import test from 'ava';
+
+import { Maybe } from '../fn/maybe1';
+
+import { DimensionMismatchError, DynVector } from './dyn-vector';
+import { NDimVector } from './n-dim-vector';
+
+const unwrap = <T>(maybe: Maybe<T>): T =>
+  maybe.match({
+    just: (value) => value,
+    none: () => {
+      throw new Error('Expected a value');
+    },
+  });
+
+test('arithmetic matches NDimVector', (t) => {
+  const a = new DynVector([1, 2, 3]);
+  const b = new NDimVector<3>([4, 5, 6]);
+  t.deepEqual(a.add(b).components, b.add([1, 2, 3]).components);
+  t.deepEqual(a.sub([1, 1, 1]).components, [0, 1, 2]);
+  t.deepEqual(a.mul(2).components, [2, 4, 6]);
+  t.is(a.dot(b), 32);
+  t.is(new DynVector([3, 4]).magnitude, 5);
+  t.true(new DynVector([3, 4]).unit.approxEquals([0.6, 0.8]));
+  t.is(a.distance(new DynVector([1, 2, 5])), 2);
+  t.deepEqual(a.lerp([3, 4, 5], 0.5).components, [2, 3, 4]);
+  t.deepEqual(a.clamp(1.5, [2, 2, 2]).components, [1.5, 2, 2]);
+});
+
+test('mixing dimensions throws', (t) => {
+  const a = new DynVector([1, 2, 3]);
+  const error = t.throws(() => a.add([1, 2]), { instanceOf: DimensionMismatchError });
+  t.is(error?.expected, 3);
+  t.is(error?.actual, 2);
+  t.true(error instanceof RangeError);
+  t.throws(() => a.dot(new NDimVector<4>([1, 2, 3, 4])), { instanceOf: DimensionMismatchError });
+  t.throws(() => a.clamp([0, 0], 1), { instanceOf: DimensionMismatchError });
+  t.throws(() => a.addInPlace([1]), { instanceOf: DimensionMismatchError });
+  t.deepEqual(a.components, [1, 2, 3]);
+  t.false(a.equals([1, 2]));
+  t.false(a.approxEquals([1, 2, 3, 4]));
+});
+
+test('in-place helpers', (t) => {
+  const v = new DynVector([1, 2]);
+  t.is(v.addInPlace([1, 1]).mulInPlace(2), v);
+  t.deepEqual(v.components, [4, 6]);
+  v.copyFrom(new NDimVector<2>([3, 4])).normalizeInPlace();
+  t.true(v.isNormalized(1e-12));
+  t.throws(() => v.setItem(2, 1), { instanceOf: RangeError });
+});
+
+test('safe unit vectors', (t) => {
+  const zero = DynVector.zeros(3);
+  t.true(zero.isZero());
+  t.true(zero.tryUnit().isNone);
+  t.true(zero.unitResult().isErr);
+  t.deepEqual(zero.unitOrZero.components, [0, 0, 0]);
+});
+
+test('reshaping checks positions at runtime', (t) => {
+  const v = new DynVector([1, 2, 3]);
+  t.deepEqual(v.concat([4]).components, [1, 2, 3, 4]);
+  t.deepEqual(v.slice(1, 3).components, [2, 3]);
+  t.deepEqual(v.take(2).components, [1, 2]);
+  t.deepEqual(v.drop(2).components, [3]);
+  t.deepEqual(v.extend(4).truncate().components, [1, 2, 3]);
+  t.deepEqual(v.insertAt(3, 0).components, [1, 2, 3, 0]);
+  t.deepEqual(v.removeAt(0).components, [2, 3]);
+  t.throws(() => v.slice(2, 1), { instanceOf: RangeError });
+  t.throws(() => v.take(4), { instanceOf: RangeError });
+  t.throws(() => v.removeAt(3), { instanceOf: RangeError });
+  t.throws(() => DynVector.zeros(0).truncate(), { instanceOf: RangeError });
+  t.throws(() => DynVector.zeros(-1), { instanceOf: RangeError });
+});
+
+test('conversion to and from NDimVector', (t) => {
+  const n = new NDimVector<3>([1, 2, 3]);
+  const d = DynVector.from(n);
+  n[0] = 9;
+  t.deepEqual(d.components, [1, 2, 3]);
+
+  const back: NDimVector<3> = d.toNDimVector(3);
+  t.deepEqual(back.components, [1, 2, 3]);
+  t.is(back.z, 3);
+  t.throws(() => d.toNDimVector(2), { instanceOf: DimensionMismatchError });
+  t.true(d.tryToNDimVector(4).isNone);
+  t.true(d.toNDimVectorResult(2).isErr);
+});
+
+test('serialization takes the dimension from the input', (t) => {
+  const v = new DynVector([1, -2.5, 3]);
+  t.is(JSON.stringify(v), '[1,-2.5,3]');
+  t.is(v.toString(), '(1, -2.5, 3)');
+  t.deepEqual(unwrap(DynVector.fromJSON('[1,-2.5,3]')).components, [1, -2.5, 3]);
+  t.deepEqual(unwrap(DynVector.fromJSON({ x: 1, y: 2 })).components, [1, 2]);
+  t.deepEqual(unwrap(DynVector.parse(v.toString())).components, [1, -2.5, 3]);
+  t.true(DynVector.parseResult('(1, x)').isErr);
+  t.deepEqual(unwrap(DynVector.decode(v.encode())).components, [1, -2.5, 3]);
+  t.deepEqual(unwrap(DynVector.decode(new NDimVector<2>([5, 6]).encode())).components, [5, 6]);
+});
+
+test('long vectors round trip', (t) => {
+  const v = new DynVector(Array.from({ length: 300 }, (_, i) => i / 3));
+  const buffer = v.encode();
+  t.is(buffer.byteLength, 5 + 300 * 8);
+  t.true(unwrap(DynVector.decode(buffer)).equals(v));
+  t.true(unwrap(DynVector.fromJSON(JSON.stringify(v))).equals(v));
+  t.true(unwrap(DynVector.parse(v.toString())).equals(v));
+  t.true(DynVector.decode(buffer.slice(0, buffer.byteLength - 8)).isNone);
+
+  const fixed: NDimVector<300> = v.toNDimVector(300);
+  t.is(fixed[299], 299 / 3);
+  t.true(unwrap(NDimVector.decode(300, buffer)).equals(fixed));
+});
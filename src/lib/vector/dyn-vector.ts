@@ -0,0 +1,551 @@
+import { Maybe } from "../fn/maybe1";
+import { Result } from "../fn/result";
+import { Easing } from "../scalar/math/easing";
+import { Tolerance } from "../scalar/math/tolerance";
+import { NMat } from "../matrix/math";
+import { FArray } from "../types/array";
+import {
+    add, angle, approxEquals, Dim, distance, distSquared, div, dot, isFinite, isNormalized, isZero, lerp, magnitude,
+    magSquared, mid, mul, project, reflect, reject, slerp, sub, tryUnit, unit, unitOrZero, unitResult, ZeroVectorError
+} from "./math";
+import {
+    angleDifference, clamp, degToRad, ease, fract, inverseLerp, mod, Operand, radToDeg, remap, smoothstep, wrapAngle
+} from "./component-wise";
+import { addInto, addScaledInto, copyInto, divideInto, lerpInto, normalizeInto, scaleInto, subInto } from "./in-place";
+import {
+    chebyshevDistance, cosineDistance, cosineSimilarity, hammingDistance, l1Norm, lInfNorm, lpNorm, mahalanobis,
+    manhattanDistance, Metric, minkowskiDistance
+} from "./metric";
+import { NDimVector } from "./n-dim-vector";
+import { decodeAny, encode, format, fromJSONAny, ParseError, parseAnyResult, toJSON } from "./serialize";
+
+type Vec = FArray<Dim, number>
+
+// The free functions are typed for fixed dimensions; a runtime-sized array
+// is any one of them once its length has been checked.
+const vec = (components: readonly number[]): Vec => components as Vec
+
+/**
+ * The error reported when vectors of different dimensions are combined, or a
+ * vector does not have the dimension it is converted to.
+ */
+export class DimensionMismatchError extends RangeError {
+    constructor(public readonly expected: number, public readonly actual: number) {
+        super(`Expected a vector of dimension ${expected} but found ${actual}`)
+        this.name = "DimensionMismatchError"
+    }
+}
+
+/**
+ * A vector given as a plain array, a DynVector or a numeric NDimVector of any
+ * dimension.
+ */
+export type DynVectorLike = readonly number[] | { readonly components: readonly number[] }
+
+/**
+ * A per-component argument: one number for every component, or a vector of
+ * one number per component.
+ */
+type DynOperand = number | DynVectorLike
+
+/**
+ * A vector whose dimension is only known at runtime, such as a feature vector
+ * read from data. It has the same API as a numeric `NDimVector`, but operands
+ * are checked when combined: mixing dimensions throws a
+ * `DimensionMismatchError` instead of failing to type-check.
+ *
+ * Convert to an `NDimVector` with `toNDimVector` once the dimension is known,
+ * and back with `DynVector.from`.
+ */
+export class DynVector {
+    public components: number[]
+
+    constructor(components: number[]) {
+        this.components = components
+    }
+
+    public getItem(index: number): number {
+        return this.components[index]
+    }
+
+    public setItem(index: number, value: number): number {
+        if (!(index >= 0 && index < this.length)) {
+            throw new RangeError(`Component ${index} is out of range for a vector of length ${this.length}`)
+        }
+        this.components[index] = value
+        return this.components[index]
+    }
+
+    public get length(): number {
+        return this.components.length
+    }
+
+    public clone(): DynVector {
+        return new DynVector(Array.from(this.components))
+    }
+
+    /**
+     * Creates a vector from the components of another. The components are
+     * copied, so later changes to `source` do not affect the vector.
+     *
+     * @param source A plain array, DynVector or NDimVector.
+     * @returns A new DynVector with the same components.
+     */
+    public static from(source: DynVectorLike): DynVector {
+        return new DynVector(Array.from(DynVector.getComponents(source)))
+    }
+
+    public static zeros(length: number): DynVector {
+        if (!(Number.isInteger(length) && length >= 0)) {
+            throw new RangeError(`A vector length must be a non-negative integer, got ${length}`)
+        }
+        return new DynVector(Array.from({ length }, () => 0))
+    }
+
+    /**
+     * Reads a vector from its JSON tuple form `[1, 2, 3]` or labeled form
+     * `{ x, y, z }`, taking the dimension from the input.
+     *
+     * @param json The parsed JSON value, or a JSON string.
+     * @returns The vector, or none if the input is malformed.
+     */
+    public static fromJSON(json: unknown): Maybe<DynVector> {
+        return fromJSONAny(json).map(components => new DynVector(components))
+    }
+
+    /**
+     * Parses a vector from text such as `(1, 2, 3)`, taking the dimension from the input.
+     *
+     * @param text The text to parse.
+     * @returns The vector, or none if the text is malformed.
+     */
+    public static parse(text: string): Maybe<DynVector> {
+        return DynVector.parseResult(text).toMaybe()
+    }
+
+    /**
+     * Parses a vector from text such as `(1, 2, 3)`, reporting why when it cannot.
+     *
+     * @param text The text to parse.
+     * @returns The vector, or a ParseError describing what is wrong with the text.
+     */
+    public static parseResult(text: string): Result<DynVector, ParseError> {
+        return parseAnyResult(text).map(components => new DynVector(components))
+    }
+
+    /**
+     * Decodes a vector from the binary form produced by `encode`, of either
+     * a DynVector or an NDimVector.
+     *
+     * @param buffer The buffer to decode.
+     * @returns The vector, or none if the buffer is malformed.
+     */
+    public static decode(buffer: ArrayBuffer): Maybe<DynVector> {
+        return decodeAny(buffer).map(components => new DynVector(components))
+    }
+
+    /**
+     * Returns unwrapped vector components. Plain arrays are returned as they
+     * are; the components of a DynVector or NDimVector are returned otherwise.
+     *
+     * @param vector the vector from which we will retrieve components.
+     * @returns the components of the vector.
+     */
+    public static getComponents(vector: DynVectorLike): readonly number[] {
+        return "components" in vector ? vector.components : vector
+    }
+
+    // Unwraps an operand, checking that it has as many components as this vector.
+    private matching(other: DynVectorLike): Vec {
+        const components = DynVector.getComponents(other)
+        if (components.length !== this.length) {
+            throw new DimensionMismatchError(this.length, components.length)
+        }
+        return vec(components)
+    }
+
+    private operand(value: DynOperand): Operand<Dim> {
+        return typeof value === "number" ? value : this.matching(value)
+    }
+
+    /**
+     * Converts this vector to an NDimVector, checking its dimension.
+     *
+     * @param dim The dimension the vector is expected to have.
+     * @returns A new NDimVector with a copy of the components.
+     * @throws DimensionMismatchError if this vector has a different dimension.
+     */
+    public toNDimVector<N extends Dim>(dim: N): NDimVector<N> {
+        return this.toNDimVectorResult(dim).getOrThrow()
+    }
+
+    /**
+     * Converts this vector to an NDimVector, if it has the expected dimension.
+     *
+     * @param dim The dimension the vector is expected to have.
+     * @returns A new NDimVector, or none if this vector has a different dimension.
+     */
+    public tryToNDimVector<N extends Dim>(dim: N): Maybe<NDimVector<N>> {
+        return this.toNDimVectorResult(dim).toMaybe()
+    }
+
+    /**
+     * Converts this vector to an NDimVector, reporting a dimension mismatch.
+     *
+     * @param dim The dimension the vector is expected to have.
+     * @returns A new NDimVector, or a DimensionMismatchError.
+     */
+    public toNDimVectorResult<N extends Dim>(dim: N): Result<NDimVector<N>, DimensionMismatchError> {
+        return this.length === dim
+            ? Result.ok(new NDimVector<N>(Array.from(this.components) as FArray<N, number>))
+            : Result.err(new DimensionMismatchError(dim, this.length))
+    }
+
+    /**
+     * Provides the JSON tuple form of this vector, used by `JSON.stringify`.
+     *
+     * @returns A plain array of this vector's components.
+     */
+    public toJSON(): number[] {
+        return toJSON(vec(this.components))
+    }
+
+    /**
+     * Formats this vector as human readable text, e.g. `(1, 2, 3)`.
+     */
+    public toString(): string {
+        return format(vec(this.components))
+    }
+
+    /**
+     * Encodes this vector into a compact binary form, the same as an
+     * NDimVector of the same dimension.
+     *
+     * @returns A buffer holding the dimension followed by the components.
+     */
+    public encode(): ArrayBuffer {
+        return encode(vec(this.components))
+    }
+
+    public map(fn: (n: number, i: number) => number): DynVector {
+        return new DynVector(this.components.map(fn))
+    }
+
+    // ********************** Math Helpers *****************************
+    // Vector operands must have the same dimension as this vector.
+
+    public add(other: DynVectorLike): DynVector {
+        return new DynVector(add(vec(this.components), this.matching(other)))
+    }
+
+    public sub(other: DynVectorLike): DynVector {
+        return new DynVector(sub(vec(this.components), this.matching(other)))
+    }
+
+    public mul(scalar: number): DynVector {
+        return new DynVector(mul(vec(this.components), scalar))
+    }
+
+    public div(scalar: number): DynVector {
+        return new DynVector(div(vec(this.components), scalar))
+    }
+
+    public dot(other: DynVectorLike): number {
+        return dot(vec(this.components), this.matching(other))
+    }
+
+    public get magnitude(): number {
+        return magnitude(vec(this.components))
+    }
+
+    public get magnitudeSquared(): number {
+        return magSquared(vec(this.components))
+    }
+
+    public get unit(): DynVector {
+        return new DynVector(unit(vec(this.components)))
+    }
+
+    public get unitOrZero(): DynVector {
+        return new DynVector(unitOrZero(vec(this.components)))
+    }
+
+    /**
+     * Converts this vector to a unit vector, if it has one.
+     *
+     * @param epsilon Magnitudes at or below this are treated as zero.
+     * @returns The unit vector, or none if this vector is zero or not finite.
+     */
+    public tryUnit(epsilon: number = 0): Maybe<DynVector> {
+        return tryUnit(vec(this.components), epsilon).map(u => new DynVector(u))
+    }
+
+    /**
+     * Converts this vector to a unit vector, reporting why when it has none.
+     *
+     * @param epsilon Magnitudes at or below this are treated as zero.
+     * @returns The unit vector, or a ZeroVectorError if this vector is zero or not finite.
+     */
+    public unitResult(epsilon: number = 0): Result<DynVector, ZeroVectorError> {
+        return unitResult(vec(this.components), epsilon).map(u => new DynVector(u))
+    }
+
+    public angle(other: DynVectorLike): number {
+        return angle(vec(this.components), this.matching(other))
+    }
+
+    public midpoint(other: DynVectorLike): DynVector {
+        return new DynVector(mid(vec(this.components), this.matching(other)))
+    }
+
+    public distance(other: DynVectorLike): number {
+        return distance(vec(this.components), this.matching(other))
+    }
+
+    public distanceSquared(other: DynVectorLike): number {
+        return distSquared(vec(this.components), this.matching(other))
+    }
+
+    public project(onto: DynVectorLike): DynVector {
+        return new DynVector(project(vec(this.components), this.matching(onto)))
+    }
+
+    public reject(from: DynVectorLike): DynVector {
+        return new DynVector(reject(vec(this.components), this.matching(from)))
+    }
+
+    public reflect(normal: DynVectorLike): DynVector {
+        return new DynVector(reflect(vec(this.components), this.matching(normal)))
+    }
+
+    public lerp(other: DynVectorLike, t: number): DynVector {
+        return new DynVector(lerp(vec(this.components), this.matching(other), t))
+    }
+
+    public slerp(other: DynVectorLike, t: number): DynVector {
+        return new DynVector(slerp(vec(this.components), this.matching(other), t))
+    }
+
+    // ******************** Norms and Metrics ****************************
+
+    public l1Norm(): number {
+        return l1Norm(vec(this.components))
+    }
+
+    public lInfNorm(): number {
+        return lInfNorm(vec(this.components))
+    }
+
+    public lpNorm(p: number): number {
+        return lpNorm(vec(this.components), p)
+    }
+
+    public manhattanDistance(other: DynVectorLike): number {
+        return manhattanDistance(vec(this.components), this.matching(other))
+    }
+
+    public chebyshevDistance(other: DynVectorLike): number {
+        return chebyshevDistance(vec(this.components), this.matching(other))
+    }
+
+    public minkowskiDistance(other: DynVectorLike, p: number): number {
+        return minkowskiDistance(vec(this.components), this.matching(other), p)
+    }
+
+    public cosineSimilarity(other: DynVectorLike): number {
+        return cosineSimilarity(vec(this.components), this.matching(other))
+    }
+
+    public cosineDistance(other: DynVectorLike): number {
+        return cosineDistance(vec(this.components), this.matching(other))
+    }
+
+    public hammingDistance(other: DynVectorLike, epsilon: number = 0): number {
+        return hammingDistance(vec(this.components), this.matching(other), epsilon)
+    }
+
+    /**
+     * Calculates the Mahalanobis distance to another point.
+     *
+     * @param other The point to measure the distance to.
+     * @param covariance The covariance matrix, as rows or an NDimMatrix; it
+     * must match the dimension of this vector.
+     * @returns The distance as a number.
+     * @throws NotPositiveDefiniteError if the covariance is not positive definite.
+     */
+    public mahalanobisDistance(other: DynVectorLike, covariance: NMat<Dim, Dim> | { readonly components: NMat<Dim, Dim> }): number {
+        const rows = "components" in covariance ? covariance.components : covariance
+        if (rows.length !== this.length) {
+            throw new DimensionMismatchError(this.length, rows.length)
+        }
+        return mahalanobis(vec(this.components), this.matching(other), rows)
+    }
+
+    public distanceWith(other: DynVectorLike, metric: Metric<Dim>): number {
+        return metric.distance(vec(this.components), this.matching(other))
+    }
+
+    // ******************** Comparison Helpers *************************
+    // Vectors of different dimensions are never equal.
+
+    public equals(other: DynVectorLike): boolean {
+        const components = DynVector.getComponents(other)
+        return components.length === this.length && this.components.every((n, i) => n === components[i])
+    }
+
+    public approxEquals(other: DynVectorLike, tolerance?: Tolerance): boolean {
+        const components = DynVector.getComponents(other)
+        return components.length === this.length && approxEquals(vec(this.components), vec(components), tolerance)
+    }
+
+    public isZero(epsilon: number = 0): boolean {
+        return isZero(vec(this.components), epsilon)
+    }
+
+    public isFinite(): boolean {
+        return isFinite(vec(this.components))
+    }
+
+    public isNormalized(epsilon?: number): boolean {
+        return isNormalized(vec(this.components), epsilon)
+    }
+
+    // ******************* Component-wise Helpers ***********************
+
+    public clamp(min: DynOperand, max: DynOperand): DynVector {
+        return new DynVector(clamp(vec(this.components), this.operand(min), this.operand(max)))
+    }
+
+    public inverseLerp(a: DynOperand, b: DynOperand): DynVector {
+        return new DynVector(inverseLerp(vec(this.components), this.operand(a), this.operand(b)))
+    }
+
+    public remap(inMin: DynOperand, inMax: DynOperand, outMin: DynOperand, outMax: DynOperand): DynVector {
+        return new DynVector(remap(vec(this.components), this.operand(inMin), this.operand(inMax), this.operand(outMin), this.operand(outMax)))
+    }
+
+    public smoothstep(edge0: DynOperand, edge1: DynOperand): DynVector {
+        return new DynVector(smoothstep(vec(this.components), this.operand(edge0), this.operand(edge1)))
+    }
+
+    public mod(m: DynOperand): DynVector {
+        return new DynVector(mod(vec(this.components), this.operand(m)))
+    }
+
+    public fract(): DynVector {
+        return new DynVector(fract(vec(this.components)))
+    }
+
+    public degToRad(): DynVector {
+        return new DynVector(degToRad(vec(this.components)))
+    }
+
+    public radToDeg(): DynVector {
+        return new DynVector(radToDeg(vec(this.components)))
+    }
+
+    public wrapAngle(): DynVector {
+        return new DynVector(wrapAngle(vec(this.components)))
+    }
+
+    public angleDifference(to: DynOperand): DynVector {
+        return new DynVector(angleDifference(vec(this.components), this.operand(to)))
+    }
+
+    public ease(easing: Easing): DynVector {
+        return new DynVector(ease(vec(this.components), easing))
+    }
+
+    // ********************** In-Place Helpers *************************
+
+    public copyFrom(other: DynVectorLike): this {
+        copyInto(this.components, this.matching(other))
+        return this
+    }
+
+    public addInPlace(other: DynVectorLike): this {
+        addInto(this.components, this.components, this.matching(other))
+        return this
+    }
+
+    public subInPlace(other: DynVectorLike): this {
+        subInto(this.components, this.components, this.matching(other))
+        return this
+    }
+
+    public mulInPlace(scalar: number): this {
+        scaleInto(this.components, this.components, scalar)
+        return this
+    }
+
+    public divInPlace(scalar: number): this {
+        divideInto(this.components, this.components, scalar)
+        return this
+    }
+
+    public addScaledInPlace(other: DynVectorLike, scalar: number): this {
+        addScaledInto(this.components, this.components, this.matching(other), scalar)
+        return this
+    }
+
+    public normalizeInPlace(): this {
+        normalizeInto(this.components, this.components)
+        return this
+    }
+
+    public lerpInPlace(other: DynVectorLike, t: number): this {
+        lerpInto(this.components, this.components, this.matching(other), t)
+        return this
+    }
+
+    // ****************** Dimension Changing Helpers *******************
+    // Positions and indices are checked at runtime.
+
+    private checkPosition(position: number, limit: number = this.length): void {
+        if (!(Number.isInteger(position) && position >= 0 && position <= limit)) {
+            throw new RangeError(`Position ${position} is out of range for a vector of length ${this.length}`)
+        }
+    }
+
+    public concat(other: DynVectorLike): DynVector {
+        return new DynVector([...this.components, ...DynVector.getComponents(other)])
+    }
+
+    public slice(start: number, end: number): DynVector {
+        this.checkPosition(start)
+        this.checkPosition(end)
+        if (end < start) {
+            throw new RangeError(`Slice end ${end} is before its start ${start}`)
+        }
+        return new DynVector(this.components.slice(start, end))
+    }
+
+    public take(count: number): DynVector {
+        return this.slice(0, count)
+    }
+
+    public drop(count: number): DynVector {
+        return this.slice(count, this.length)
+    }
+
+    public extend(value: number): DynVector {
+        return new DynVector([...this.components, value])
+    }
+
+    public truncate(): DynVector {
+        if (this.length === 0) {
+            throw new RangeError("Cannot truncate a vector with no components")
+        }
+        return new DynVector(this.components.slice(0, -1))
+    }
+
+    public insertAt(index: number, value: number): DynVector {
+        this.checkPosition(index)
+        return new DynVector([...this.components.slice(0, index), value, ...this.components.slice(index)])
+    }
+
+    public removeAt(index: number): DynVector {
+        this.checkPosition(index, this.length - 1)
+        return new DynVector([...this.components.slice(0, index), ...this.components.slice(index + 1)])
+    }
+}
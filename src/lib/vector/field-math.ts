@@ -0,0 +1,153 @@
+import { Field, Ring } from "../scalar/field/field.js"
+import { FArray } from "../types/array.js"
+import { Dim } from "./math.js"
+
+// Vector operations over any ring or field of scalars. These mirror the
+// functions in `math.ts`, taking the scalar arithmetic as their first
+// argument; with `NumberField` they produce exactly the same results.
+
+type Vec<N extends Dim, T> = FArray<N, T>
+
+/**
+ * Map components with a function
+ */
+export const map = <N extends Dim, T>(fn: (n: T, i: number) => T, vector: Vec<N, T>): Vec<N, T> =>
+    vector.map(fn) as Vec<N, T>
+
+/**
+ * Creates the zero vector of N dimensions.
+ *
+ * @param field the scalar arithmetic.
+ * @param dim the dimension of the vector.
+ * @returns a vector whose components are all `field.zero`.
+ */
+export const zeros = <N extends Dim, T>(field: Ring<T>, dim: N): Vec<N, T> =>
+    Array.from({ length: dim }, () => field.zero) as Vec<N, T>
+
+/**
+ * Calculates the sum of two vectors of N dimensions.
+ *
+ * @param field the scalar arithmetic.
+ * @param augend the first vector, the augend.
+ * @param addend the second vector, the addend.
+ * @returns sum of the provided vectors.
+ */
+export const add = <N extends Dim, T>(field: Ring<T>, augend: Vec<N, T>, addend: Vec<N, T>): Vec<N, T> =>
+    map((a, i) => field.add(a, addend[i]), augend)
+
+/**
+ * Calculates the difference between two vectors of N dimensions.
+ *
+ * @param field the scalar arithmetic.
+ * @param minuend the vector to subtract from.
+ * @param subtrahend the vector to subtract from the minuend.
+ * @returns the vector difference between the minuend and subtrahend.
+ */
+export const sub = <N extends Dim, T>(field: Ring<T>, minuend: Vec<N, T>, subtrahend: Vec<N, T>): Vec<N, T> =>
+    map((a, i) => field.sub(a, subtrahend[i]), minuend)
+
+/**
+ * Negates each component of a vector.
+ *
+ * @param field the scalar arithmetic.
+ * @param vector the vector to negate.
+ * @returns the additive inverse of the vector.
+ */
+export const neg = <N extends Dim, T>(field: Ring<T>, vector: Vec<N, T>): Vec<N, T> =>
+    map(n => field.neg(n), vector)
+
+/**
+ * Calculates the product of an N-dimensional vector and a scalar.
+ *
+ * @param field the scalar arithmetic.
+ * @param vector the vector-valued multiplicand.
+ * @param scalar the scalar-valued multiplier.
+ * @returns the product of the vector multiplicand and the scalar multiplier.
+ */
+export const mul = <N extends Dim, T>(field: Ring<T>, vector: Vec<N, T>, scalar: T): Vec<N, T> =>
+    map(n => field.mul(n, scalar), vector)
+
+/**
+ * Calculates the quotient of an N-dimensional vector and a scalar.
+ *
+ * @param field the scalar arithmetic, which must support division.
+ * @param vector the vector-valued dividend.
+ * @param scalar the scalar-valued divisor.
+ * @returns the quotient of a vector dividend and a scalar divisor.
+ */
+export const div = <N extends Dim, T>(field: Field<T>, vector: Vec<N, T>, scalar: T): Vec<N, T> =>
+    map(n => field.div(n, scalar), vector)
+
+/**
+ * Calculates the inner product of two N-dimensional vectors, `Σ lᵢ·conj(rᵢ)`.
+ * The right hand components are conjugated, so for complex vectors the
+ * product is linear in `ls` and the dot product of a vector with itself is
+ * its real, non-negative squared magnitude. For real scalars conjugation does
+ * nothing and this is the ordinary dot product.
+ *
+ * @param field the scalar arithmetic.
+ * @param ls the left hand vector.
+ * @param rs the right hand vector, whose components are conjugated.
+ * @returns the inner product of the vectors.
+ */
+export const dot = <N extends Dim, T>(field: Ring<T>, ls: Vec<N, T>, rs: Vec<N, T>): T =>
+    ls.reduce((acc, l, i) => field.add(acc, field.mul(l, field.conj(rs[i]))), field.zero)
+
+/**
+ * Calculates the squared magnitude of a vector, the sum of the squared
+ * absolute values of its components.
+ *
+ * @param field the scalar arithmetic.
+ * @param vector the vector.
+ * @returns the squared magnitude as a number.
+ */
+export const magSquared = <N extends Dim, T>(field: Ring<T>, vector: Vec<N, T>): number =>
+    vector.reduce((acc, n) => acc + field.absSquared(n), 0)
+
+/**
+ * Calculates the magnitude (length) of a vector.
+ *
+ * @param field the scalar arithmetic.
+ * @param vector the vector.
+ * @returns the magnitude as a number.
+ */
+export const magnitude = <N extends Dim, T>(field: Ring<T>, vector: Vec<N, T>): number =>
+    Math.sqrt(magSquared(field, vector))
+
+/**
+ * Calculates the unit vector in the direction of a vector. The magnitude is
+ * converted to a scalar with `field.fromNumber`, so for exact scalars the
+ * result is only as exact as the magnitude.
+ *
+ * @param field the scalar arithmetic, which must support division.
+ * @param vector the vector to normalize.
+ * @returns the vector scaled to a magnitude of 1.
+ */
+export const unit = <N extends Dim, T>(field: Field<T>, vector: Vec<N, T>): Vec<N, T> =>
+    div(field, vector, field.fromNumber(magnitude(field, vector)))
+
+/**
+ * Calculates the unit vector in the direction of a vector, or the zero vector
+ * if the vector has no finite, non-zero magnitude.
+ *
+ * @param field the scalar arithmetic, which must support division.
+ * @param vector the vector to normalize.
+ * @returns the unit vector or the zero vector.
+ */
+export const unitOrZero = <N extends Dim, T>(field: Field<T>, vector: Vec<N, T>): Vec<N, T> => {
+    const m = magnitude(field, vector)
+    return m > 0 && Number.isFinite(m)
+        ? div(field, vector, field.fromNumber(m))
+        : map(() => field.zero, vector)
+}
+
+/**
+ * Compares two vectors for exact, component-wise equality.
+ *
+ * @param field the scalar arithmetic.
+ * @param ls the first vector.
+ * @param rs the second vector.
+ * @returns true if the vectors have the same length and equal components.
+ */
+export const equals = <N extends Dim, T>(field: Ring<T>, ls: Vec<N, T>, rs: Vec<N, T>): boolean =>
+    ls.length === rs.length && ls.every((l, i) => field.equals(l, rs[i]))
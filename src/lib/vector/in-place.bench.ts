@@ -0,0 +1,54 @@
+import test from 'ava';
+
+import { addInto, dotOf, lerpInto, normalizeInto, scaleInto } from './in-place';
+import { add, dot, lerp, mul, unit } from './math';
+
+// Timings of the in-place helpers against the functional ones they replace in
+// hot loops. Kept out of the unit suite, as timings depend on the machine;
+// run with `npm run bench`.
+
+const ITERATIONS = 200000;
+
+type Vec8 = [number, number, number, number, number, number, number, number];
+
+const a: Vec8 = [1, 2, 3, 4, 5, 6, 7, 8];
+const b: Vec8 = [8, 7, 6, 5, 4, 3, 2, 1];
+const fa = Float64Array.from(a);
+const fb = Float64Array.from(b);
+const out = new Float64Array(8);
+
+const time = (fn: () => number): number => {
+  let sink = 0;
+  const start = Date.now();
+  for (let i = 0; i < ITERATIONS; i++) sink += fn();
+  const elapsed = Date.now() - start;
+  if (!Number.isFinite(sink)) throw new RangeError('The benchmark produced a non-finite result');
+  return elapsed;
+};
+
+const compare = (name: string, functional: () => number, inPlace: () => number) =>
+  test(name, (t) => {
+    const functionalTime = time(functional);
+    const inPlaceTime = time(inPlace);
+    const speedup = (functionalTime / Math.max(inPlaceTime, 1)).toFixed(1);
+    t.log(`functional: ${functionalTime}ms, in-place: ${inPlaceTime}ms, speedup: ${speedup}x`);
+    t.pass();
+  });
+
+compare(
+  'add, scale and dot',
+  () => dot(mul(add(a, b), 0.5), b),
+  () => dotOf(scaleInto(out, addInto(out, fa, fb), 0.5), fb)
+);
+
+compare(
+  'normalize',
+  () => unit(a)[0],
+  () => normalizeInto(out, fa)[0]
+);
+
+compare(
+  'lerp',
+  () => lerp(a, b, 0.25)[0],
+  () => lerpInto(out, fa, fb, 0.25)[0]
+);
@@ -0,0 +1,52 @@
+import test from 'ava';
+
+import {
+  addInto,
+  crossInto,
+  dotOf,
+  lerpInto,
+  normalizeInto,
+  scaleInto,
+  subInto,
+} from './in-place';
+import { NDimVector } from './n-dim-vector';
+
+test('typed array storage', (t) => {
+  const a = new Float64Array([1, 2, 3]);
+  const b = new Float32Array([4, 5, 6]);
+  const out = new Float64Array(3);
+
+  t.is(addInto(out, a, b), out);
+  t.deepEqual(Array.from(out), [5, 7, 9]);
+  t.deepEqual(Array.from(subInto(out, b, a)), [3, 3, 3]);
+  t.deepEqual(Array.from(scaleInto(out, a, 2)), [2, 4, 6]);
+  t.deepEqual(Array.from(lerpInto(out, a, b, 0.5)), [2.5, 3.5, 4.5]);
+  t.deepEqual(
+    Array.from(crossInto(out, [1, 0, 0], [0, 1, 0])),
+    [0, 0, 1]
+  );
+  t.is(dotOf(a, b), 32);
+});
+
+test('out may alias an operand', (t) => {
+  const v = new Float64Array([3, 0, 4]);
+  normalizeInto(v, v);
+  t.deepEqual(Array.from(v), [0.6, 0, 0.8]);
+
+  const l = new Float64Array([1, 2, 3]);
+  crossInto(l, l, [4, 5, 6]);
+  t.deepEqual(Array.from(l), [-3, 6, -3]);
+});
+
+test('NDimVector mutates its own components', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  const components = v.components;
+  const result = v.addInPlace([1, 1, 1]).mulInPlace(2).subInPlace([0, 2, 0]);
+
+  t.is(result, v);
+  t.is(v.components, components);
+  t.deepEqual(v.components, [4, 4, 8]);
+  t.deepEqual(v.addScaledInPlace([1, 0, 0], 4).divInPlace(8).components, [
+    1, 0.5, 1,
+  ]);
+});
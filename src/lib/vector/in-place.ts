@@ -0,0 +1,180 @@
+/**
+ * Writable numeric storage for vector components. Plain arrays and typed
+ * arrays such as `Float32Array` and `Float64Array` all satisfy this type.
+ */
+export type VecStorage = { [index: number]: number; readonly length: number }
+
+/**
+ * Read-only numeric storage for vector operands.
+ */
+export type VecSource = ArrayLike<number>
+
+/*
+ * The functions in this module mirror those in `./math`, but write their
+ * result into a caller-supplied `out` vector instead of allocating a new one.
+ * `out` may alias any of the operands. Each function returns `out` so calls
+ * can be chained.
+ */
+
+/**
+ * Copies the components of a vector into `out`.
+ *
+ * @param out the vector to write to.
+ * @param vector the vector to copy.
+ * @returns `out`.
+ */
+export const copyInto = <T extends VecStorage>(out: T, vector: VecSource): T => {
+    for (let i = 0; i < out.length; i++) out[i] = vector[i]
+    return out
+}
+
+/**
+ * Sets every component of `out` to the same value.
+ *
+ * @param out the vector to write to.
+ * @param value the value of every component.
+ * @returns `out`.
+ */
+export const fillInto = <T extends VecStorage>(out: T, value: number): T => {
+    for (let i = 0; i < out.length; i++) out[i] = value
+    return out
+}
+
+/**
+ * In-place vector addition, `out = augend + addend`.
+ *
+ * @param out the vector to write to.
+ * @param augend the first vector, the augend.
+ * @param addend the second vector, the addend.
+ * @returns `out`.
+ */
+export const addInto = <T extends VecStorage>(out: T, augend: VecSource, addend: VecSource): T => {
+    for (let i = 0; i < out.length; i++) out[i] = augend[i] + addend[i]
+    return out
+}
+
+/**
+ * In-place vector subtraction, `out = minuend - subtrahend`.
+ *
+ * @param out the vector to write to.
+ * @param minuend the vector to subtract from.
+ * @param subtrahend the vector to subtract from the minuend.
+ * @returns `out`.
+ */
+export const subInto = <T extends VecStorage>(out: T, minuend: VecSource, subtrahend: VecSource): T => {
+    for (let i = 0; i < out.length; i++) out[i] = minuend[i] - subtrahend[i]
+    return out
+}
+
+/**
+ * In-place scalar multiplication, `out = vector * scalar`.
+ *
+ * @param out the vector to write to.
+ * @param vector the vector-valued multiplicand.
+ * @param scalar the scalar-valued multiplier.
+ * @returns `out`.
+ */
+export const scaleInto = <T extends VecStorage>(out: T, vector: VecSource, scalar: number): T => {
+    for (let i = 0; i < out.length; i++) out[i] = vector[i] * scalar
+    return out
+}
+
+/**
+ * In-place scalar division, `out = vector / scalar`.
+ *
+ * @param out the vector to write to.
+ * @param vector the vector-valued dividend.
+ * @param scalar the scalar-valued divisor.
+ * @returns `out`.
+ */
+export const divideInto = <T extends VecStorage>(out: T, vector: VecSource, scalar: number): T => {
+    for (let i = 0; i < out.length; i++) out[i] = vector[i] / scalar
+    return out
+}
+
+/**
+ * In-place scaled addition, `out = augend + addend * scalar`. This is the
+ * usual building block of explicit integration steps.
+ *
+ * @param out the vector to write to.
+ * @param augend the vector to add to.
+ * @param addend the vector to scale and add.
+ * @param scalar the scale applied to the addend.
+ * @returns `out`.
+ */
+export const addScaledInto = <T extends VecStorage>(out: T, augend: VecSource, addend: VecSource, scalar: number): T => {
+    for (let i = 0; i < out.length; i++) out[i] = augend[i] + addend[i] * scalar
+    return out
+}
+
+/**
+ * In-place negation, `out = -vector`.
+ *
+ * @param out the vector to write to.
+ * @param vector the vector to negate.
+ * @returns `out`.
+ */
+export const negateInto = <T extends VecStorage>(out: T, vector: VecSource): T =>
+    scaleInto(out, vector, -1)
+
+/**
+ * In-place linear interpolation, `out = from + (to - from) * t`.
+ *
+ * @param out the vector to write to.
+ * @param from the vector at t = 0.
+ * @param to the vector at t = 1.
+ * @param t the interpolation parameter.
+ * @returns `out`.
+ */
+export const lerpInto = <T extends VecStorage>(out: T, from: VecSource, to: VecSource, t: number): T => {
+    for (let i = 0; i < out.length; i++) out[i] = from[i] + (to[i] - from[i]) * t
+    return out
+}
+
+/**
+ * In-place normalization, `out = vector / |vector|`.
+ *
+ * @param out the vector to write to.
+ * @param vector the vector to normalize.
+ * @returns `out`.
+ */
+export const normalizeInto = <T extends VecStorage>(out: T, vector: VecSource): T =>
+    divideInto(out, vector, Math.sqrt(dotOf(vector, vector)))
+
+/**
+ * In-place 3-dimensional cross product, `out = l x r`.
+ *
+ * @param out the vector to write to.
+ * @param l the left hand vector.
+ * @param r the right hand vector.
+ * @returns `out`.
+ */
+export const crossInto = <T extends VecStorage>(out: T, l: VecSource, r: VecSource): T => {
+    const x = l[1] * r[2] - l[2] * r[1]
+    const y = l[2] * r[0] - l[0] * r[2]
+    const z = l[0] * r[1] - l[1] * r[0]
+    out[0] = x
+    out[1] = y
+    out[2] = z
+    return out
+}
+
+/**
+ * Calculates the dot product of two vectors without allocating.
+ *
+ * @returns the dot product of vectors l and r.
+ */
+export const dotOf = (l: VecSource, r: VecSource): number => {
+    let acc = 0
+    for (let i = 0; i < l.length; i++) acc += l[i] * r[i]
+    return acc
+}
+
+/**
+ * Calculates the magnitude of a vector without allocating.
+ *
+ * @param vector the vector whose magnitude will be found.
+ * @returns the magnitude of the vector.
+ */
+export const magnitudeOf = (vector: VecSource): number =>
+    Math.sqrt(dotOf(vector, vector))
@@ -0,0 +1,19 @@
+import { Take } from "../types/array";
+import { Dim } from "./math";
+
+export const VectorComponentLabels = ["x", "y", "z", "w"] as const
+
+export type VectorComponentLabel = typeof VectorComponentLabels[number]
+
+export type NDimVectorComponentLabels<N extends Dim> =
+    Take<typeof VectorComponentLabels, N>
+
+/**
+ * Maps the labels for an N-dimensional vector's components to their values, creating a readonly structure.
+ * 
+ * @typeParam N - The dimension of the vector, which dictates the component labels used.
+ * @typeParam T - The scalar type of the components, defaults to number.
+ * @returns A readonly record mapping each component label to a scalar.
+ */
+export type NDimVectorComponents<N extends Dim, T = number> = 
+    Record<NDimVectorComponentLabels<N>[number], T>;
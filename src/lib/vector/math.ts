@@ -1,14 +1,32 @@
 import { zipWith as zzzipwith } from "../fn/zip.js"
 import { divBy, mulBy } from "../scalar/math/curry.js"
-import { sum, mul as multiply, sub as subtract, square, avg } from "../scalar/math/math.js"
+import { Maybe } from "../fn/maybe1.js"
+import { Result } from "../fn/result.js"
+import { sum, mul as multiply, sub as subtract, square, avg, clamp } from "../scalar/math/math.js"
+import { approxEqual, DEFAULT_TOLERANCE, Tolerance } from "../scalar/math/tolerance.js"
 import { FArray } from "../types/array.js"
-import { IntegerRange } from "../types/compile-time-math.js"
 
 
-export type Dim = IntegerRange<10>
+/**
+ * The number of components of a vector. Use a literal type, such as
+ * `NDimVector<3>` or `NDimVector<128>`, for sizes known when the code is
+ * written; sizes only known at runtime are better served by `DynVector`.
+ */
+export type Dim = number
 
 type NVec<N extends Dim> = FArray<N, number>
 
+/**
+ * The error reported when a vector has no direction to normalize to: its
+ * magnitude is zero, within the requested epsilon, or not finite.
+ */
+export class ZeroVectorError extends RangeError {
+    constructor(public readonly magnitude: number) {
+        super(`Cannot normalize a vector of magnitude ${magnitude}`)
+        this.name = "ZeroVectorError"
+    }
+}
+
 /**
  * Map components with a function
  */
@@ -109,14 +127,15 @@ export const unit = <N extends Dim>(vector: NVec<N>): NVec<N> =>
     map(divBy(magnitude(vector)), vector)
 
 /**
- * Calculates the angle between 2 n-dimensional vectors.
+ * Calculates the angle between 2 n-dimensional vectors. The cosine is clamped
+ * to [-1, 1] so rounding error cannot produce `NaN` for (anti)parallel vectors.
  * 
  * @param l one of the vectors
  * @param r the other vector
  * @returns the angle between the 2 provided n-dimensional vectors.
  */
 export const angle = <N extends Dim>(l: NVec<N>, r: NVec<N>): number =>
-    Math.acos(dot(l, r) / (magnitude(l) * magnitude(r)))
+    Math.acos(clamp(dot(l, r) / (magnitude(l) * magnitude(r)), -1, 1))
 
 /**
  * Calculates the midpoint of 2 n-dimensional vectors.
@@ -131,5 +150,237 @@ export const mid = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): NVec<N> =>
 export const mid2 = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): NVec<N> =>
 	zipWith(avg, ls, rs)
 
+/**
+ * Calculates the squared distance between 2 n-dimensional points.
+ * 
+ * @param ls one of the points
+ * @param rs the other point
+ * @returns the squared euclidean distance between the points.
+ */
+export const distSquared = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    magSquared(sub(ls, rs))
+
+/**
+ * Calculates the distance between 2 n-dimensional points.
+ * 
+ * @param ls one of the points
+ * @param rs the other point
+ * @returns the euclidean distance between the points.
+ */
+export const distance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    Math.sqrt(distSquared(ls, rs))
+
+/**
+ * Projects a vector onto another vector.
+ * 
+ * @param vector the vector to project.
+ * @param onto the vector to project onto; it does not need to be a unit vector.
+ * @returns the component of `vector` parallel to `onto`.
+ */
+export const project = <N extends Dim>(vector: NVec<N>, onto: NVec<N>): NVec<N> =>
+    mul(onto, dot(vector, onto) / magSquared(onto))
+
+/**
+ * Rejects a vector from another vector, the complement of `project`.
+ * 
+ * @param vector the vector to reject.
+ * @param from the vector to reject from; it does not need to be a unit vector.
+ * @returns the component of `vector` perpendicular to `from`.
+ */
+export const reject = <N extends Dim>(vector: NVec<N>, from: NVec<N>): NVec<N> =>
+    sub(vector, project(vector, from))
+
+/**
+ * Reflects a vector about the surface described by a normal.
+ * 
+ * @param vector the incident vector.
+ * @param normal the surface normal; it does not need to be a unit vector.
+ * @returns the reflected vector.
+ */
+export const reflect = <N extends Dim>(vector: NVec<N>, normal: NVec<N>): NVec<N> =>
+    sub(vector, mul(project(vector, normal), 2))
+
+/**
+ * Linearly interpolates between 2 n-dimensional vectors.
+ * 
+ * @param from the vector at t = 0.
+ * @param to the vector at t = 1.
+ * @param t the interpolation parameter.
+ * @returns the interpolated vector.
+ */
+export const lerp = <N extends Dim>(from: NVec<N>, to: NVec<N>, t: number): NVec<N> =>
+    zipWith((a, b) => a + (b - a) * t, from, to)
+
+/**
+ * Spherically interpolates between 2 n-dimensional vectors, moving along the
+ * arc between them at a constant angular rate. Falls back to `lerp` when the
+ * vectors are (nearly) parallel.
+ * 
+ * @param from the vector at t = 0.
+ * @param to the vector at t = 1.
+ * @param t the interpolation parameter.
+ * @returns the interpolated vector.
+ */
+export const slerp = <N extends Dim>(from: NVec<N>, to: NVec<N>, t: number): NVec<N> => {
+    const omega = angle(from, to)
+    const sinOmega = Math.sin(omega)
+
+    if (!(Math.abs(sinOmega) > 1e-9)) {
+        return lerp(from, to, t)
+    }
 
+    return add(
+        mul(from, Math.sin((1 - t) * omega) / sinOmega),
+        mul(to, Math.sin(t * omega) / sinOmega)
+    )
+}
 
+/**
+ * Calculates the cross product of two 3-dimensional vectors.
+ * 
+ * @param l the left hand vector.
+ * @param r the right hand vector.
+ * @returns the vector perpendicular to both l and r.
+ */
+export const cross = (l: NVec<3>, r: NVec<3>): NVec<3> => [
+    l[1] * r[2] - l[2] * r[1],
+    l[2] * r[0] - l[0] * r[2],
+    l[0] * r[1] - l[1] * r[0],
+]
+
+/**
+ * Calculates the perp dot product of two 2-dimensional vectors, the z
+ * component of their cross product when embedded in 3 dimensions.
+ * 
+ * @param l the left hand vector.
+ * @param r the right hand vector.
+ * @returns the signed area of the parallelogram spanned by l and r.
+ */
+export const perpDot = (l: NVec<2>, r: NVec<2>): number =>
+    l[0] * r[1] - l[1] * r[0]
+
+/**
+ * Rotates a 2-dimensional vector counter-clockwise about the origin.
+ * 
+ * @param vector the vector to rotate.
+ * @param theta the angle of rotation in radians.
+ * @returns the rotated vector.
+ */
+export const rotate2d = (vector: NVec<2>, theta: number): NVec<2> => {
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+    return [
+        vector[0] * cos - vector[1] * sin,
+        vector[0] * sin + vector[1] * cos,
+    ]
+}
+
+/**
+ * Rotates a 3-dimensional vector about an axis using Rodrigues' rotation
+ * formula. The rotation is counter-clockwise when looking down the axis
+ * towards the origin.
+ * 
+ * @param vector the vector to rotate.
+ * @param axis the axis of rotation; it does not need to be a unit vector.
+ * @param theta the angle of rotation in radians.
+ * @returns the rotated vector.
+ */
+export const rotate3d = (vector: NVec<3>, axis: NVec<3>, theta: number): NVec<3> => {
+    const k = unit(axis)
+    const cos = Math.cos(theta)
+    const sin = Math.sin(theta)
+    return add(
+        add(mul(vector, cos), mul(cross(k, vector), sin)),
+        mul(k, dot(k, vector) * (1 - cos))
+    )
+}
+
+/**
+ * Compares 2 n-dimensional vectors component by component for exact equality.
+ * 
+ * @param ls one of the vectors
+ * @param rs the other vector
+ * @returns true if every pair of components is strictly equal.
+ */
+export const equals = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): boolean =>
+    ls.length === rs.length && ls.every((l, i) => l === rs[i])
+
+/**
+ * Compares 2 n-dimensional vectors component by component within a tolerance.
+ * 
+ * @param ls one of the vectors
+ * @param rs the other vector
+ * @param tolerance the absolute, relative and ULP tolerances to compare with.
+ * @returns true if every pair of components is equal within the tolerance.
+ */
+export const approxEquals = <N extends Dim>(ls: NVec<N>, rs: NVec<N>, tolerance: Tolerance = DEFAULT_TOLERANCE): boolean =>
+    ls.length === rs.length && ls.every((l, i) => approxEqual(l, rs[i], tolerance))
+
+/**
+ * Determines whether every component of a vector is zero, within an absolute
+ * tolerance.
+ * 
+ * @param vector the vector to check.
+ * @param epsilon the largest component magnitude still considered zero.
+ * @returns true if the vector is the zero vector.
+ */
+export const isZero = <N extends Dim>(vector: NVec<N>, epsilon: number = 0): boolean =>
+    vector.every(n => Math.abs(n) <= epsilon)
+
+/**
+ * Determines whether every component of a vector is a finite number.
+ * 
+ * @param vector the vector to check.
+ * @returns false if any component is `NaN` or infinite.
+ */
+export const isFinite = <N extends Dim>(vector: NVec<N>): boolean =>
+    vector.every(Number.isFinite)
+
+/**
+ * Determines whether a vector has unit length, within a tolerance.
+ * 
+ * @param vector the vector to check.
+ * @param epsilon the largest allowed deviation of the squared magnitude from 1.
+ * @returns true if the vector is normalized.
+ */
+export const isNormalized = <N extends Dim>(vector: NVec<N>, epsilon: number = 1e-9): boolean =>
+    Math.abs(magSquared(vector) - 1) <= epsilon
+
+/**
+ * Calculates the unit vector of an n-dimensional vector, if it has one.
+ * 
+ * @param vector the vector to calculate the unit vector from.
+ * @param epsilon magnitudes at or below this are treated as zero.
+ * @returns the unit vector, or none if the vector is zero or not finite.
+ */
+export const tryUnit = <N extends Dim>(vector: NVec<N>, epsilon: number = 0): Maybe<NVec<N>> =>
+    unitResult(vector, epsilon).toMaybe()
+
+/**
+ * Calculates the unit vector of an n-dimensional vector, reporting why when it
+ * has none.
+ * 
+ * @param vector the vector to calculate the unit vector from.
+ * @param epsilon magnitudes at or below this are treated as zero.
+ * @returns the unit vector, or a ZeroVectorError if the vector is zero or not finite.
+ */
+export const unitResult = <N extends Dim>(vector: NVec<N>, epsilon: number = 0): Result<NVec<N>, ZeroVectorError> => {
+    const mag = magnitude(vector)
+    return mag > epsilon && Number.isFinite(mag)
+        ? Result.ok(map(divBy(mag), vector))
+        : Result.err(new ZeroVectorError(mag))
+}
+
+/**
+ * Calculates the unit vector of an n-dimensional vector, falling back to the
+ * zero vector instead of dividing by zero.
+ * 
+ * @param vector the vector to calculate the unit vector from.
+ * @param epsilon magnitudes at or below this are treated as zero.
+ * @returns the unit vector, or a zero vector of the same dimension.
+ */
+export const unitOrZero = <N extends Dim>(vector: NVec<N>, epsilon: number = 0): NVec<N> =>
+    tryUnit(vector, epsilon).match({
+        just: u => u,
+        none: () => map(() => 0, vector),
+    })
@@ -0,0 +1,134 @@
+import test from 'ava';
+
+import { NotPositiveDefiniteError } from '../matrix/decompositions';
+import { NDimMatrix } from '../matrix/n-dim-matrix';
+
+import { DynVector } from './dyn-vector';
+import {
+  Chebyshev,
+  Cosine,
+  cosineSimilarity,
+  Euclidean,
+  Hamming,
+  l1Norm,
+  lInfNorm,
+  lpNorm,
+  mahalanobis,
+  mahalanobisMetric,
+  mahalanobisResult,
+  Manhattan,
+  minkowski,
+  minkowskiDistance,
+} from './metric';
+import { NDimVector } from './n-dim-vector';
+
+const approx = (actual: number, expected: number) => Math.abs(actual - expected) < 1e-12;
+
+test('norms', (t) => {
+  t.is(l1Norm([3, -4, 1]), 8);
+  t.is(lInfNorm([3, -4, 1]), 4);
+  t.is(lpNorm([3, -4], 2), 5);
+  t.is(lpNorm([3, -4, 1], 1), 8);
+  t.is(lpNorm([3, -4, 1], Infinity), 4);
+  t.true(approx(lpNorm([1, 1, 1, 1], 3), Math.cbrt(4)));
+  t.is(lpNorm([0, 0], 3), 0);
+  t.true(approx(lpNorm([1e200, 1e200], 4) / 1e200, Math.pow(2, 0.25)));
+  t.throws(() => lpNorm([1, 2], 0), { instanceOf: RangeError });
+  t.throws(() => lpNorm([1, 2], NaN), { instanceOf: RangeError });
+});
+
+test('Lp norms approach the maximum norm as p grows', (t) => {
+  const v: [number, number, number] = [1, -2, 5];
+  t.true(lpNorm(v, 1) > lpNorm(v, 2));
+  t.true(lpNorm(v, 2) > lpNorm(v, 10));
+  t.true(Math.abs(lpNorm(v, 200) - 5) < 1e-2);
+});
+
+test('distances between points', (t) => {
+  const a = new NDimVector<3>([1, 2, 3]);
+  const b: [number, number, number] = [4, -2, 3];
+  t.is(a.manhattanDistance(b), 7);
+  t.is(a.chebyshevDistance(b), 4);
+  t.is(a.minkowskiDistance(b, 2), 5);
+  t.is(minkowskiDistance([1, 2, 3], b, 1), 7);
+  t.is(a.hammingDistance(b), 2);
+  t.is(a.hammingDistance([1.05, 2, 3], 0.1), 0);
+  t.is(a.l1Norm(), 6);
+  t.is(a.lInfNorm(), 3);
+  t.true(approx(a.lpNorm(2), a.magnitude));
+});
+
+test('cosine similarity ignores magnitude', (t) => {
+  const a = new NDimVector<2>([1, 0]);
+  t.is(a.cosineSimilarity([5, 0]), 1);
+  t.true(approx(a.cosineSimilarity([0, 3]), 0));
+  t.is(a.cosineSimilarity([-2, 0]), -1);
+  t.is(a.cosineDistance([-2, 0]), 2);
+  t.true(approx(a.cosineSimilarity([1, 1]), Math.SQRT1_2));
+  t.true(Number.isNaN(cosineSimilarity([0, 0], [1, 1])));
+});
+
+test('Mahalanobis distance scales by the covariance', (t) => {
+  const identity: [[number, number], [number, number]] = [
+    [1, 0],
+    [0, 1],
+  ];
+  t.is(mahalanobis([3, 4], [0, 0], identity), 5);
+
+  // Along an axis with variance 4, a distance of 2 is one standard deviation.
+  const diagonal = new NDimMatrix<2, 2>([
+    [4, 0],
+    [0, 1],
+  ]);
+  const origin = new NDimVector<2>([0, 0]);
+  t.true(approx(origin.mahalanobisDistance([2, 0], diagonal), 1));
+  t.true(approx(origin.mahalanobisDistance([0, 2], diagonal.components), 2));
+
+  // Against the explicit inverse, dᵀ Σ⁻¹ d.
+  const sigma: [[number, number], [number, number]] = [
+    [2, 0.6],
+    [0.6, 1],
+  ];
+  const inverse = new NDimMatrix<2, 2>(sigma).inverse().components;
+  const d = [1.5, -0.5];
+  const expected = Math.sqrt(d.reduce((acc, di, i) => acc + di * d.reduce((s, dj, j) => s + inverse[i][j] * dj, 0), 0));
+  t.true(approx(mahalanobis([1.5, -0.5], [0, 0], sigma), expected));
+  t.true(approx(mahalanobisMetric<2>(sigma).distance([2, 0], [0.5, 0.5]), expected));
+
+  const singular: [[number, number], [number, number]] = [
+    [1, 1],
+    [1, 1],
+  ];
+  t.true(mahalanobisResult([1, 0], [0, 0], singular).isErr);
+  t.throws(() => mahalanobis([1, 0], [0, 0], singular), { instanceOf: NotPositiveDefiniteError });
+  t.throws(() => mahalanobisMetric(singular), { instanceOf: NotPositiveDefiniteError });
+});
+
+test('metrics can be passed around', (t) => {
+  const a = new NDimVector<2>([0, 0]);
+  const b: [number, number] = [3, 4];
+  t.deepEqual(
+    [Euclidean, Manhattan, Chebyshev, minkowski(1), Hamming].map((m) => a.distanceWith(b, m)),
+    [5, 7, 4, 7, 2]
+  );
+  t.is(Cosine.distance([1, 0], [0, 1]), 1);
+  t.true([Euclidean, Manhattan, Chebyshev, minkowski(3)].every((m) => m.axisBounded));
+  t.false(Cosine.axisBounded);
+  t.throws(() => minkowski(-1), { instanceOf: RangeError });
+});
+
+test('DynVector has the same norms and distances', (t) => {
+  const a = new DynVector([1, 2, 3]);
+  t.is(a.l1Norm(), 6);
+  t.is(a.manhattanDistance([4, -2, 3]), 7);
+  t.is(a.distanceWith([4, -2, 3], Chebyshev), 4);
+  t.throws(() => a.cosineSimilarity([1, 2]), { instanceOf: RangeError });
+  t.throws(
+    () =>
+      a.mahalanobisDistance([0, 0, 0], [
+        [1, 0],
+        [0, 1],
+      ]),
+    { instanceOf: RangeError }
+  );
+});
@@ -0,0 +1,221 @@
+import { Result } from "../fn/result.js"
+import { choleskyResult, NotPositiveDefiniteError } from "../matrix/decompositions.js"
+import { NMat } from "../matrix/math.js"
+import { FArray } from "../types/array.js"
+import { Dim, distance, dot, magnitude, sub } from "./math.js"
+
+type NVec<N extends Dim> = FArray<N, number>
+
+
+// ************************** Norms ********************************
+
+/**
+ * Calculates the L1 (taxicab) norm of a vector: the sum of the absolute
+ * values of its components.
+ *
+ * @param vector the vector to measure.
+ * @returns the L1 norm of the vector.
+ */
+export const l1Norm = <N extends Dim>(vector: NVec<N>): number =>
+    vector.reduce((acc, n) => acc + Math.abs(n), 0)
+
+/**
+ * Calculates the L∞ (maximum) norm of a vector: the largest absolute value
+ * of its components.
+ *
+ * @param vector the vector to measure.
+ * @returns the L∞ norm of the vector.
+ */
+export const lInfNorm = <N extends Dim>(vector: NVec<N>): number =>
+    vector.reduce((acc, n) => Math.max(acc, Math.abs(n)), 0)
+
+/**
+ * Calculates the Lp norm of a vector, `(Σ |vᵢ|^p)^(1/p)`. The cases p = 1, 2
+ * and ∞ are the taxicab, euclidean and maximum norms. Below p = 1 the result
+ * is not a norm, as it breaks the triangle inequality, but is still returned.
+ *
+ * @param vector the vector to measure.
+ * @param p the order of the norm, positive; may be Infinity.
+ * @returns the Lp norm of the vector.
+ */
+export const lpNorm = <N extends Dim>(vector: NVec<N>, p: number): number => {
+    if (!(p > 0)) {
+        throw new RangeError(`The order of a norm must be positive, got ${p}`)
+    }
+    if (p === 1) return l1Norm(vector)
+    if (p === 2) return magnitude(vector)
+    if (p === Infinity) return lInfNorm(vector)
+
+    // Scaling by the largest component keeps the powers from overflowing.
+    const max = lInfNorm(vector)
+    if (max === 0 || !Number.isFinite(max)) return max
+    return max * Math.pow(vector.reduce((acc, n) => acc + Math.pow(Math.abs(n) / max, p), 0), 1 / p)
+}
+
+
+// ************************ Distances ******************************
+
+/**
+ * Calculates the Manhattan (L1) distance between 2 points.
+ *
+ * @param ls one of the points
+ * @param rs the other point
+ * @returns the sum of the absolute differences of the components.
+ */
+export const manhattanDistance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    l1Norm(sub(ls, rs))
+
+/**
+ * Calculates the Chebyshev (L∞) distance between 2 points.
+ *
+ * @param ls one of the points
+ * @param rs the other point
+ * @returns the largest absolute difference of the components.
+ */
+export const chebyshevDistance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    lInfNorm(sub(ls, rs))
+
+/**
+ * Calculates the Minkowski distance of order p between 2 points, the Lp norm
+ * of their difference.
+ *
+ * @param ls one of the points
+ * @param rs the other point
+ * @param p the order of the distance, positive; may be Infinity.
+ * @returns the Minkowski distance between the points.
+ */
+export const minkowskiDistance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>, p: number): number =>
+    lpNorm(sub(ls, rs), p)
+
+/**
+ * Calculates the cosine of the angle between 2 vectors, which ignores their
+ * magnitudes.
+ *
+ * @param ls one of the vectors
+ * @param rs the other vector
+ * @returns a similarity in [-1, 1]: 1 for the same direction, -1 for opposite
+ * directions; NaN if either vector is zero.
+ */
+export const cosineSimilarity = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    Math.min(Math.max(dot(ls, rs) / (magnitude(ls) * magnitude(rs)), -1), 1)
+
+/**
+ * Calculates the cosine distance between 2 vectors, `1 - cosineSimilarity`.
+ * It is not a true metric, as it breaks the triangle inequality.
+ *
+ * @param ls one of the vectors
+ * @param rs the other vector
+ * @returns a distance in [0, 2]; NaN if either vector is zero.
+ */
+export const cosineDistance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>): number =>
+    1 - cosineSimilarity(ls, rs)
+
+/**
+ * Counts the components in which 2 vectors differ.
+ *
+ * @param ls one of the vectors
+ * @param rs the other vector
+ * @param epsilon components differing by no more than this count as equal.
+ * @returns the number of differing components.
+ */
+export const hammingDistance = <N extends Dim>(ls: NVec<N>, rs: NVec<N>, epsilon: number = 0): number =>
+    ls.reduce((acc, l, i) => Math.abs(l - rs[i]) > epsilon ? acc + 1 : acc, 0)
+
+/**
+ * Solves `L y = d` by forward substitution and returns `|y|`, which equals
+ * `√(dᵀ Σ⁻¹ d)` when `L` is the Cholesky factor of `Σ`.
+ */
+const whitenedLength = <N extends Dim>(lower: NMat<N, N>, d: NVec<N>): number => {
+    const y: number[] = []
+    for (let i = 0; i < d.length; i++) {
+        let sum = d[i]
+        for (let k = 0; k < i; k++) sum -= lower[i][k] * y[k]
+        y.push(sum / lower[i][i])
+    }
+    return Math.sqrt(y.reduce((acc, n) => acc + n * n, 0))
+}
+
+/**
+ * Calculates the Mahalanobis distance between 2 points,
+ * `√((l - r)ᵀ Σ⁻¹ (l - r))`: the euclidean distance after scaling away the
+ * correlations described by a covariance matrix. The inverse is never formed;
+ * the difference is solved against the Cholesky factor of the covariance.
+ *
+ * @param ls one of the points
+ * @param rs the other point
+ * @param covariance the covariance matrix, symmetric positive definite.
+ * @returns the distance, or a NotPositiveDefiniteError.
+ */
+export const mahalanobisResult = <N extends Dim>(ls: NVec<N>, rs: NVec<N>, covariance: NMat<N, N>): Result<number, NotPositiveDefiniteError> =>
+    choleskyResult(covariance).map(lower => whitenedLength(lower, sub(ls, rs)))
+
+/**
+ * Calculates the Mahalanobis distance between 2 points.
+ *
+ * @param ls one of the points
+ * @param rs the other point
+ * @param covariance the covariance matrix, symmetric positive definite.
+ * @returns the distance between the points.
+ * @throws NotPositiveDefiniteError if the covariance is not positive definite.
+ */
+export const mahalanobis = <N extends Dim>(ls: NVec<N>, rs: NVec<N>, covariance: NMat<N, N>): number =>
+    mahalanobisResult(ls, rs, covariance).getOrThrow()
+
+
+// ************************* Metrics *******************************
+
+/**
+ * A distance function over N-dimensional vectors, for code that can work with
+ * any notion of distance, such as clustering or spatial indexes.
+ *
+ * @typeParam N - The dimension of the vectors.
+ */
+export interface Metric<N extends Dim> {
+    /**
+     * Calculates the distance between 2 points.
+     */
+    distance(ls: NVec<N>, rs: NVec<N>): number
+
+    /**
+     * Whether the distance is never less than the difference along any one
+     * axis, as with every Minkowski distance. Spatial indexes rely on this to
+     * skip regions that are far away along an axis.
+     */
+    readonly axisBounded: boolean
+}
+
+export const Euclidean: Metric<Dim> = { distance, axisBounded: true }
+
+export const Manhattan: Metric<Dim> = { distance: manhattanDistance, axisBounded: true }
+
+export const Chebyshev: Metric<Dim> = { distance: chebyshevDistance, axisBounded: true }
+
+export const Cosine: Metric<Dim> = { distance: cosineDistance, axisBounded: false }
+
+export const Hamming: Metric<Dim> = { distance: (ls, rs) => hammingDistance(ls, rs), axisBounded: false }
+
+/**
+ * Creates the Minkowski metric of order p.
+ *
+ * @param p the order of the metric, positive; may be Infinity.
+ * @returns a Metric measuring the Lp norm of differences.
+ */
+export const minkowski = <N extends Dim>(p: number): Metric<N> => {
+    if (!(p > 0)) {
+        throw new RangeError(`The order of a norm must be positive, got ${p}`)
+    }
+    return { distance: (ls, rs) => minkowskiDistance(ls, rs, p), axisBounded: true }
+}
+
+/**
+ * Creates the Mahalanobis metric for a covariance matrix. The matrix is
+ * factored once, up front.
+ *
+ * @param covariance the covariance matrix, symmetric positive definite.
+ * @returns a Metric measuring Mahalanobis distances.
+ * @throws NotPositiveDefiniteError if the covariance is not positive definite.
+ */
+export const mahalanobisMetric = <N extends Dim>(covariance: NMat<N, N>): Metric<N> => {
+    const lower = choleskyResult(covariance).getOrThrow()
+    return { distance: (ls, rs) => whitenedLength(lower, sub(ls, rs)), axisBounded: false }
+}
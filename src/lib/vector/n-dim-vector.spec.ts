@@ -0,0 +1,276 @@
+import test from 'ava';
+
+import { Complex, ComplexField } from '../scalar/field/complex';
+import { BigIntRing } from '../scalar/field/field';
+import { Rational, RationalField } from '../scalar/field/rational';
+import { easeInQuad } from '../scalar/math/easing';
+
+import { NDimVector } from './n-dim-vector';
+
+const approxEqual = (actual: readonly number[], expected: readonly number[]) =>
+  actual.length === expected.length &&
+  actual.every((n, i) => Math.abs(n - expected[i]) < 1e-9);
+
+test('cross', (t) => {
+  const x = new NDimVector<3>([1, 0, 0]);
+  t.deepEqual(x.cross([0, 1, 0]).components, [0, 0, 1]);
+
+  const v = new NDimVector<2>([1, 0]);
+  // @ts-expect-error cross is only defined for 3-dimensional vectors
+  const bad = () => v.cross([0, 1]);
+  t.is(typeof bad, 'function');
+});
+
+test('perpDot', (t) => {
+  t.is(new NDimVector<2>([1, 0]).perpDot([0, 1]), 1);
+  t.is(new NDimVector<2>([0, 1]).perpDot([1, 0]), -1);
+});
+
+test('project and reject', (t) => {
+  const v = new NDimVector<3>([3, 4, 5]);
+  t.deepEqual(v.project([2, 0, 0]).components, [3, 0, 0]);
+  t.deepEqual(v.reject([2, 0, 0]).components, [0, 4, 5]);
+});
+
+test('reflect', (t) => {
+  const v = new NDimVector<2>([1, -1]);
+  t.deepEqual(v.reflect([0, 2]).components, [1, 1]);
+});
+
+test('distance', (t) => {
+  const v = new NDimVector<2>([1, 1]);
+  t.is(v.distance([4, 5]), 5);
+  t.is(v.distanceSquared([4, 5]), 25);
+});
+
+test('lerp and slerp', (t) => {
+  const x = new NDimVector<2>([1, 0]);
+  t.deepEqual(x.lerp([3, 2], 0.5).components, [2, 1]);
+  t.true(
+    approxEqual(x.slerp([0, 1], 0.5).components, [Math.SQRT1_2, Math.SQRT1_2])
+  );
+});
+
+test('rotate', (t) => {
+  t.true(
+    approxEqual(new NDimVector<2>([1, 0]).rotate2d(Math.PI / 2).components, [
+      0, 1,
+    ])
+  );
+  t.true(
+    approxEqual(
+      new NDimVector<3>([1, 0, 0]).rotate3d([0, 0, 2], Math.PI / 2).components,
+      [0, 1, 0]
+    )
+  );
+});
+
+test('equals and approxEquals', (t) => {
+  const v = new NDimVector<3>([0.1 + 0.2, 1, 1e6]);
+  t.false(v.equals([0.3, 1, 1e6]));
+  t.true(v.approxEquals([0.3, 1, 1e6]));
+  t.true(v.approxEquals([0.3, 1, 1e6 + 1], { relative: 1e-5 }));
+  t.false(v.approxEquals([0.3, 1, 1e6 + 1], { absolute: 1e-3 }));
+  t.true(
+    new NDimVector<1>([1]).approxEquals([1 + 2 * Number.EPSILON], { ulps: 2 })
+  );
+});
+
+test('isZero, isFinite and isNormalized', (t) => {
+  t.true(new NDimVector<2>([0, 0]).isZero());
+  t.true(new NDimVector<2>([1e-12, 0]).isZero(1e-9));
+  t.false(new NDimVector<2>([NaN, 0]).isFinite());
+  t.true(new NDimVector<2>([0.6, 0.8]).isNormalized());
+});
+
+test('safe unit vectors', (t) => {
+  const zero = new NDimVector<2>([0, 0]);
+  t.deepEqual(zero.unitOrZero.components, [0, 0]);
+  t.true(zero.tryUnit().match({ just: () => false, none: () => true }));
+  t.deepEqual(
+    new NDimVector<2>([3, 4])
+      .tryUnit()
+      .match({ just: (u) => u.components, none: () => [] }),
+    [0.6, 0.8]
+  );
+  t.is(
+    zero.unitResult().match({ ok: () => 0, err: (e) => e.magnitude }),
+    0
+  );
+  t.true(new NDimVector<2>([Infinity, 0]).unitResult().isErr);
+});
+
+test('angle clamps rounding error', (t) => {
+  for (let i = 1; i <= 100; i++) {
+    const v = new NDimVector<3>([i * 0.1, i * 0.7, 0.3]);
+    t.false(Number.isNaN(v.angle(v.mul(3))));
+    t.false(Number.isNaN(v.angle(v.mul(-3))));
+  }
+});
+
+test('swizzle reads', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  const xy: NDimVector<2> = v.xy;
+  const zyx: NDimVector<3> = v.zyx;
+  const xxzz: NDimVector<4> = v.xxzz;
+
+  t.deepEqual(xy.components, [1, 2]);
+  t.deepEqual(zyx.components, [3, 2, 1]);
+  t.deepEqual(xxzz.components, [1, 1, 3, 3]);
+  t.deepEqual(new NDimVector<4>([1, 2, 3, 4]).xxw.components, [1, 1, 4]);
+});
+
+test('swizzles are limited to the components of the vector', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  // @ts-expect-error a 3-dimensional vector has no w component
+  const xw = () => v.xw;
+  // @ts-expect-error swizzles have at most 4 components
+  const xyzwx = () => new NDimVector<4>([1, 2, 3, 4]).xyzwx;
+  t.is(typeof xw, 'function');
+  t.is(typeof xyzwx, 'function');
+});
+
+test('swizzle writes', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  v.xz = [10, 30];
+  t.deepEqual(v.components, [10, 2, 30]);
+
+  v.zyx = new NDimVector<3>([7, 8, 9]);
+  t.deepEqual(v.components, [9, 8, 7]);
+
+  v.yx = v.xy;
+  t.deepEqual(v.components, [8, 9, 7]);
+
+  // @ts-expect-error swizzles with repeated components are read-only
+  t.throws(() => (v.xx = [1, 2]));
+  // @ts-expect-error the assigned value must have as many components as the swizzle
+  t.throws(() => (v.xy = [1, 2, 3]), { instanceOf: RangeError });
+  t.throws(() => (v.xz = [9] as unknown as [number, number]), { instanceOf: RangeError });
+  t.deepEqual(v.components, [8, 9, 7]);
+});
+
+test('labeled, indexed and setItem access agree', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+
+  v.setItem(0, 5);
+  t.is(v.x, 5);
+  t.is(v[0], 5);
+
+  v.y = 6;
+  t.is(v.getItem(1), 6);
+  t.is(v[1], 6);
+
+  v[2] = 7;
+  t.is(v.z, 7);
+  t.deepEqual(v.components, [5, 6, 7]);
+
+  (v.components as number[])[0] = 8;
+  t.is(v.x, 8);
+  t.deepEqual(v.xy.components, [8, 6]);
+
+  v.addInPlace([1, 1, 1]);
+  t.deepEqual([v.x, v.y, v.z], [9, 7, 8]);
+});
+
+test('component access is limited to the dimension of the vector', (t) => {
+  const v = new NDimVector<2>([1, 2]);
+  // @ts-expect-error a 2-dimensional vector has no z component
+  t.is(v.z, undefined);
+  // @ts-expect-error a 2-dimensional vector has no z component
+  t.throws(() => (v.z = 3), { instanceOf: RangeError });
+  t.throws(() => (v[2] = 3), { instanceOf: RangeError });
+  t.deepEqual(v.components, [1, 2]);
+});
+
+test('frozen vectors', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  const frozen = v.freeze();
+
+  t.true(frozen.isFrozen);
+  t.false(v.isFrozen);
+  t.is(frozen.freeze(), frozen);
+
+  // @ts-expect-error frozen vectors are read-only
+  t.throws(() => (frozen.x = 5), { instanceOf: TypeError });
+  // @ts-expect-error frozen vectors are read-only
+  t.throws(() => (frozen.xy = [1, 2]), { instanceOf: TypeError });
+  // @ts-expect-error frozen vectors cannot be mutated in place
+  t.throws(() => frozen.addInPlace([1, 1, 1]), { instanceOf: TypeError });
+  t.deepEqual(frozen.components, [1, 2, 3]);
+
+  v.x = 10;
+  t.is(frozen.x, 1);
+  t.deepEqual(v.add(frozen).components, [11, 4, 6]);
+
+  const thawed = frozen.clone();
+  thawed.x = 4;
+  t.deepEqual(thawed.components, [4, 2, 3]);
+  t.true(NDimVector.frozen<2>([1, 2]).isFrozen);
+});
+
+test('vectors of rationals', (t) => {
+  const r = (n: number, d = 1) => Rational.of(n, d);
+  const v = new NDimVector<3, Rational>([r(1, 2), r(1, 3), r(1, 6)], RationalField);
+  const w = new NDimVector<3, Rational>([r(1), r(1), r(1)], RationalField);
+  t.true(v.dot(w).equals(r(1)));
+  t.true(v.add(w).equals([r(3, 2), r(4, 3), r(7, 6)]));
+  t.true(v.div(r(1, 2)).equals([r(1), r(2, 3), r(1, 3)]));
+  t.true(v.x.equals(r(1, 2)));
+  t.true(v.zy.equals([r(1, 6), r(1, 3)]));
+  t.is(v.toString(), '(1/2, 1/3, 1/6)');
+
+  // @ts-expect-error angles are only defined for vectors of numbers
+  const bad = () => v.angle(w);
+  t.is(typeof bad, 'function');
+});
+
+test('vectors of bigints', (t) => {
+  const n = BigInt;
+  const v = new NDimVector<2, bigint>([n(3), n(4)], BigIntRing);
+  t.is(v.dot([n(2), n(5)]), n(26));
+  t.deepEqual(v.mul(n(2)).components, [n(6), n(8)]);
+  t.is(v.magnitude, 5);
+  t.throws(() => v.div(n(2)), { instanceOf: TypeError });
+});
+
+test('complex dot products conjugate', (t) => {
+  const v = new NDimVector<2, Complex>([new Complex(1, 2), new Complex(0, 1)], ComplexField);
+  t.true(v.dot(v).equals(new Complex(6, 0)));
+  t.is(v.magnitudeSquared, 6);
+
+  const w = new NDimVector<2, Complex>([new Complex(0, 1), new Complex(1, 0)], ComplexField);
+  t.true(v.dot(w).equals(new Complex(2, 0)));
+  t.true(w.dot(v).equals(new Complex(2, 0)));
+  t.true(v.dot(w.mul(Complex.i)).equals(v.dot(w).mul(Complex.i.conjugate)));
+});
+
+test('non-number vectors require a field', (t) => {
+  // @ts-expect-error rationals need their arithmetic
+  const bad = () => new NDimVector<1, Rational>([Rational.one]);
+  t.is(typeof bad, 'function');
+  t.true(NDimVector.frozen([Rational.one], RationalField).isFrozen);
+});
+
+test('component-wise scalar helpers', (t) => {
+  const v = new NDimVector<3>([-1, 0.5, 4]);
+  t.deepEqual(v.clamp(0, 1).components, [0, 0.5, 1]);
+  t.deepEqual(v.clamp([-2, 0, 0], new NDimVector<3>([0, 0.25, 5])).components, [-1, 0.25, 4]);
+  t.deepEqual(v.remap(0, 1, 0, [10, 100, 1000]).components, [-10, 50, 4000]);
+  t.deepEqual(v.inverseLerp(0, 2).components, [-0.5, 0.25, 2]);
+  t.deepEqual(v.mod(3).components, [2, 0.5, 1]);
+  t.deepEqual(v.fract().components, [0, 0.5, 0]);
+  t.deepEqual(new NDimVector<2>([-1e-20, 0.5]).fract().components, [0, 0.5]);
+  t.deepEqual(v.smoothstep(0, 1).components, [0, 0.5, 1]);
+  t.deepEqual(v.ease(easeInQuad).components, [1, 0.25, 16]);
+  t.deepEqual(new NDimVector<2>([180, 90]).degToRad().radToDeg().components, [180, 90]);
+  t.true(
+    new NDimVector<2>([3 * Math.PI, 0])
+      .wrapAngle()
+      .approxEquals([-Math.PI, 0])
+  );
+  t.true(
+    new NDimVector<2>([0, Math.PI / 2])
+      .angleDifference([-Math.PI / 2, -Math.PI / 2])
+      .approxEquals([-Math.PI / 2, -Math.PI])
+  );
+});
@@ -1,53 +1,61 @@
-import { FArray, Take } from "../types/array";
-import { Dim, map, add, sub, mul, div, dot, magnitude, magSquared, unit, angle, mid } from "./math";
-
-const VectorComponentLabels = ["x", "y", "z", "w"] as const
-
-type NDimVectorComponentLabels<N extends Dim> =
-    Take<typeof VectorComponentLabels, N>
+import { Maybe } from "../fn/maybe1";
+import { Result } from "../fn/result";
+import { asField, NumberField, Ring } from "../scalar/field/field";
+import { Easing } from "../scalar/math/easing";
+import { Tolerance } from "../scalar/math/tolerance";
+import { MathRandom, Rng } from "../random/rng";
+import { gaussianVector, inUnitBall, onUnitSphere, uniformVector } from "../random/sampling";
+import { NMat } from "../matrix/math";
+import { FArray, FixedArray } from "../types/array";
+import {
+    Dim, angle, mid, distance, distSquared, project, reject, reflect, lerp, slerp, cross, perpDot, rotate2d, rotate3d,
+    approxEquals, isZero, isFinite, isNormalized, tryUnit, unitResult, ZeroVectorError
+} from "./math";
+import { add, div, dot, equals, magnitude, magSquared, map, mul, sub, unit, unitOrZero } from "./field-math";
+import {
+    angleDifference, clamp, degToRad, ease, fract, inverseLerp, mod, Operand, radToDeg, remap, smoothstep, wrapAngle
+} from "./component-wise";
+import { addInto, addScaledInto, copyInto, divideInto, lerpInto, normalizeInto, scaleInto, subInto } from "./in-place";
+import { NDimVectorComponents, VectorComponentLabels } from "./labels";
+import { concat, Difference, drop, extend, Index, insertAt, Position, removeAt, slice, Sum, take, truncate } from "./reshape";
+import {
+    chebyshevDistance, cosineDistance, cosineSimilarity, hammingDistance, l1Norm, lInfNorm, lpNorm, mahalanobis,
+    manhattanDistance, Metric, minkowskiDistance
+} from "./metric";
+import { decode, encode, format, fromJSON, parse, ParseError, parseResult, toJSON } from "./serialize";
+import { isSwizzle, isWritableSwizzle, readSwizzle, swizzleNames, Swizzles, writeSwizzle } from "./swizzle";
 
 /**
- * Maps the labels for an N-dimensional vector's components to numeric values, creating a readonly structure.
- * 
- * @typeParam N - The dimension of the vector, which dictates the component labels used.
- * @returns A readonly record mapping each component label to a number.
+ * A per-component argument: one number for every component, or a vector of
+ * one number per component.
  */
-type NDimVectorComponents<N extends Dim> = 
-    Record<NDimVectorComponentLabels<N>[number], number>;
-    
+type VectorOperand<N extends Dim> = number | FArray<N, number> | NDimVector<N>
+
+const operand = <N extends Dim>(value: VectorOperand<N>): Operand<N> =>
+    typeof value === "number" ? value : NDimVector.getComponents<N>(value)
+
 /**
  * Represents an N-dimensional vector with type-safe component management.
  * Allows for the creation and manipulation of vectors with a predefined number of dimensions.
  * 
+ * The components are numbers by default, but may be any scalars with a `Ring`
+ * or `Field` describing their arithmetic, such as bigints, rationals or complex
+ * numbers. Members that only make sense for real numbers, like angles and the
+ * in-place helpers, are only available on vectors of numbers.
+ * 
  * @typeParam NDim - The dimension of the vector.
+ * @typeParam T - The scalar type of the components, defaults to number.
  */
-export class NDimVector<NDim extends Dim> {
-    public components: FArray<NDim, number>
+class NDimVectorImpl<NDim extends Dim, T = number> {
+    public components: FArray<NDim, T>
+    public readonly field: Ring<T>
 
-    constructor(components: FArray<NDim, number>) {
-        const self = this
+    constructor(components: FArray<NDim, T>, field: Ring<T> = NumberField as unknown as Ring<T>) {
         this.components = components
-        
-        const proxied = new Proxy(this, {
-            get(target, prop) {
-                const nProp = Number(prop)
-                if (!(prop in target)) {
-                    return self.getItem(nProp);
-                }
-                return target[prop];
-            },
-            
-            set(target, prop, newValue) {
-                const nProp = Number(prop)
-                if (!(prop in target)) {
-                    return self.components[nProp] = newValue;
-                }
-                return target[prop] = newValue;
-            }
-        }) 
-
-        Object.defineProperties(proxied, Object.getOwnPropertyDescriptors(this.mappedComponents));
-        return proxied as unknown as NDimVectorComponents<NDim> & InstanceType<typeof NDimVector<NDim>>
+        this.field = field
+        if (components.length > sharedIndexAccessors) {
+            defineOwnIndexAccessors(this, components.length)
+        }
     }
 
     /**
@@ -56,11 +64,11 @@ export class NDimVector<NDim extends Dim> {
      * @param index The index of the component to retrieve.
      * @returns The value of the component at the specified index.
      */
-    public getItem(index: number): number {
+    public getItem(index: number): T {
         return this.components[index]
     }
 
-    public setItem(index: number, value: number): number {
+    public setItem(index: number, value: T): T {
         this.components[index] = value
         return this.components[index]
     }
@@ -74,10 +82,141 @@ export class NDimVector<NDim extends Dim> {
         return this.components.length as NDim
     }
 
+    /**
+     * Whether this vector is frozen. Frozen vectors throw a TypeError on any
+     * attempt to change their components.
+     */
+    public get isFrozen(): boolean {
+        return Object.isFrozen(this.components)
+    }
+
+    /**
+     * Creates a mutable copy of this vector.
+     * 
+     * @returns A new NDimVector with its own copy of the components.
+     */
+    public clone(): NDimVector<NDim, T> {
+        return new NDimVector<NDim, T>(Array.from(this.components) as FArray<NDim, T>, this.field)
+    }
+
+    /**
+     * Creates a frozen copy of this vector. Frozen vectors are returned as is.
+     * 
+     * @returns A FrozenNDimVector with the same components.
+     */
+    public freeze(): FrozenNDimVector<NDim, T> {
+        return this.isFrozen
+            ? this as unknown as FrozenNDimVector<NDim, T>
+            : NDimVector.frozen<NDim, T>(this.components, this.field)
+    }
+
     public static from<N extends Dim>(tuple: FArray<N, number>): NDimVector<N> {
         return new NDimVector<N>(tuple)
     }
 
+    /**
+     * Creates a vector whose components are each uniform in [0, 1).
+     * 
+     * @param dim The dimension of the vector.
+     * @param rng The source of randomness; pass a SeededRng for reproducible results.
+     * @returns A new random NDimVector.
+     */
+    public static random<N extends Dim>(dim: N, rng: Rng = MathRandom): NDimVector<N> {
+        return new NDimVector<N>(uniformVector(dim, rng))
+    }
+
+    /**
+     * Creates a random unit vector, uniformly distributed over all directions.
+     * 
+     * @param dim The dimension of the vector.
+     * @param rng The source of randomness; pass a SeededRng for reproducible results.
+     * @returns A new NDimVector on the unit sphere.
+     */
+    public static randomUnit<N extends Dim>(dim: N, rng: Rng = MathRandom): NDimVector<N> {
+        return new NDimVector<N>(onUnitSphere(dim, rng))
+    }
+
+    /**
+     * Creates a random vector uniformly distributed inside the unit ball.
+     * 
+     * @param dim The dimension of the vector.
+     * @param rng The source of randomness; pass a SeededRng for reproducible results.
+     * @returns A new NDimVector with magnitude below 1.
+     */
+    public static randomInUnitBall<N extends Dim>(dim: N, rng: Rng = MathRandom): NDimVector<N> {
+        return new NDimVector<N>(inUnitBall(dim, rng))
+    }
+
+    /**
+     * Creates a vector whose components are independent normal variates.
+     * 
+     * @param dim The dimension of the vector.
+     * @param rng The source of randomness; pass a SeededRng for reproducible results.
+     * @param mean The mean of every component, defaults to 0.
+     * @param standardDeviation The standard deviation of every component, defaults to 1.
+     * @returns A new random NDimVector.
+     */
+    public static gaussian<N extends Dim>(dim: N, rng: Rng = MathRandom, mean: number = 0, standardDeviation: number = 1): NDimVector<N> {
+        return new NDimVector<N>(gaussianVector(dim, rng, mean, standardDeviation))
+    }
+
+    /**
+     * Creates a frozen vector. The components are copied, so later changes to
+     * `tuple` do not affect the vector.
+     * 
+     * @param tuple The components of the vector.
+     * @param field The arithmetic of the components, required unless they are numbers.
+     * @returns A FrozenNDimVector with the given components.
+     */
+    public static frozen<N extends Dim, T = number>(tuple: FArray<N, T>, ...field: FieldArgument<T>): FrozenNDimVector<N, T> {
+        const components = Object.freeze(Array.from(tuple)) as FArray<N, T>
+        return Object.freeze(new NDimVector<N, T>(components, ...field)) as unknown as FrozenNDimVector<N, T>
+    }
+
+    /**
+     * Reads a vector from its JSON tuple form `[1, 2, 3]` or labeled form `{ x, y, z }`.
+     * 
+     * @param dim The expected dimension of the vector.
+     * @param json The parsed JSON value, or a JSON string.
+     * @returns The vector, or none if the input is malformed or has the wrong dimension.
+     */
+    public static fromJSON<N extends Dim>(dim: N, json: unknown): Maybe<NDimVector<N>> {
+        return fromJSON(dim, json).map(components => new NDimVector<N>(components))
+    }
+
+    /**
+     * Parses a vector from text such as `(1, 2, 3)`.
+     * 
+     * @param dim The expected dimension of the vector.
+     * @param text The text to parse.
+     * @returns The vector, or none if the text is malformed or has the wrong dimension.
+     */
+    public static parse<N extends Dim>(dim: N, text: string): Maybe<NDimVector<N>> {
+        return parse(dim, text).map(components => new NDimVector<N>(components))
+    }
+
+    /**
+     * Parses a vector from text such as `(1, 2, 3)`, reporting why when it cannot.
+     * 
+     * @param dim The expected dimension of the vector.
+     * @param text The text to parse.
+     * @returns The vector, or a ParseError describing what is wrong with the text.
+     */
+    public static parseResult<N extends Dim>(dim: N, text: string): Result<NDimVector<N>, ParseError> {
+        return parseResult(dim, text).map(components => new NDimVector<N>(components))
+    }
+
+    /**
+     * Decodes a vector from the binary form produced by `encode`.
+     * 
+     * @param dim The expected dimension of the vector.
+     * @param buffer The buffer to decode.
+     * @returns The vector, or none if the buffer is malformed or has the wrong dimension.
+     */
+    public static decode<N extends Dim>(dim: N, buffer: ArrayBuffer): Maybe<NDimVector<N>> {
+        return decode(dim, buffer).map(components => new NDimVector<N>(components))
+    }
+
     /**
      * Returns unwrapped vector components. If a plain array or tuple is received, it will be returned, but 
      * if the vector is an instance of this class, the components of the class will be returned.
@@ -85,19 +224,44 @@ export class NDimVector<NDim extends Dim> {
      * @param vector the vector from which we will retrieve components.
      * @returns if vector is an instance of NDimVector, returns vector.components, else return the tuple.
      */
-    public static getComponents<N extends Dim>(vector: FArray<N, number> | NDimVector<N>): FArray<N, number> {
+    public static getComponents<N extends Dim, T = number>(vector: FArray<N, T> | NDimVector<N, T>): FArray<N, T> {
         return vector instanceof NDimVector ? vector.components: vector
     }
 
-    public get mappedComponents(): NDimVectorComponents<NDim> {
+    public get mappedComponents(): NDimVectorComponents<NDim, T> {
         return this.components.reduce(
 			(acc, comp, i) => ({ ...acc, [VectorComponentLabels[i]]: comp }), 
-			{} as NDimVectorComponents<NDim>
+			{} as NDimVectorComponents<NDim, T>
 		)
     }
 
-    public map(fn: (n: number, i: number) => number): NDimVector<NDim> {
-        return new NDimVector(map(fn, this.components))
+    /**
+     * Provides the JSON tuple form of this vector, used by `JSON.stringify`.
+     * 
+     * @returns A plain array of this vector's components.
+     */
+    public toJSON(this: NDimVector<NDim>): number[] {
+        return toJSON(this.components)
+    }
+
+    /**
+     * Formats this vector as human readable text, e.g. `(1, 2, 3)`.
+     */
+    public toString(): string {
+        return format(this.components)
+    }
+
+    /**
+     * Encodes this vector into a compact binary form.
+     * 
+     * @returns A buffer holding the dimension followed by the components.
+     */
+    public encode(this: NDimVector<NDim>): ArrayBuffer {
+        return encode(this.components)
+    }
+
+    public map(fn: (n: T, i: number) => T): NDimVector<NDim, T> {
+        return new NDimVector<NDim, T>(map(fn, this.components), this.field)
     }
 
     // ********************** Math Helpers *****************************
@@ -108,9 +272,9 @@ export class NDimVector<NDim extends Dim> {
      * @param other The vector to add.
      * @returns A new NDimVector representing the sum.
      */
-    public add(other: FArray<NDim, number>  | NDimVector<NDim>): NDimVector<NDim> {
-        const sum = add(this.components, NDimVector.getComponents<NDim>(other))
-        return new NDimVector<NDim>(sum);
+    public add(other: FArray<NDim, T>  | NDimVector<NDim, T>): NDimVector<NDim, T> {
+        const sum = add(this.field, this.components, NDimVector.getComponents<NDim, T>(other))
+        return new NDimVector<NDim, T>(sum, this.field);
     }
 
     /**
@@ -119,9 +283,9 @@ export class NDimVector<NDim extends Dim> {
      * @param other The vector to subtract.
      * @returns A new NDimVector representing the difference.
      */
-    public sub(other: FArray<NDim, number>  | NDimVector<NDim>): NDimVector<NDim> {
-        const difference = sub(this.components, NDimVector.getComponents<NDim>(other))
-        return new NDimVector<NDim>(difference);
+    public sub(other: FArray<NDim, T>  | NDimVector<NDim, T>): NDimVector<NDim, T> {
+        const difference = sub(this.field, this.components, NDimVector.getComponents<NDim, T>(other))
+        return new NDimVector<NDim, T>(difference, this.field);
     }
 
     /**
@@ -130,9 +294,9 @@ export class NDimVector<NDim extends Dim> {
      * @param scalar The scalar value to multiply by.
      * @returns A new NDimVector representing the product.
      */
-    public mul(scalar: number): NDimVector<NDim> {
-        const product = mul(this.components, scalar)
-        return new NDimVector<NDim>(product)
+    public mul(scalar: T): NDimVector<NDim, T> {
+        const product = mul(this.field, this.components, scalar)
+        return new NDimVector<NDim, T>(product, this.field)
     }
 
     /**
@@ -140,22 +304,25 @@ export class NDimVector<NDim extends Dim> {
      * 
      * @param scalar The scalar value to divide by.
      * @returns A new NDimVector representing the quotient.
+     * @throws TypeError if the components only form a ring, such as bigints.
      */
-    public div(scalar: number): NDimVector<NDim> {
-        const quotient = div(this.components, scalar)
-        return new NDimVector<NDim>(quotient)
+    public div(scalar: T): NDimVector<NDim, T> {
+        const quotient = div(asField(this.field), this.components, scalar)
+        return new NDimVector<NDim, T>(quotient, this.field)
     }
 
     /**
-     * Calculates the dot product of this vector with another vector.
+     * Calculates the dot product of this vector with another vector. For
+     * complex vectors the components of `other` are conjugated.
      * 
      * @param other The vector to calculate the dot product with.
-     * @returns The dot product as a number.
+     * @returns The dot product as a scalar.
      */
-    public dot(other: FArray<NDim, number>  | NDimVector<NDim>): number {
+    public dot(other: FArray<NDim, T>  | NDimVector<NDim, T>): T {
         return dot(
+			this.field,
 			this.components, 
-			NDimVector.getComponents<NDim>(other)
+			NDimVector.getComponents<NDim, T>(other)
 		)
     }
 
@@ -165,11 +332,11 @@ export class NDimVector<NDim extends Dim> {
      * @returns The magnitude of the vector as a number.
      */
     public get magnitude(): number {
-        return magnitude(this.components)
+        return magnitude(this.field, this.components)
     }
 
     public get magnitudeSquared(): number {
-        return magSquared(this.components)
+        return magSquared(this.field, this.components)
     }
 
     /**
@@ -177,8 +344,37 @@ export class NDimVector<NDim extends Dim> {
      * 
      * @returns A new NDimVector representing the unit vector.
      */
-    public get unit(): NDimVector<NDim> {
-        return new NDimVector<NDim>(unit(this.components))
+    public get unit(): NDimVector<NDim, T> {
+        return new NDimVector<NDim, T>(unit(asField(this.field), this.components), this.field)
+    }
+
+    /**
+     * Converts this vector to a unit vector, or the zero vector if it has no direction.
+     * 
+     * @returns A new NDimVector representing the unit vector or zero vector.
+     */
+    public get unitOrZero(): NDimVector<NDim, T> {
+        return new NDimVector<NDim, T>(unitOrZero(asField(this.field), this.components), this.field)
+    }
+
+    /**
+     * Converts this vector to a unit vector, if it has one.
+     * 
+     * @param epsilon Magnitudes at or below this are treated as zero.
+     * @returns The unit vector, or none if this vector is zero or not finite.
+     */
+    public tryUnit(this: NDimVector<NDim>, epsilon: number = 0): Maybe<NDimVector<NDim>> {
+        return tryUnit(this.components, epsilon).map(u => new NDimVector<NDim>(u))
+    }
+
+    /**
+     * Converts this vector to a unit vector, reporting why when it has none.
+     * 
+     * @param epsilon Magnitudes at or below this are treated as zero.
+     * @returns The unit vector, or a ZeroVectorError if this vector is zero or not finite.
+     */
+    public unitResult(this: NDimVector<NDim>, epsilon: number = 0): Result<NDimVector<NDim>, ZeroVectorError> {
+        return unitResult(this.components, epsilon).map(u => new NDimVector<NDim>(u))
     }
 
     /**
@@ -187,7 +383,7 @@ export class NDimVector<NDim extends Dim> {
      * @param other The vector to calculate the angle with.
      * @returns The angle in radians as a number.
      */
-    public angle(other: FArray<NDim, number> | NDimVector<NDim>): number {
+    public angle(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
         return angle(this.components, NDimVector.getComponents<NDim>(other))
     }
 
@@ -197,9 +393,588 @@ export class NDimVector<NDim extends Dim> {
      * @param other The vector to calculate the midpoint with.
      * @returns A new NDimVector representing the midpoint.
      */
-    public midpoint(other: FArray<NDim, number> | NDimVector<NDim>): NDimVector<NDim> {
+    public midpoint(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): NDimVector<NDim> {
         const midpointVector = mid(this.components,NDimVector.getComponents<NDim>(other))
         return new NDimVector<NDim>(midpointVector)
     }
+
+    /**
+     * Calculates the distance between this point and another point.
+     * 
+     * @param other The point to measure the distance to.
+     * @returns The euclidean distance as a number.
+     */
+    public distance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return distance(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    public distanceSquared(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return distSquared(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    /**
+     * Projects this vector onto another vector.
+     * 
+     * @param onto The vector to project onto.
+     * @returns A new NDimVector parallel to `onto`.
+     */
+    public project(this: NDimVector<NDim>, onto: FArray<NDim, number> | NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(project(this.components, NDimVector.getComponents<NDim>(onto)))
+    }
+
+    /**
+     * Rejects this vector from another vector.
+     * 
+     * @param from The vector to reject from.
+     * @returns A new NDimVector perpendicular to `from`.
+     */
+    public reject(this: NDimVector<NDim>, from: FArray<NDim, number> | NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(reject(this.components, NDimVector.getComponents<NDim>(from)))
+    }
+
+    /**
+     * Reflects this vector about the surface described by a normal.
+     * 
+     * @param normal The surface normal.
+     * @returns A new NDimVector representing the reflection.
+     */
+    public reflect(this: NDimVector<NDim>, normal: FArray<NDim, number> | NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(reflect(this.components, NDimVector.getComponents<NDim>(normal)))
+    }
+
+    /**
+     * Linearly interpolates between this vector and another vector.
+     * 
+     * @param other The vector at t = 1.
+     * @param t The interpolation parameter.
+     * @returns A new NDimVector representing the interpolated value.
+     */
+    public lerp(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, t: number): NDimVector<NDim> {
+        return new NDimVector<NDim>(lerp(this.components, NDimVector.getComponents<NDim>(other), t))
+    }
+
+    /**
+     * Spherically interpolates between this vector and another vector.
+     * 
+     * @param other The vector at t = 1.
+     * @param t The interpolation parameter.
+     * @returns A new NDimVector representing the interpolated value.
+     */
+    public slerp(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, t: number): NDimVector<NDim> {
+        return new NDimVector<NDim>(slerp(this.components, NDimVector.getComponents<NDim>(other), t))
+    }
+
+    // ******************** Norms and Metrics ****************************
+
+    /**
+     * Calculates the L1 (taxicab) norm: the sum of the absolute values of the components.
+     */
+    public l1Norm(this: NDimVector<NDim>): number {
+        return l1Norm(this.components)
+    }
+
+    /**
+     * Calculates the L∞ (maximum) norm: the largest absolute value of the components.
+     */
+    public lInfNorm(this: NDimVector<NDim>): number {
+        return lInfNorm(this.components)
+    }
+
+    /**
+     * Calculates the Lp norm of this vector. p = 2 gives the magnitude.
+     * 
+     * @param p The order of the norm, positive; may be Infinity.
+     * @returns The Lp norm as a number.
+     */
+    public lpNorm(this: NDimVector<NDim>, p: number): number {
+        return lpNorm(this.components, p)
+    }
+
+    public manhattanDistance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return manhattanDistance(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    public chebyshevDistance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return chebyshevDistance(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    /**
+     * Calculates the Minkowski distance of order p to another point.
+     * 
+     * @param other The point to measure the distance to.
+     * @param p The order of the distance, positive; may be Infinity.
+     * @returns The distance as a number.
+     */
+    public minkowskiDistance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, p: number): number {
+        return minkowskiDistance(this.components, NDimVector.getComponents<NDim>(other), p)
+    }
+
+    /**
+     * Calculates the cosine of the angle between this vector and another.
+     * 
+     * @param other The other vector.
+     * @returns A similarity in [-1, 1]; NaN if either vector is zero.
+     */
+    public cosineSimilarity(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return cosineSimilarity(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    public cosineDistance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>): number {
+        return cosineDistance(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    /**
+     * Counts the components in which this vector differs from another.
+     * 
+     * @param other The other vector.
+     * @param epsilon Components differing by no more than this count as equal.
+     * @returns The number of differing components.
+     */
+    public hammingDistance(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, epsilon: number = 0): number {
+        return hammingDistance(this.components, NDimVector.getComponents<NDim>(other), epsilon)
+    }
+
+    /**
+     * Calculates the Mahalanobis distance to another point.
+     * 
+     * @param other The point to measure the distance to.
+     * @param covariance The covariance matrix, as rows or an NDimMatrix; symmetric positive definite.
+     * @returns The distance as a number.
+     * @throws NotPositiveDefiniteError if the covariance is not positive definite.
+     */
+    public mahalanobisDistance(
+        this: NDimVector<NDim>,
+        other: FArray<NDim, number> | NDimVector<NDim>,
+        covariance: NMat<NDim, NDim> | { readonly components: NMat<NDim, NDim> },
+    ): number {
+        const rows = "components" in covariance ? covariance.components : covariance
+        return mahalanobis(this.components, NDimVector.getComponents<NDim>(other), rows)
+    }
+
+    /**
+     * Measures the distance to another point with any metric.
+     * 
+     * @param other The point to measure the distance to.
+     * @param metric The metric to measure with, such as `Manhattan`.
+     * @returns The distance as a number.
+     */
+    public distanceWith(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, metric: Metric<NDim>): number {
+        return metric.distance(this.components, NDimVector.getComponents<NDim>(other))
+    }
+
+    // ******************** Comparison Helpers *************************
+
+    /**
+     * Compares this vector with another for exact, component-wise equality.
+     * 
+     * @param other The vector to compare with.
+     * @returns true if every pair of components is strictly equal.
+     */
+    public equals(other: FArray<NDim, T> | NDimVector<NDim, T>): boolean {
+        return equals(this.field, this.components, NDimVector.getComponents<NDim, T>(other))
+    }
+
+    /**
+     * Compares this vector with another, component-wise, within a tolerance.
+     * 
+     * @param other The vector to compare with.
+     * @param tolerance The absolute, relative and ULP tolerances to compare with.
+     * @returns true if every pair of components is equal within the tolerance.
+     */
+    public approxEquals(this: NDimVector<NDim>, other: FArray<NDim, number> | NDimVector<NDim>, tolerance?: Tolerance): boolean {
+        return approxEquals(this.components, NDimVector.getComponents<NDim>(other), tolerance)
+    }
+
+    public isZero(this: NDimVector<NDim>, epsilon: number = 0): boolean {
+        return isZero(this.components, epsilon)
+    }
+
+    public isFinite(this: NDimVector<NDim>): boolean {
+        return isFinite(this.components)
+    }
+
+    public isNormalized(this: NDimVector<NDim>, epsilon?: number): boolean {
+        return isNormalized(this.components, epsilon)
+    }
+
+    // ******************* Component-wise Helpers ***********************
+    // Each applies the scalar helper of the same name to every component.
+    // Arguments may be a number for all components or a vector of one
+    // number per component.
+
+    /**
+     * Restricts each component of this vector to a range.
+     * 
+     * @param min The lower bound.
+     * @param max The upper bound.
+     * @returns A new NDimVector with clamped components.
+     */
+    public clamp(this: NDimVector<NDim>, min: VectorOperand<NDim>, max: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(clamp(this.components, operand(min), operand(max)))
+    }
+
+    /**
+     * Finds the parameter at which interpolating from `a` to `b` reaches each
+     * component of this vector.
+     * 
+     * @param a The values at t = 0.
+     * @param b The values at t = 1.
+     * @returns A new NDimVector of interpolation parameters.
+     */
+    public inverseLerp(this: NDimVector<NDim>, a: VectorOperand<NDim>, b: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(inverseLerp(this.components, operand(a), operand(b)))
+    }
+
+    /**
+     * Maps each component of this vector from one range onto another.
+     * 
+     * @returns A new NDimVector with remapped components.
+     */
+    public remap(this: NDimVector<NDim>, inMin: VectorOperand<NDim>, inMax: VectorOperand<NDim>, outMin: VectorOperand<NDim>, outMax: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(remap(this.components, operand(inMin), operand(inMax), operand(outMin), operand(outMax)))
+    }
+
+    public smoothstep(this: NDimVector<NDim>, edge0: VectorOperand<NDim>, edge1: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(smoothstep(this.components, operand(edge0), operand(edge1)))
+    }
+
+    public mod(this: NDimVector<NDim>, m: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(mod(this.components, operand(m)))
+    }
+
+    public fract(this: NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(fract(this.components))
+    }
+
+    public degToRad(this: NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(degToRad(this.components))
+    }
+
+    public radToDeg(this: NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(radToDeg(this.components))
+    }
+
+    public wrapAngle(this: NDimVector<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(wrapAngle(this.components))
+    }
+
+    /**
+     * Calculates the shortest signed rotation from each component of this
+     * vector, an angle in radians, to the matching target angle.
+     * 
+     * @param to The target angles.
+     * @returns A new NDimVector of rotations in [-π, π).
+     */
+    public angleDifference(this: NDimVector<NDim>, to: VectorOperand<NDim>): NDimVector<NDim> {
+        return new NDimVector<NDim>(angleDifference(this.components, operand(to)))
+    }
+
+    /**
+     * Applies an easing function to each component of this vector.
+     * 
+     * @param easing The easing to apply.
+     * @returns A new NDimVector of eased components.
+     */
+    public ease(this: NDimVector<NDim>, easing: Easing): NDimVector<NDim> {
+        return new NDimVector<NDim>(ease(this.components, easing))
+    }
+
+    // ********************** In-Place Helpers *************************
+    // These mutate this vector's components instead of allocating a new
+    // vector, and return `this` so calls can be chained.
+
+    /**
+     * Overwrites this vector's components with those of another vector.
+     * 
+     * @param other The vector to copy.
+     * @returns This vector.
+     */
+    public copyFrom<V extends NDimVector<NDim>>(this: V, other: FArray<NDim, number> | NDimVector<NDim>): V {
+        copyInto(this.components, NDimVector.getComponents<NDim>(other))
+        return this
+    }
+
+    /**
+     * Adds another vector to this vector in place.
+     * 
+     * @param other The vector to add.
+     * @returns This vector.
+     */
+    public addInPlace<V extends NDimVector<NDim>>(this: V, other: FArray<NDim, number> | NDimVector<NDim>): V {
+        addInto(this.components, this.components, NDimVector.getComponents<NDim>(other))
+        return this
+    }
+
+    /**
+     * Subtracts another vector from this vector in place.
+     * 
+     * @param other The vector to subtract.
+     * @returns This vector.
+     */
+    public subInPlace<V extends NDimVector<NDim>>(this: V, other: FArray<NDim, number> | NDimVector<NDim>): V {
+        subInto(this.components, this.components, NDimVector.getComponents<NDim>(other))
+        return this
+    }
+
+    /**
+     * Multiplies this vector by a scalar value in place.
+     * 
+     * @param scalar The scalar value to multiply by.
+     * @returns This vector.
+     */
+    public mulInPlace<V extends NDimVector<NDim>>(this: V, scalar: number): V {
+        scaleInto(this.components, this.components, scalar)
+        return this
+    }
+
+    /**
+     * Divides this vector by a scalar value in place.
+     * 
+     * @param scalar The scalar value to divide by.
+     * @returns This vector.
+     */
+    public divInPlace<V extends NDimVector<NDim>>(this: V, scalar: number): V {
+        divideInto(this.components, this.components, scalar)
+        return this
+    }
+
+    /**
+     * Adds a scaled vector to this vector in place.
+     * 
+     * @param other The vector to scale and add.
+     * @param scalar The scale applied to `other`.
+     * @returns This vector.
+     */
+    public addScaledInPlace<V extends NDimVector<NDim>>(this: V, other: FArray<NDim, number> | NDimVector<NDim>, scalar: number): V {
+        addScaledInto(this.components, this.components, NDimVector.getComponents<NDim>(other), scalar)
+        return this
+    }
+
+    /**
+     * Scales this vector to unit length in place.
+     * 
+     * @returns This vector.
+     */
+    public normalizeInPlace<V extends NDimVector<NDim>>(this: V): V {
+        normalizeInto(this.components, this.components)
+        return this
+    }
+
+    /**
+     * Linearly interpolates this vector towards another vector in place.
+     * 
+     * @param other The vector at t = 1.
+     * @param t The interpolation parameter.
+     * @returns This vector.
+     */
+    public lerpInPlace<V extends NDimVector<NDim>>(this: V, other: FArray<NDim, number> | NDimVector<NDim>, t: number): V {
+        lerpInto(this.components, this.components, NDimVector.getComponents<NDim>(other), t)
+        return this
+    }
+
+    // ****************** Dimension Changing Helpers *******************
+    // The dimension of each result is computed at compile time.
+
+    /**
+     * Appends the components of another vector to this vector's components.
+     * 
+     * @param other The vector supplying the trailing components.
+     * @returns A new NDimVector of NDim + M components.
+     */
+    public concat<M extends Dim>(other: FArray<M, T> | NDimVector<M, T>): NDimVector<Sum<NDim, M>, T> {
+        return new NDimVector(concat(this.components, NDimVector.getComponents<M, T>(other)), this.field)
+    }
+
+    /**
+     * Extracts the components from `start` up to, but not including, `end`.
+     * 
+     * @param start The index of the first component to keep.
+     * @param end The index after the last component to keep.
+     * @returns A new NDimVector of E - S components.
+     */
+    public slice<S extends Position<NDim>, E extends Position<NDim>>(start: S, end: E): NDimVector<Difference<E, S>, T> {
+        return new NDimVector(slice(this.components, start, end), this.field)
+    }
+
+    public take<K extends Position<NDim>>(count: K): NDimVector<K, T> {
+        return new NDimVector(take(this.components, count), this.field)
+    }
+
+    public drop<K extends Position<NDim>>(count: K): NDimVector<Difference<NDim, K>, T> {
+        return new NDimVector(drop(this.components, count), this.field)
+    }
+
+    /**
+     * Appends a component to this vector.
+     * 
+     * @param value The value of the new last component.
+     * @returns A new NDimVector of NDim + 1 components.
+     */
+    public extend(value: T): NDimVector<Sum<NDim, 1>, T> {
+        return new NDimVector(extend(this.components, value), this.field)
+    }
+
+    /**
+     * Removes the last component of this vector.
+     * 
+     * @returns A new NDimVector of NDim - 1 components.
+     */
+    public truncate(): NDimVector<Difference<NDim, 1>, T> {
+        return new NDimVector(truncate(this.components), this.field)
+    }
+
+    /**
+     * Inserts a component into this vector.
+     * 
+     * @param index The position of the new component, from 0 to NDim inclusive.
+     * @param value The value of the new component.
+     * @returns A new NDimVector of NDim + 1 components.
+     */
+    public insertAt<I extends Position<NDim>>(index: I, value: T): NDimVector<Sum<NDim, 1>, T> {
+        return new NDimVector(insertAt(this.components, index, value), this.field)
+    }
+
+    /**
+     * Removes a component from this vector.
+     * 
+     * @param index The index of the component to remove.
+     * @returns A new NDimVector of NDim - 1 components.
+     */
+    public removeAt<I extends Index<NDim>>(index: I): NDimVector<Difference<NDim, 1>, T> {
+        return new NDimVector(removeAt(this.components, index), this.field)
+    }
+
+    // ****************** Dimension Specific Helpers *******************
+
+    /**
+     * Calculates the cross product of this vector with another vector. Only 
+     * available on 3-dimensional vectors.
+     * 
+     * @param other The right hand vector.
+     * @returns A new NDimVector perpendicular to both vectors.
+     */
+    public cross(this: NDimVector<3>, other: FArray<3, number> | NDimVector<3>): NDimVector<3> {
+        return new NDimVector<3>(cross(this.components, NDimVector.getComponents<3>(other)))
+    }
+
+    /**
+     * Calculates the perp dot product of this vector with another vector. Only 
+     * available on 2-dimensional vectors.
+     * 
+     * @param other The right hand vector.
+     * @returns The perp dot product as a number.
+     */
+    public perpDot(this: NDimVector<2>, other: FArray<2, number> | NDimVector<2>): number {
+        return perpDot(this.components, NDimVector.getComponents<2>(other))
+    }
+
+    /**
+     * Rotates this vector counter-clockwise about the origin. Only available on 
+     * 2-dimensional vectors.
+     * 
+     * @param theta The angle of rotation in radians.
+     * @returns A new NDimVector representing the rotated vector.
+     */
+    public rotate2d(this: NDimVector<2>, theta: number): NDimVector<2> {
+        return new NDimVector<2>(rotate2d(this.components, theta))
+    }
+
+    /**
+     * Rotates this vector about an axis. Only available on 3-dimensional vectors.
+     * 
+     * @param axis The axis of rotation.
+     * @param theta The angle of rotation in radians.
+     * @returns A new NDimVector representing the rotated vector.
+     */
+    public rotate3d(this: NDimVector<3>, axis: FArray<3, number> | NDimVector<3>, theta: number): NDimVector<3> {
+        return new NDimVector<3>(rotate3d(this.components, NDimVector.getComponents<3>(axis), theta))
+    }
+}
+
+/**
+ * The instance type of an N-dimensional vector. In addition to the class
+ * members, the labeled components (`x`, `y`, `z`, `w`) and GLSL-style
+ * swizzles (`xy`, `zyx`, `xxw`, ...) are typed for the components the vector
+ * has. Swizzles without repeated components can be assigned to, e.g.
+ * `v.xz = [1, 2]`.
+ * 
+ * @typeParam NDim - The dimension of the vector.
+ * @typeParam T - The scalar type of the components, defaults to number.
+ */
+export type NDimVector<NDim extends Dim, T = number> =
+    NDimVectorImpl<NDim, T> & NDimVectorComponents<NDim, T> & Swizzles<NDim, T> & { [index: number]: T }
+
+type Mutators =
+    | "setItem" | "copyFrom" | "addInPlace" | "subInPlace" | "mulInPlace" | "divInPlace"
+    | "addScaledInPlace" | "normalizeInPlace" | "lerpInPlace"
+
+/**
+ * An N-dimensional vector whose components cannot change. Components, labels
+ * and swizzles are read-only and the in-place methods cannot be called. A
+ * frozen vector can still be passed anywhere an NDimVector is read.
+ * 
+ * @typeParam NDim - The dimension of the vector.
+ * @typeParam T - The scalar type of the components, defaults to number.
+ */
+export type FrozenNDimVector<NDim extends Dim, T = number> =
+    Readonly<Omit<NDimVector<NDim, T>, "components" | Mutators>>
+    & { readonly components: FixedArray<NDim, T> & FArray<NDim, T> }
+    & { readonly [K in Mutators]: never }
+
+/**
+ * The arithmetic passed alongside a vector's components: optional for
+ * numbers, which default to `NumberField`, and required for any other scalar.
+ */
+type FieldArgument<T> = [T] extends [number] ? [field?: Ring<T>] : [field: Ring<T>]
+
+// The statics are picked so that only the constructor below is exposed, and
+// not the class's own, which would accept other scalars without their field.
+export const NDimVector = NDimVectorImpl as {
+    new <NDim extends Dim, T = number>(components: FArray<NDim, T>, ...field: FieldArgument<T>): NDimVector<NDim, T>
+} & Pick<typeof NDimVectorImpl, keyof typeof NDimVectorImpl>
+
+// Components are exposed through accessors on the prototype, so labeled,
+// indexed and swizzled access always reflect `components`.
+
+const defineAccessor = (name: string | number, get: (this: NDimVectorImpl<Dim>) => unknown, set: (this: NDimVectorImpl<Dim>, value: unknown) => void, target: object = NDimVectorImpl.prototype) =>
+    Object.defineProperty(target, name, { get, set, enumerable: false, configurable: true })
+
+const componentAccessor = (name: string | number, index: number, target?: object) =>
+    defineAccessor(name,
+        function () {
+            return this.components[index]
+        },
+        function (value: number) {
+            if (index >= this.length) {
+                throw new RangeError(`Component ${name} is out of range for a vector of length ${this.length}`)
+            }
+            this.components[index] = value
+        },
+        target)
+
+VectorComponentLabels.forEach((label, i) => componentAccessor(label, i))
+
+// The first indices are shared by every vector through the prototype. Longer
+// vectors get their remaining index accessors as own properties, so that one
+// long vector does not leave its indices on every other vector.
+const sharedIndexAccessors = 10
+
+for (let i = 0; i < sharedIndexAccessors; i++) componentAccessor(i, i)
+
+const defineOwnIndexAccessors = (vector: object, length: number) => {
+    for (let i = sharedIndexAccessors; i < length; i++) componentAccessor(i, i, vector)
 }
 
+swizzleNames.forEach(name =>
+    defineAccessor(name,
+        function () {
+            return isSwizzle(name, this.length)
+                ? new NDimVector(readSwizzle(this.components, name) as FArray<Dim, number>, this.field)
+                : undefined
+        },
+        function (value: FArray<Dim, number> | NDimVector<Dim>) {
+            if (!isSwizzle(name, this.length) || !isWritableSwizzle(name)) {
+                throw new TypeError(`Cannot assign to swizzle ${name} of a vector of length ${this.length}`)
+            }
+            writeSwizzle(this.components, name, NDimVector.getComponents(value))
+        }))
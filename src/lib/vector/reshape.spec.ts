@@ -0,0 +1,87 @@
+import test from 'ava';
+
+import { NDimVector } from './n-dim-vector';
+import { concat, drop, removeAt, take } from './reshape';
+
+const v = new NDimVector<3>([1, 2, 3]);
+
+test('concat', (t) => {
+  const joined: NDimVector<5> = v.concat([4, 5]);
+  t.deepEqual(joined.components, [1, 2, 3, 4, 5]);
+  t.is(joined.length, 5);
+  t.deepEqual(concat<1, 1>([1], [2]), [1, 2]);
+});
+
+test('slice, take and drop', (t) => {
+  const middle: NDimVector<2> = v.slice(1, 3);
+  const first: NDimVector<1> = v.take(1);
+  const rest: NDimVector<2> = v.drop(1);
+  t.deepEqual(middle.components, [2, 3]);
+  t.deepEqual(first.components, [1]);
+  t.deepEqual(rest.components, [2, 3]);
+  t.deepEqual(take<3, 0>([1, 2, 3], 0), []);
+  t.deepEqual(drop<3, 3>([1, 2, 3], 3), []);
+});
+
+test('extend and truncate', (t) => {
+  const extended: NDimVector<4> = v.extend(4);
+  const truncated: NDimVector<2> = v.truncate();
+  t.deepEqual(extended.components, [1, 2, 3, 4]);
+  t.deepEqual(extended.w, 4);
+  t.deepEqual(truncated.components, [1, 2]);
+});
+
+test('insertAt and removeAt', (t) => {
+  const inserted: NDimVector<4> = v.insertAt(0, 0);
+  const appended: NDimVector<4> = v.insertAt(3, 4);
+  const removed: NDimVector<2> = v.removeAt(1);
+  t.deepEqual(inserted.components, [0, 1, 2, 3]);
+  t.deepEqual(appended.components, [1, 2, 3, 4]);
+  t.deepEqual(removed.components, [1, 3]);
+  t.deepEqual(removeAt<2, 0>([1, 2], 0), [2]);
+});
+
+test('incorrect dimensions are rejected at compile time', (t) => {
+  const rejected = [
+    // @ts-expect-error concatenating 3 and 2 components gives 5, not 4
+    (): NDimVector<4> => v.concat([4, 5]),
+    // @ts-expect-error a 3-dimensional vector has no 4-component prefix
+    () => v.take(4),
+    // @ts-expect-error dropping 1 of 3 components leaves 2, not 1
+    (): NDimVector<1> => v.drop(1),
+    // @ts-expect-error slice bounds must lie within the vector
+    () => v.slice(0, 4),
+    // @ts-expect-error slicing [1, 3) gives 2 components, not 3
+    (): NDimVector<3> => v.slice(1, 3),
+    // @ts-expect-error extending gives 4 components, not 3
+    (): NDimVector<3> => v.extend(0),
+    // @ts-expect-error truncating gives 2 components, not 3
+    (): NDimVector<3> => v.truncate(),
+    // @ts-expect-error a component can be inserted at positions 0 to 3 only
+    () => v.insertAt(4, 0),
+    // @ts-expect-error a 3-dimensional vector has no component at index 3
+    () => v.removeAt(3),
+  ];
+  t.is(rejected.length, 9);
+});
+
+test('large dimensions type-check', (t) => {
+  const a = new NDimVector<200>(Array.from({ length: 200 }, (_, i) => i) as NDimVector<200>['components']);
+  const b = new NDimVector<300>(Array.from({ length: 300 }, () => 1) as NDimVector<300>['components']);
+  const joined: NDimVector<500> = a.concat(b);
+  t.is(joined.length, 500);
+  t.is(joined[150], 150);
+  t.is(joined[499], 1);
+  joined[499] = 2;
+  t.is(joined.components[499], 2);
+  t.false(150 in new NDimVector([1, 2]));
+  t.false(Object.prototype.hasOwnProperty.call(Object.getPrototypeOf(joined), 150));
+
+  const middle: NDimVector<250> = joined.slice(100, 350);
+  t.is(middle[0], 100);
+  const rejected = [
+    // @ts-expect-error dropping 1 of 500 components leaves 499, not 500
+    (): NDimVector<500> => joined.drop(1),
+  ];
+  t.is(rejected.length, 1);
+});
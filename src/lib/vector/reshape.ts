@@ -0,0 +1,107 @@
+import { FArray } from "../types/array.js"
+import { Add, IntegerRange, Subtract } from "../types/compile-time-math.js"
+import { Dim } from "./math.js"
+
+type NVec<N extends Dim, T> = FArray<N, T>
+
+/**
+ * The positions from 0 to N inclusive, e.g. the valid lengths of a prefix or
+ * the valid insertion points of an N-dimensional vector.
+ */
+export type Position<N extends Dim> = IntegerRange<N> & Dim
+
+/**
+ * The indices of the components of an N-dimensional vector, 0 to N - 1.
+ */
+export type Index<N extends Dim> = Exclude<IntegerRange<N>, N> & Dim
+
+/**
+ * The dimension of a vector with A + B components.
+ */
+export type Sum<A extends Dim, B extends Dim> = Add<A, B> & Dim
+
+/**
+ * The dimension of a vector with A - B components.
+ */
+export type Difference<A extends Dim, B extends Dim> = Subtract<A, B> & Dim
+
+/**
+ * Joins two vectors into one whose dimension is the sum of theirs.
+ *
+ * @param ls the vector supplying the leading components.
+ * @param rs the vector supplying the trailing components.
+ * @returns a vector of A + B components.
+ */
+export const concat = <A extends Dim, B extends Dim, T = number>(ls: NVec<A, T>, rs: NVec<B, T>): NVec<Sum<A, B>, T> =>
+    [...ls, ...rs] as unknown as NVec<Sum<A, B>, T>
+
+/**
+ * Extracts the components from `start` up to, but not including, `end`.
+ *
+ * @param vector the vector to slice.
+ * @param start the index of the first component to keep.
+ * @param end the index after the last component to keep.
+ * @returns a vector of E - S components.
+ */
+export const slice = <N extends Dim, S extends Position<N>, E extends Position<N>, T = number>(vector: NVec<N, T>, start: S, end: E): NVec<Difference<E, S>, T> =>
+    vector.slice(start, end) as unknown as NVec<Difference<E, S>, T>
+
+/**
+ * Keeps the first K components of a vector.
+ *
+ * @param vector the vector to shorten.
+ * @param count the number of components to keep.
+ * @returns a vector of K components.
+ */
+export const take = <N extends Dim, K extends Position<N>, T = number>(vector: NVec<N, T>, count: K): NVec<K, T> =>
+    vector.slice(0, count) as unknown as NVec<K, T>
+
+/**
+ * Removes the first K components of a vector.
+ *
+ * @param vector the vector to shorten.
+ * @param count the number of components to remove.
+ * @returns a vector of N - K components.
+ */
+export const drop = <N extends Dim, K extends Position<N>, T = number>(vector: NVec<N, T>, count: K): NVec<Difference<N, K>, T> =>
+    vector.slice(count) as unknown as NVec<Difference<N, K>, T>
+
+/**
+ * Appends a component to a vector.
+ *
+ * @param vector the vector to extend.
+ * @param value the value of the new last component.
+ * @returns a vector of N + 1 components.
+ */
+export const extend = <N extends Dim, T = number>(vector: NVec<N, T>, value: T): NVec<Sum<N, 1>, T> =>
+    [...vector, value] as unknown as NVec<Sum<N, 1>, T>
+
+/**
+ * Removes the last component of a vector.
+ *
+ * @param vector the vector to truncate.
+ * @returns a vector of N - 1 components.
+ */
+export const truncate = <N extends Dim, T = number>(vector: NVec<N, T>): NVec<Difference<N, 1>, T> =>
+    vector.slice(0, -1) as unknown as NVec<Difference<N, 1>, T>
+
+/**
+ * Inserts a component into a vector.
+ *
+ * @param vector the vector to insert into.
+ * @param index the position of the new component, from 0 to N inclusive.
+ * @param value the value of the new component.
+ * @returns a vector of N + 1 components.
+ */
+export const insertAt = <N extends Dim, I extends Position<N>, T = number>(vector: NVec<N, T>, index: I, value: T): NVec<Sum<N, 1>, T> =>
+    [...vector.slice(0, index), value, ...vector.slice(index)] as unknown as NVec<Sum<N, 1>, T>
+
+/**
+ * Removes a component from a vector.
+ *
+ * @param vector the vector to remove from.
+ * @param index the index of the component to remove, from 0 to N - 1.
+ * @returns a vector of N - 1 components.
+ */
+export const removeAt = <N extends Dim, I extends Index<N>, T = number>(vector: NVec<N, T>, index: I): NVec<Difference<N, 1>, T> =>
+    [...vector.slice(0, index), ...vector.slice(index + 1)] as unknown as NVec<Difference<N, 1>, T>
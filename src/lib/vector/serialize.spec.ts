@@ -0,0 +1,68 @@
+import test from 'ava';
+
+import { Maybe } from '../fn/maybe1';
+
+import { Dim } from './math';
+import { NDimVector } from './n-dim-vector';
+
+const unwrap = <N extends Dim>(maybe: Maybe<NDimVector<N>>) =>
+  maybe.match<unknown>({ just: (v) => v.components, none: () => 'none' });
+
+test('JSON round trip', (t) => {
+  const v = new NDimVector<3>([1, 2, 3]);
+  const json = JSON.stringify(v);
+  t.is(json, '[1,2,3]');
+  t.deepEqual(unwrap(NDimVector.fromJSON(3, json)), [1, 2, 3]);
+  t.deepEqual(unwrap(NDimVector.fromJSON(3, JSON.parse(json))), [1, 2, 3]);
+});
+
+test('fromJSON accepts the labeled form', (t) => {
+  t.deepEqual(unwrap(NDimVector.fromJSON(3, { x: 1, y: 2, z: 3 })), [1, 2, 3]);
+  t.deepEqual(unwrap(NDimVector.fromJSON(2, '{"y":2,"x":1}')), [1, 2]);
+  t.is(unwrap(NDimVector.fromJSON(2, { x: 1, z: 2 })), 'none');
+});
+
+test('fromJSON validates the dimension and values', (t) => {
+  t.is(unwrap(NDimVector.fromJSON(2, [1, 2, 3])), 'none');
+  t.is(unwrap(NDimVector.fromJSON(2, [1, '2'])), 'none');
+  t.is(unwrap(NDimVector.fromJSON(2, '[1, 2')), 'none');
+  t.is(unwrap(NDimVector.fromJSON(2, null)), 'none');
+});
+
+test('string round trip', (t) => {
+  const v = new NDimVector<3>([1, -2.5, 3e-7]);
+  t.is(v.toString(), '(1, -2.5, 3e-7)');
+  t.is(`${v}`, '(1, -2.5, 3e-7)');
+  t.deepEqual(unwrap(NDimVector.parse(3, v.toString())), [1, -2.5, 3e-7]);
+  t.deepEqual(unwrap(NDimVector.parse(2, ' [4,5] ')), [4, 5]);
+});
+
+test('parse rejects malformed input', (t) => {
+  t.is(unwrap(NDimVector.parse(3, '(1, 2)')), 'none');
+  t.is(unwrap(NDimVector.parse(2, '(1, two)')), 'none');
+  t.is(unwrap(NDimVector.parse(2, '(1,, 2)')), 'none');
+  t.is(unwrap(NDimVector.parse(2, '1, 2')), 'none');
+});
+
+test('parseResult explains failures', (t) => {
+  const error = (text: string) =>
+    NDimVector.parseResult(2, text).match({ ok: () => '', err: (e) => e.message });
+  t.is(error('1, 2'), 'Expected components enclosed in parentheses or brackets');
+  t.is(error('(1, 2, 3)'), 'Expected 2 components but found 3');
+  t.is(error('(1, two)'), 'Component 1 is not a finite number: "two"');
+  t.deepEqual(NDimVector.parseResult(2, '(1, 2)').getOrThrow().components, [1, 2]);
+});
+
+test('binary round trip', (t) => {
+  const v = new NDimVector<4>([1, 2, 3, Math.PI]);
+  const buffer = v.encode();
+  t.is(buffer.byteLength, 33);
+  t.deepEqual(unwrap(NDimVector.decode(4, buffer)), [1, 2, 3, Math.PI]);
+  t.is(unwrap(NDimVector.decode(3, buffer)), 'none');
+});
+
+test('binary round trip keeps non-finite components', (t) => {
+  const v = new NDimVector<3>([NaN, Infinity, -Infinity]);
+  t.deepEqual(unwrap(NDimVector.decode(3, v.encode())), [NaN, Infinity, -Infinity]);
+  t.deepEqual(unwrap(NDimVector.decode(2, new NDimVector<2>([NaN, 1]).encode())), [NaN, 1]);
+});
@@ -0,0 +1,224 @@
+import { Maybe } from "../fn/maybe1";
+import { Result } from "../fn/result";
+import { FArray } from "../types/array";
+import { NDimVectorComponents, VectorComponentLabels } from "./labels";
+import { Dim } from "./math";
+
+type NVec<N extends Dim> = FArray<N, number>
+
+/**
+ * The error reported when text cannot be parsed as a vector.
+ */
+export class ParseError extends SyntaxError {
+    constructor(message: string, public readonly text: string) {
+        super(message)
+        this.name = "ParseError"
+    }
+}
+
+/**
+ * The JSON representations accepted for an N-dimensional vector: either the
+ * tuple form `[1, 2, 3]` or the labeled form `{ "x": 1, "y": 2, "z": 3 }`.
+ */
+export type VectorJSON<N extends Dim> = NVec<N> | NDimVectorComponents<N>
+
+const isNumber = (value: unknown): value is number =>
+    typeof value === "number" && Number.isFinite(value)
+
+const withDim = <N extends Dim>(dim: N, components: unknown[]): Maybe<NVec<N>> =>
+    components.length === dim && components.every(isNumber)
+        ? Maybe.just(components as NVec<N>)
+        : Maybe.none<NVec<N>>()
+
+/**
+ * Converts a vector to its JSON tuple form.
+ *
+ * @param vector the vector to convert.
+ * @returns a plain array of the vector's components.
+ */
+export const toJSON = <N extends Dim>(vector: NVec<N>): number[] =>
+    Array.from(vector)
+
+/**
+ * Reads a vector from its JSON form. Accepts the tuple form or the labeled
+ * form, either already parsed or as a JSON string.
+ *
+ * @param dim the expected dimension of the vector.
+ * @param json the JSON value or string to read.
+ * @returns the vector, or none if the input is malformed or has the wrong dimension.
+ */
+export const fromJSON = <N extends Dim>(dim: N, json: unknown): Maybe<NVec<N>> => {
+    if (typeof json === "string") {
+        try {
+            return fromJSON(dim, JSON.parse(json))
+        } catch {
+            return Maybe.none<NVec<N>>()
+        }
+    }
+
+    if (Array.isArray(json)) {
+        return withDim(dim, json)
+    }
+
+    if (typeof json === "object" && json !== null && dim <= VectorComponentLabels.length) {
+        const keys = Object.keys(json)
+        const labels = VectorComponentLabels.slice(0, dim)
+        return keys.length === dim && labels.every(label => keys.indexOf(label) !== -1)
+            ? withDim(dim, labels.map(label => json[label]))
+            : Maybe.none<NVec<N>>()
+    }
+
+    return Maybe.none<NVec<N>>()
+}
+
+/**
+ * Reads a vector of any dimension from its JSON form, taking the dimension
+ * from the input.
+ *
+ * @param json the JSON value or string to read.
+ * @returns the components, or none if the input is malformed.
+ */
+export const fromJSONAny = (json: unknown): Maybe<number[]> => {
+    if (typeof json === "string") {
+        try {
+            return fromJSONAny(JSON.parse(json))
+        } catch {
+            return Maybe.none<number[]>()
+        }
+    }
+
+    const dim = Array.isArray(json) ? json.length
+        : typeof json === "object" && json !== null ? Object.keys(json).length
+        : 0
+    return fromJSON(dim, json).map(components => Array.from(components))
+}
+
+/**
+ * Formats a vector as human readable text, e.g. `(1, 2, 3)`.
+ *
+ * @param vector the vector to format.
+ * @returns the formatted vector.
+ */
+export const format = <N extends Dim, T = number>(vector: FArray<N, T>): string =>
+    `(${Array.from(vector).join(", ")})`
+
+/**
+ * Parses a vector from the text produced by `format`. Surrounding whitespace
+ * is ignored and square brackets are accepted in place of parentheses.
+ *
+ * @param dim the expected dimension of the vector.
+ * @param text the text to parse.
+ * @returns the vector, or none if the text is malformed or has the wrong dimension.
+ */
+export const parse = <N extends Dim>(dim: N, text: string): Maybe<NVec<N>> =>
+    parseResult(dim, text).toMaybe()
+
+/**
+ * Parses a vector from the text produced by `format`, reporting why when the
+ * text is not a vector of the expected dimension.
+ *
+ * @param dim the expected dimension of the vector.
+ * @param text the text to parse.
+ * @returns the vector, or a ParseError describing what is wrong with the text.
+ */
+export const parseResult = <N extends Dim>(dim: N, text: string): Result<NVec<N>, ParseError> =>
+    parseComponents(text, dim) as Result<NVec<N>, ParseError>
+
+/**
+ * Parses a vector of any dimension from the text produced by `format`.
+ *
+ * @param text the text to parse.
+ * @returns the components, or a ParseError describing what is wrong with the text.
+ */
+export const parseAnyResult = (text: string): Result<number[], ParseError> =>
+    parseComponents(text)
+
+const parseComponents = (text: string, dim?: number): Result<number[], ParseError> => {
+    const match = /^\s*[([]([^()[\]]*)[)\]]\s*$/.exec(text)
+    if (match === null) {
+        return Result.err(new ParseError("Expected components enclosed in parentheses or brackets", text))
+    }
+
+    const parts = match[1].trim() === "" ? [] : match[1].split(",")
+    if (dim !== undefined && parts.length !== dim) {
+        return Result.err(new ParseError(`Expected ${dim} components but found ${parts.length}`, text))
+    }
+
+    const components = parts.map(part => part.trim() === "" ? NaN : Number(part))
+    const invalid = components.findIndex(n => !isNumber(n))
+    return invalid === -1
+        ? Result.ok(components)
+        : Result.err(new ParseError(`Component ${invalid} is not a finite number: "${parts[invalid].trim()}"`, text))
+}
+
+// Dimensions below this are stored in the first byte. Larger ones store this
+// marker followed by the dimension as a little-endian 32-bit integer.
+const LONG_DIMENSION = 0xff
+
+const headerSize = (dim: number): number =>
+    dim < LONG_DIMENSION ? 1 : 1 + Uint32Array.BYTES_PER_ELEMENT
+
+/**
+ * Encodes a vector into a compact binary form: the dimension followed by each
+ * component as a little-endian 64-bit float. Dimensions below 255 take one
+ * byte; larger ones take the byte 255 followed by a 32-bit dimension.
+ *
+ * Unlike the text forms, the binary form holds any float64 exactly, NaN and
+ * the infinities included, so every vector survives a round trip.
+ *
+ * @param vector the vector to encode.
+ * @returns a buffer holding the encoded vector.
+ */
+export const encode = <N extends Dim>(vector: NVec<N>): ArrayBuffer => {
+    const header = headerSize(vector.length)
+    const buffer = new ArrayBuffer(header + vector.length * Float64Array.BYTES_PER_ELEMENT)
+    const view = new DataView(buffer)
+    if (vector.length < LONG_DIMENSION) {
+        view.setUint8(0, vector.length)
+    } else {
+        view.setUint8(0, LONG_DIMENSION)
+        view.setUint32(1, vector.length, true)
+    }
+    Array.from(vector).forEach((n, i) =>
+        view.setFloat64(header + i * Float64Array.BYTES_PER_ELEMENT, n, true))
+    return buffer
+}
+
+/**
+ * Decodes a vector from the binary form produced by `encode`.
+ *
+ * @param dim the expected dimension of the vector.
+ * @param buffer the buffer to decode.
+ * @returns the vector, or none if the buffer is malformed or has the wrong dimension.
+ */
+export const decode = <N extends Dim>(dim: N, buffer: ArrayBuffer): Maybe<NVec<N>> =>
+    decodeAny(buffer).flatMap(components =>
+        components.length === dim ? Maybe.just(components as NVec<N>) : Maybe.none<NVec<N>>())
+
+/**
+ * Decodes a vector of any dimension from the binary form produced by `encode`.
+ * Any float64 is accepted as a component, including NaN and the infinities.
+ *
+ * @param buffer the buffer to decode.
+ * @returns the components, or none if the buffer is malformed.
+ */
+export const decodeAny = (buffer: ArrayBuffer): Maybe<number[]> => {
+    if (buffer.byteLength < 1) {
+        return Maybe.none<number[]>()
+    }
+
+    const view = new DataView(buffer)
+    const long = view.getUint8(0) === LONG_DIMENSION
+    if (long && buffer.byteLength < headerSize(LONG_DIMENSION)) {
+        return Maybe.none<number[]>()
+    }
+
+    const dim = long ? view.getUint32(1, true) : view.getUint8(0)
+    const header = headerSize(dim)
+    if ((dim >= LONG_DIMENSION) !== long || buffer.byteLength !== header + dim * Float64Array.BYTES_PER_ELEMENT) {
+        return Maybe.none<number[]>()
+    }
+
+    return Maybe.just(Array.from({ length: dim }, (_, i) =>
+        view.getFloat64(header + i * Float64Array.BYTES_PER_ELEMENT, true)))
+}
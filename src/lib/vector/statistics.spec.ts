@@ -0,0 +1,73 @@
+import test from 'ava';
+
+import { NDimVector } from './n-dim-vector';
+import {
+  boundingBox,
+  boundingSphere,
+  centroid,
+  covariance,
+  principalComponents,
+  variance,
+  weightedMean,
+} from './statistics';
+
+const approx = (actual: number, expected: number) =>
+  Math.abs(actual - expected) < 1e-9;
+
+const square: [number, number][] = [
+  [0, 0],
+  [2, 0],
+  [2, 2],
+  [0, 2],
+];
+
+test('centroid and weighted mean', (t) => {
+  t.deepEqual(centroid(square).components, [1, 1]);
+  t.deepEqual(weightedMean(square, [1, 1, 0, 0]).components, [1, 0]);
+  t.throws(() => centroid([]), { instanceOf: RangeError });
+});
+
+test('variance and covariance', (t) => {
+  const points = [
+    new NDimVector<2>([1, 2]),
+    new NDimVector<2>([3, 6]),
+    new NDimVector<2>([5, 10]),
+  ];
+  const v = variance(points);
+  t.true(approx(v.x, 8 / 3));
+  t.true(approx(v.y, 32 / 3));
+  t.deepEqual(variance(points, true).components, [4, 16]);
+  t.deepEqual(covariance(points, true).components, [
+    [4, 8],
+    [8, 16],
+  ]);
+});
+
+test('principal components', (t) => {
+  const points: [number, number][] = [
+    [-2, -2],
+    [-1, -1],
+    [1, 1],
+    [2, 2],
+    [0.1, -0.1],
+    [-0.1, 0.1],
+  ];
+  const [first, second] = principalComponents(points);
+  t.true(first.variance > second.variance);
+  t.true(approx(Math.abs(first.direction.dot([Math.SQRT1_2, Math.SQRT1_2])), 1));
+  t.true(approx(first.direction.dot(second.direction), 0));
+});
+
+test('bounding box and sphere', (t) => {
+  const box = boundingBox<2>([
+    [1, -1],
+    [-3, 2],
+    [0, 5],
+  ]);
+  t.deepEqual(box.min.components, [-3, -1]);
+  t.deepEqual(box.max.components, [1, 5]);
+
+  const sphere = boundingSphere(square);
+  t.true(square.every((p) => sphere.center.distance(p) <= sphere.radius + 1e-9));
+  t.true(approx(sphere.radius, Math.SQRT2));
+});
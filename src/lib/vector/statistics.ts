@@ -0,0 +1,174 @@
+import { symmetricEigen } from "../matrix/decompositions";
+import { generate } from "../matrix/math";
+import { NDimMatrix } from "../matrix/n-dim-matrix";
+import { FArray } from "../types/array";
+import { add, Dim, distance, mul, sub } from "./math";
+import { NDimVector } from "./n-dim-vector";
+
+type Point<N extends Dim> = FArray<N, number> | NDimVector<N>
+
+/**
+ * An axis-aligned box given by its minimum and maximum corners.
+ */
+export type BoundingBox<N extends Dim> = { min: NDimVector<N>; max: NDimVector<N> }
+
+/**
+ * A sphere (or circle, or hypersphere) given by its center and radius.
+ */
+export type BoundingSphere<N extends Dim> = { center: NDimVector<N>; radius: number }
+
+/**
+ * A principal axis of a point set: a unit direction and the variance of the
+ * points along it.
+ */
+export type PrincipalComponent<N extends Dim> = { direction: NDimVector<N>; variance: number }
+
+const componentsOf = <N extends Dim>(points: Point<N>[]): FArray<N, number>[] => {
+    if (points.length === 0) {
+        throw new RangeError("At least one point is required")
+    }
+    return points.map(p => NDimVector.getComponents<N>(p))
+}
+
+const reduceComponents = <N extends Dim>(points: FArray<N, number>[], fn: (acc: number, n: number) => number): NDimVector<N> =>
+    new NDimVector<N>(points.slice(1).reduce(
+        (acc, p) => acc.map((n, i) => fn(n, p[i])) as FArray<N, number>,
+        [...points[0]] as FArray<N, number>
+    ))
+
+/**
+ * Calculates the centroid, the arithmetic mean, of a set of points.
+ *
+ * @param points the points to average; must not be empty.
+ * @returns the centroid of the points.
+ */
+export const centroid = <N extends Dim>(points: Point<N>[]): NDimVector<N> => {
+    const ps = componentsOf(points)
+    return new NDimVector<N>(mul(ps.reduce((acc, p) => add(acc, p)), 1 / ps.length))
+}
+
+/**
+ * Calculates the weighted mean of a set of points.
+ *
+ * @param points the points to average; must not be empty.
+ * @param weights one weight per point; they do not need to sum to 1.
+ * @returns the weighted mean of the points.
+ */
+export const weightedMean = <N extends Dim>(points: Point<N>[], weights: number[]): NDimVector<N> => {
+    const ps = componentsOf(points)
+    if (weights.length !== ps.length) {
+        throw new RangeError("Expected one weight per point")
+    }
+
+    const total = weights.reduce((acc, w) => acc + w, 0)
+    const sum = ps.reduce((acc, p, i) => add(acc, mul(p, weights[i])), mul(ps[0], 0))
+    return new NDimVector<N>(mul(sum, 1 / total))
+}
+
+/**
+ * Calculates the component-wise minimum of a set of points.
+ *
+ * @param points the points to compare; must not be empty.
+ * @returns a vector holding the smallest value of each component.
+ */
+export const componentMin = <N extends Dim>(points: Point<N>[]): NDimVector<N> =>
+    reduceComponents(componentsOf(points), Math.min)
+
+/**
+ * Calculates the component-wise maximum of a set of points.
+ *
+ * @param points the points to compare; must not be empty.
+ * @returns a vector holding the largest value of each component.
+ */
+export const componentMax = <N extends Dim>(points: Point<N>[]): NDimVector<N> =>
+    reduceComponents(componentsOf(points), Math.max)
+
+/**
+ * Calculates the variance of each component of a set of points.
+ *
+ * @param points the points; must not be empty.
+ * @param sample if true, divides by `n - 1` for an unbiased sample estimate
+ * instead of by `n`.
+ * @returns a vector holding the variance of each component.
+ */
+export const variance = <N extends Dim>(points: Point<N>[], sample: boolean = false): NDimVector<N> => {
+    const ps = componentsOf(points)
+    const mean = centroid(ps).components
+    const squares = ps.map(p => sub(p, mean).map(d => d * d) as FArray<N, number>)
+    return new NDimVector<N>(mul(squares.reduce((acc, s) => add(acc, s)), 1 / (ps.length - (sample ? 1 : 0))))
+}
+
+/**
+ * Calculates the covariance matrix of a set of points.
+ *
+ * @param points the points; must not be empty.
+ * @param sample if true, divides by `n - 1` for an unbiased sample estimate
+ * instead of by `n`.
+ * @returns the N x N covariance matrix.
+ */
+export const covariance = <N extends Dim>(points: Point<N>[], sample: boolean = false): NDimMatrix<N, N> => {
+    const ps = componentsOf(points)
+    const mean = centroid(ps).components
+    const deviations = ps.map(p => sub(p, mean))
+    const n = mean.length as N
+    const divisor = ps.length - (sample ? 1 : 0)
+
+    return new NDimMatrix<N, N>(generate(n, n, (r, c) =>
+        deviations.reduce((acc, d) => acc + d[r] * d[c], 0) / divisor))
+}
+
+/**
+ * Performs principal component analysis on a set of points: the eigenvectors
+ * and eigenvalues of their covariance matrix.
+ *
+ * @param points the points; must not be empty.
+ * @returns the principal axes, ordered from largest to smallest variance.
+ */
+export const principalComponents = <N extends Dim>(points: Point<N>[]): PrincipalComponent<N>[] => {
+    const { values, vectors } = symmetricEigen(covariance(points).components)
+    return values.map((value, i) => ({
+        direction: new NDimMatrix(vectors).column(i),
+        variance: value,
+    }))
+}
+
+/**
+ * Calculates the smallest axis-aligned box containing a set of points.
+ *
+ * @param points the points to bound; must not be empty.
+ * @returns the minimum and maximum corners of the box.
+ */
+export const boundingBox = <N extends Dim>(points: Point<N>[]): BoundingBox<N> => ({
+    min: componentMin(points),
+    max: componentMax(points),
+})
+
+/**
+ * Calculates a sphere containing a set of points using Ritter's algorithm.
+ * The result is not necessarily the smallest enclosing sphere, but is
+ * typically within a few percent of it.
+ *
+ * @param points the points to bound; must not be empty.
+ * @returns the center and radius of the sphere.
+ */
+export const boundingSphere = <N extends Dim>(points: Point<N>[]): BoundingSphere<N> => {
+    const ps = componentsOf(points)
+    const farthestFrom = (from: FArray<N, number>) =>
+        ps.reduce((best, p) => distance(p, from) > distance(best, from) ? p : best)
+
+    const a = farthestFrom(ps[0])
+    const b = farthestFrom(a)
+    let center = mul(add(a, b), 0.5)
+    let radius = distance(a, b) / 2
+
+    ps.forEach(p => {
+        const d = distance(p, center)
+        if (d > radius) {
+            const newRadius = (radius + d) / 2
+            center = add(center, mul(sub(p, center), (newRadius - radius) / d))
+            radius = newRadius
+        }
+    })
+
+    return { center: new NDimVector<N>(center), radius }
+}
@@ -0,0 +1,188 @@
+import { FArray } from "../types/array";
+import { NDimVectorComponentLabels, VectorComponentLabels } from "./labels";
+import { Dim } from "./math";
+import { NDimVector } from "./n-dim-vector";
+
+type Labels<N extends Dim> = NDimVectorComponentLabels<N>[number]
+
+/**
+ * The values that may be assigned to a writable swizzle of K components.
+ */
+export type SwizzleValue<K extends Dim, T = number> = FArray<K, T> | NDimVector<K, T>
+
+/**
+ * True if any character of the string `S` appears more than once.
+ */
+type HasDuplicate<S extends string> =
+    S extends `${infer First}${infer Rest}`
+        ? Rest extends `${string}${First}${string}` ? true : HasDuplicate<Rest>
+        : false
+
+type Swizzles2<L extends string> = `${L}${L}`
+type Swizzles3<L extends string> = `${L}${L}${L}`
+type Swizzles4<L extends string> = `${L}${L}${L}${L}`
+
+/**
+ * Swizzles that repeat a component, such as `xx` or `xyx`. These can only be
+ * read, as in GLSL.
+ */
+type ReadonlySwizzles<N extends Dim, T> =
+    & { readonly [K in Swizzles2<Labels<N>> as HasDuplicate<K> extends true ? K : never]: NDimVector<2, T> }
+    & { readonly [K in Swizzles3<Labels<N>> as HasDuplicate<K> extends true ? K : never]: NDimVector<3, T> }
+    & { readonly [K in Swizzles4<Labels<N>> as HasDuplicate<K> extends true ? K : never]: NDimVector<4, T> }
+
+// Swizzles without repeated components can also be assigned to. Reads and
+// writes have different types, which mapped types cannot express, so they are
+// listed explicitly. Each group only adds the swizzles that use its newest
+// component.
+
+interface WritableSwizzles2<T> {
+    get xy(): NDimVector<2, T>; set xy(value: SwizzleValue<2, T>)
+    get yx(): NDimVector<2, T>; set yx(value: SwizzleValue<2, T>)
+}
+
+interface WritableSwizzles3<T> extends WritableSwizzles2<T> {
+    get xz(): NDimVector<2, T>; set xz(value: SwizzleValue<2, T>)
+    get yz(): NDimVector<2, T>; set yz(value: SwizzleValue<2, T>)
+    get zx(): NDimVector<2, T>; set zx(value: SwizzleValue<2, T>)
+    get zy(): NDimVector<2, T>; set zy(value: SwizzleValue<2, T>)
+    get xyz(): NDimVector<3, T>; set xyz(value: SwizzleValue<3, T>)
+    get xzy(): NDimVector<3, T>; set xzy(value: SwizzleValue<3, T>)
+    get yxz(): NDimVector<3, T>; set yxz(value: SwizzleValue<3, T>)
+    get yzx(): NDimVector<3, T>; set yzx(value: SwizzleValue<3, T>)
+    get zxy(): NDimVector<3, T>; set zxy(value: SwizzleValue<3, T>)
+    get zyx(): NDimVector<3, T>; set zyx(value: SwizzleValue<3, T>)
+}
+
+interface WritableSwizzles4<T> extends WritableSwizzles3<T> {
+    get xw(): NDimVector<2, T>; set xw(value: SwizzleValue<2, T>)
+    get yw(): NDimVector<2, T>; set yw(value: SwizzleValue<2, T>)
+    get zw(): NDimVector<2, T>; set zw(value: SwizzleValue<2, T>)
+    get wx(): NDimVector<2, T>; set wx(value: SwizzleValue<2, T>)
+    get wy(): NDimVector<2, T>; set wy(value: SwizzleValue<2, T>)
+    get wz(): NDimVector<2, T>; set wz(value: SwizzleValue<2, T>)
+    get xyw(): NDimVector<3, T>; set xyw(value: SwizzleValue<3, T>)
+    get xzw(): NDimVector<3, T>; set xzw(value: SwizzleValue<3, T>)
+    get xwy(): NDimVector<3, T>; set xwy(value: SwizzleValue<3, T>)
+    get xwz(): NDimVector<3, T>; set xwz(value: SwizzleValue<3, T>)
+    get yxw(): NDimVector<3, T>; set yxw(value: SwizzleValue<3, T>)
+    get yzw(): NDimVector<3, T>; set yzw(value: SwizzleValue<3, T>)
+    get ywx(): NDimVector<3, T>; set ywx(value: SwizzleValue<3, T>)
+    get ywz(): NDimVector<3, T>; set ywz(value: SwizzleValue<3, T>)
+    get zxw(): NDimVector<3, T>; set zxw(value: SwizzleValue<3, T>)
+    get zyw(): NDimVector<3, T>; set zyw(value: SwizzleValue<3, T>)
+    get zwx(): NDimVector<3, T>; set zwx(value: SwizzleValue<3, T>)
+    get zwy(): NDimVector<3, T>; set zwy(value: SwizzleValue<3, T>)
+    get wxy(): NDimVector<3, T>; set wxy(value: SwizzleValue<3, T>)
+    get wxz(): NDimVector<3, T>; set wxz(value: SwizzleValue<3, T>)
+    get wyx(): NDimVector<3, T>; set wyx(value: SwizzleValue<3, T>)
+    get wyz(): NDimVector<3, T>; set wyz(value: SwizzleValue<3, T>)
+    get wzx(): NDimVector<3, T>; set wzx(value: SwizzleValue<3, T>)
+    get wzy(): NDimVector<3, T>; set wzy(value: SwizzleValue<3, T>)
+    get xyzw(): NDimVector<4, T>; set xyzw(value: SwizzleValue<4, T>)
+    get xywz(): NDimVector<4, T>; set xywz(value: SwizzleValue<4, T>)
+    get xzyw(): NDimVector<4, T>; set xzyw(value: SwizzleValue<4, T>)
+    get xzwy(): NDimVector<4, T>; set xzwy(value: SwizzleValue<4, T>)
+    get xwyz(): NDimVector<4, T>; set xwyz(value: SwizzleValue<4, T>)
+    get xwzy(): NDimVector<4, T>; set xwzy(value: SwizzleValue<4, T>)
+    get yxzw(): NDimVector<4, T>; set yxzw(value: SwizzleValue<4, T>)
+    get yxwz(): NDimVector<4, T>; set yxwz(value: SwizzleValue<4, T>)
+    get yzxw(): NDimVector<4, T>; set yzxw(value: SwizzleValue<4, T>)
+    get yzwx(): NDimVector<4, T>; set yzwx(value: SwizzleValue<4, T>)
+    get ywxz(): NDimVector<4, T>; set ywxz(value: SwizzleValue<4, T>)
+    get ywzx(): NDimVector<4, T>; set ywzx(value: SwizzleValue<4, T>)
+    get zxyw(): NDimVector<4, T>; set zxyw(value: SwizzleValue<4, T>)
+    get zxwy(): NDimVector<4, T>; set zxwy(value: SwizzleValue<4, T>)
+    get zyxw(): NDimVector<4, T>; set zyxw(value: SwizzleValue<4, T>)
+    get zywx(): NDimVector<4, T>; set zywx(value: SwizzleValue<4, T>)
+    get zwxy(): NDimVector<4, T>; set zwxy(value: SwizzleValue<4, T>)
+    get zwyx(): NDimVector<4, T>; set zwyx(value: SwizzleValue<4, T>)
+    get wxyz(): NDimVector<4, T>; set wxyz(value: SwizzleValue<4, T>)
+    get wxzy(): NDimVector<4, T>; set wxzy(value: SwizzleValue<4, T>)
+    get wyxz(): NDimVector<4, T>; set wyxz(value: SwizzleValue<4, T>)
+    get wyzx(): NDimVector<4, T>; set wyzx(value: SwizzleValue<4, T>)
+    get wzxy(): NDimVector<4, T>; set wzxy(value: SwizzleValue<4, T>)
+    get wzyx(): NDimVector<4, T>; set wzyx(value: SwizzleValue<4, T>)
+}
+
+type WritableSwizzles<N extends Dim, T> =
+    N extends 0 | 1 ? unknown
+    : N extends 2 ? WritableSwizzles2<T>
+    : N extends 3 ? WritableSwizzles3<T>
+    : WritableSwizzles4<T>
+
+/**
+ * GLSL-style swizzles available on an N-dimensional vector. Only the
+ * components the vector has can be used, so `xw` is not available on a
+ * 3-dimensional vector.
+ *
+ * @typeParam N - The dimension of the vector.
+ * @typeParam T - The scalar type of the components, defaults to number.
+ */
+export type Swizzles<N extends Dim, T = number> = ReadonlySwizzles<N, T> & WritableSwizzles<N, T>
+
+const swizzlePattern = /^[xyzw]{2,4}$/
+
+const extendNames = (names: readonly string[]): string[] =>
+    names.reduce<string[]>((acc, name) => acc.concat(VectorComponentLabels.map(label => name + label)), [])
+
+const swizzles2 = extendNames(VectorComponentLabels)
+const swizzles3 = extendNames(swizzles2)
+const swizzles4 = extendNames(swizzles3)
+
+/**
+ * Every swizzle of 2 to 4 components that can be formed from the component
+ * labels, regardless of the dimension of any particular vector.
+ */
+export const swizzleNames: readonly string[] = [...swizzles2, ...swizzles3, ...swizzles4]
+
+const labelIndex = (label: string): number =>
+    VectorComponentLabels.indexOf(label as typeof VectorComponentLabels[number])
+
+/**
+ * Determines whether a property name is a swizzle of a vector with `dim`
+ * components.
+ *
+ * @param prop the property name.
+ * @param dim the dimension of the vector.
+ * @returns true if every character of `prop` names a component of the vector.
+ */
+export const isSwizzle = (prop: string, dim: number): boolean =>
+    swizzlePattern.test(prop) && prop.split("").every(label => labelIndex(label) < dim)
+
+/**
+ * Determines whether a swizzle can be assigned to, which requires that it
+ * names each component at most once.
+ *
+ * @param swizzle the swizzle to check.
+ * @returns true if no component is repeated.
+ */
+export const isWritableSwizzle = (swizzle: string): boolean =>
+    swizzle.split("").every((label, i) => swizzle.indexOf(label) === i)
+
+/**
+ * Reads the components named by a swizzle.
+ *
+ * @param components the components of the vector.
+ * @param swizzle the swizzle, such as `zyx`.
+ * @returns the selected components, in swizzle order.
+ */
+export const readSwizzle = <T>(components: ArrayLike<T>, swizzle: string): T[] =>
+    swizzle.split("").map(label => components[labelIndex(label)])
+
+/**
+ * Writes values to the components named by a swizzle.
+ *
+ * @param components the components of the vector to update.
+ * @param swizzle the swizzle, such as `xz`.
+ * @param values the new values, in swizzle order, one per label.
+ * @throws RangeError if there are not exactly as many values as labels.
+ */
+export const writeSwizzle = <T>(components: { [index: number]: T }, swizzle: string, values: ArrayLike<T>): void => {
+    if (values.length !== swizzle.length) {
+        throw new RangeError(`Swizzle ${swizzle} needs ${swizzle.length} values but was given ${values.length}`)
+    }
+    swizzle.split("").forEach((label, i) => {
+        components[labelIndex(label)] = values[i]
+    })
+}
@@ -0,0 +1,93 @@
+import test from 'ava';
+
+import { NDimMatrix } from '../matrix/n-dim-matrix';
+
+import { DimensionMismatchError } from './dyn-vector';
+import { Dim } from './math';
+import { NDimVector } from './n-dim-vector';
+import { VectorBuffer } from './vector-buffer';
+
+test('views share storage with the buffer', (t) => {
+  const buffer = VectorBuffer.from(2, [
+    [1, 2],
+    [3, 4],
+  ]);
+  const view = buffer.at(1);
+
+  t.is(view.getItem(0), 3);
+  view.setItem(0, 10);
+  t.deepEqual(Array.from(buffer.data), [1, 2, 10, 4]);
+
+  buffer.scale(2);
+  t.is(view.getItem(1), 8);
+  t.is(view.magnitude, Math.sqrt(20 * 20 + 8 * 8));
+});
+
+test('batched add, sub and dot', (t) => {
+  const a = VectorBuffer.from(3, [
+    [1, 0, 0],
+    [0, 2, 0],
+  ]);
+  const b = VectorBuffer.from(3, [
+    [1, 1, 1],
+    [2, 2, 2],
+  ]);
+
+  t.deepEqual(Array.from(a.clone().add(b).data), [2, 1, 1, 2, 4, 2]);
+  t.deepEqual(Array.from(a.clone().sub([1, 1, 1]).data), [0, -1, -1, -1, 1, -1]);
+  t.deepEqual(Array.from(a.dot(b)), [1, 4]);
+  t.deepEqual(Array.from(a.dot(new NDimVector<3>([0, 1, 0]))), [0, 2]);
+});
+
+test('mismatched operands are rejected', (t) => {
+  const buffer = VectorBuffer.from(2, [[1, 2], [3, 4]]);
+  const shorter = VectorBuffer.from(2, [[1, 1]]);
+  const wider = VectorBuffer.from<Dim>(4, [[1, 1, 1, 1]]) as unknown as VectorBuffer<2>;
+  t.throws(() => buffer.add(shorter), { instanceOf: RangeError });
+  t.throws(() => buffer.sub(shorter), { instanceOf: RangeError });
+  t.throws(() => buffer.dot(shorter), { instanceOf: RangeError });
+  t.throws(() => buffer.add(wider), { instanceOf: DimensionMismatchError });
+  t.throws(() => buffer.add([1, 2, 3] as unknown as [number, number]), { instanceOf: DimensionMismatchError });
+  t.deepEqual(Array.from(buffer.data), [1, 2, 3, 4]);
+});
+
+test('sizes and indices are validated', (t) => {
+  t.throws(() => new VectorBuffer(3, new Float64Array(7)), { instanceOf: RangeError });
+  t.throws(() => new VectorBuffer(0, new Float64Array(0)), { instanceOf: RangeError });
+  t.throws(() => new VectorBuffer(1.5, new Float64Array(3)), { instanceOf: RangeError });
+
+  const buffer = VectorBuffer.allocate(3, 2);
+  t.is(buffer.count, 2);
+  [-1, 2, 5, 0.5, NaN].forEach((index) => {
+    t.throws(() => buffer.at(index), { instanceOf: RangeError }, `at(${index})`);
+    t.throws(() => buffer.set(index, [1, 2, 3]), { instanceOf: RangeError }, `set(${index})`);
+  });
+  t.throws(() => buffer.set(0, [1, 2] as unknown as [number, number, number]), { instanceOf: DimensionMismatchError });
+  t.deepEqual(Array.from(buffer.data), [0, 0, 0, 0, 0, 0]);
+});
+
+test('normalize and magnitudes', (t) => {
+  const buffer = VectorBuffer.from(2, [
+    [3, 4],
+    [0, 5],
+  ]);
+  t.deepEqual(Array.from(buffer.magnitudes()), [5, 5]);
+  t.deepEqual(Array.from(buffer.normalize().data), [0.6, 0.8, 0, 1]);
+});
+
+test('transformBy', (t) => {
+  const buffer = VectorBuffer.from(
+    2,
+    [
+      [1, 0],
+      [0, 1],
+    ],
+    Float32Array
+  );
+  const rotate = NDimMatrix.from<2, 2>([
+    [0, -1],
+    [1, 0],
+  ]);
+  t.true(buffer.data instanceof Float32Array);
+  t.deepEqual(Array.from(buffer.transformBy(rotate).data), [0, 1, -1, 0]);
+});
@@ -0,0 +1,267 @@
+import { NMat } from "../matrix/math";
+import { NDimMatrix } from "../matrix/n-dim-matrix";
+import { FArray } from "../types/array";
+import { DimensionMismatchError } from "./dyn-vector";
+import { addInto, scaleInto, subInto, VecSource } from "./in-place";
+import { Dim } from "./math";
+import { NDimVector } from "./n-dim-vector";
+
+type FloatArray = Float32Array | Float64Array
+
+type FloatArrayConstructor = Float32ArrayConstructor | Float64ArrayConstructor
+
+/**
+ * Stores many N-dimensional vectors contiguously in a single typed array, so
+ * large point sets can be processed without allocating an object per vector.
+ * Vector `i` occupies `data[i * N]` through `data[i * N + N - 1]`.
+ *
+ * Batched operations mutate the buffer and return `this` so calls can be
+ * chained.
+ *
+ * @typeParam N - The dimension of every vector in the buffer.
+ */
+export class VectorBuffer<N extends Dim> {
+    public readonly dim: N
+    public readonly data: FloatArray
+
+    /**
+     * @param dim The dimension of each vector, a positive integer.
+     * @param data The components of every vector, a whole number of vectors long.
+     * @throws RangeError if the dimension is invalid or does not divide the data.
+     */
+    constructor(dim: N, data: FloatArray) {
+        if (!(Number.isInteger(dim) && dim > 0)) {
+            throw new RangeError(`The dimension of a vector buffer must be a positive integer, got ${dim}`)
+        }
+        if (data.length % dim !== 0) {
+            throw new RangeError(`${data.length} components do not make whole vectors of dimension ${dim}`)
+        }
+        this.dim = dim
+        this.data = data
+    }
+
+    /**
+     * Allocates a zero-filled buffer.
+     *
+     * @param dim The dimension of each vector.
+     * @param count The number of vectors.
+     * @param storage The typed array to store components in, defaults to Float64Array.
+     * @returns A new VectorBuffer.
+     */
+    public static allocate<N extends Dim>(dim: N, count: number, storage: FloatArrayConstructor = Float64Array): VectorBuffer<N> {
+        return new VectorBuffer<N>(dim, new storage(dim * count))
+    }
+
+    /**
+     * Packs a list of vectors into a new buffer.
+     *
+     * @param dim The dimension of each vector.
+     * @param vectors The vectors to copy into the buffer.
+     * @param storage The typed array to store components in, defaults to Float64Array.
+     * @returns A new VectorBuffer.
+     */
+    public static from<N extends Dim>(dim: N, vectors: (FArray<N, number> | NDimVector<N>)[], storage: FloatArrayConstructor = Float64Array): VectorBuffer<N> {
+        const buffer = VectorBuffer.allocate(dim, vectors.length, storage)
+        vectors.forEach((v, i) => buffer.set(i, v))
+        return buffer
+    }
+
+    /**
+     * Provides the number of vectors held in the buffer.
+     */
+    public get count(): number {
+        return this.data.length / this.dim
+    }
+
+    /**
+     * Returns a view of a single vector. The view shares storage with the
+     * buffer, so mutating it updates the buffer and vice versa.
+     *
+     * @param index The index of the vector.
+     * @returns An NDimVector backed by the buffer's storage.
+     * @throws RangeError if the index is outside the buffer.
+     */
+    public at(index: number): NDimVector<N> {
+        this.checkIndex(index)
+        const view = this.data.subarray(index * this.dim, (index + 1) * this.dim)
+        return new NDimVector<N>(view as unknown as FArray<N, number>)
+    }
+
+    /**
+     * Copies a vector into the buffer.
+     *
+     * @param index The index of the vector to overwrite.
+     * @param vector The vector to copy.
+     * @returns This buffer.
+     * @throws RangeError if the index is outside the buffer or the vector has another dimension.
+     */
+    public set(index: number, vector: FArray<N, number> | NDimVector<N>): this {
+        this.checkIndex(index)
+        const components = this.matching(vector)
+        const offset = index * this.dim
+        for (let c = 0; c < this.dim; c++) this.data[offset + c] = components[c]
+        return this
+    }
+
+    /**
+     * Calls a function with a view of every vector in the buffer.
+     *
+     * @param fn The function to call.
+     */
+    public forEach(fn: (vector: NDimVector<N>, index: number) => void): void {
+        for (let i = 0; i < this.count; i++) fn(this.at(i), i)
+    }
+
+    // ********************** Batched Math *****************************
+
+    /**
+     * Adds to every vector in the buffer. Another buffer is added element by
+     * element; a single vector is added to every element.
+     *
+     * @param other A buffer of the same size, or a single vector.
+     * @returns This buffer.
+     * @throws RangeError if the other buffer or vector does not match this buffer's size.
+     */
+    public add(other: VectorBuffer<N> | FArray<N, number> | NDimVector<N>): this {
+        if (other instanceof VectorBuffer) {
+            addInto(this.data, this.data, this.matching(other))
+            return this
+        }
+        return this.broadcast(this.matching(other), 1)
+    }
+
+    /**
+     * Subtracts from every vector in the buffer. Another buffer is subtracted
+     * element by element; a single vector is subtracted from every element.
+     *
+     * @param other A buffer of the same size, or a single vector.
+     * @returns This buffer.
+     * @throws RangeError if the other buffer or vector does not match this buffer's size.
+     */
+    public sub(other: VectorBuffer<N> | FArray<N, number> | NDimVector<N>): this {
+        if (other instanceof VectorBuffer) {
+            subInto(this.data, this.data, this.matching(other))
+            return this
+        }
+        return this.broadcast(this.matching(other), -1)
+    }
+
+    /**
+     * Multiplies every vector in the buffer by a scalar.
+     *
+     * @param scalar The scalar value to multiply by.
+     * @returns This buffer.
+     */
+    public scale(scalar: number): this {
+        scaleInto(this.data, this.data, scalar)
+        return this
+    }
+
+    /**
+     * Calculates the dot product of every vector in the buffer with either the
+     * matching vector of another buffer or a single vector.
+     *
+     * @param other A buffer of the same size, or a single vector.
+     * @returns The dot products, one per vector.
+     * @throws RangeError if the other buffer or vector does not match this buffer's size.
+     */
+    public dot(other: VectorBuffer<N> | FArray<N, number> | NDimVector<N>): Float64Array {
+        const isBuffer = other instanceof VectorBuffer
+        const rs = this.matching(other)
+        const out = new Float64Array(this.count)
+
+        for (let i = 0, offset = 0; i < out.length; i++, offset += this.dim) {
+            const rOffset = isBuffer ? offset : 0
+            let acc = 0
+            for (let c = 0; c < this.dim; c++) acc += this.data[offset + c] * rs[rOffset + c]
+            out[i] = acc
+        }
+
+        return out
+    }
+
+    /**
+     * Calculates the magnitude of every vector in the buffer.
+     *
+     * @returns The magnitudes, one per vector.
+     */
+    public magnitudes(): Float64Array {
+        return this.dot(this).map(Math.sqrt)
+    }
+
+    /**
+     * Scales every vector in the buffer to unit length.
+     *
+     * @returns This buffer.
+     */
+    public normalize(): this {
+        for (let offset = 0; offset < this.data.length; offset += this.dim) {
+            let acc = 0
+            for (let c = 0; c < this.dim; c++) acc += this.data[offset + c] ** 2
+            const mag = Math.sqrt(acc)
+            for (let c = 0; c < this.dim; c++) this.data[offset + c] /= mag
+        }
+        return this
+    }
+
+    /**
+     * Multiplies every vector in the buffer by a square matrix.
+     *
+     * @param matrix The N x N matrix to transform by.
+     * @returns This buffer.
+     */
+    public transformBy(matrix: NMat<N, N> | NDimMatrix<N, N>): this {
+        const m = NDimMatrix.getComponents<N, N>(matrix)
+        const scratch = new Float64Array(this.dim)
+
+        for (let offset = 0; offset < this.data.length; offset += this.dim) {
+            for (let r = 0; r < this.dim; r++) {
+                let acc = 0
+                for (let c = 0; c < this.dim; c++) acc += m[r][c] * this.data[offset + c]
+                scratch[r] = acc
+            }
+            this.data.set(scratch, offset)
+        }
+        return this
+    }
+
+    /**
+     * Copies the buffer's contents into a new buffer with separate storage.
+     *
+     * @returns A new VectorBuffer.
+     */
+    public clone(): VectorBuffer<N> {
+        return new VectorBuffer<N>(this.dim, this.data.slice())
+    }
+
+    private checkIndex(index: number): void {
+        if (!(Number.isInteger(index) && index >= 0 && index < this.count)) {
+            throw new RangeError(`Index ${index} is out of range for a buffer of ${this.count} vectors`)
+        }
+    }
+
+    // The components of an operand, checked against this buffer: a vector
+    // must have its dimension, and a buffer its dimension and count too.
+    private matching(other: VectorBuffer<N> | FArray<N, number> | NDimVector<N>): VecSource {
+        if (other instanceof VectorBuffer) {
+            if (other.dim !== this.dim) {
+                throw new DimensionMismatchError(this.dim, other.dim)
+            }
+            if (other.count !== this.count) {
+                throw new RangeError(`Expected a buffer of ${this.count} vectors but found ${other.count}`)
+            }
+            return other.data
+        }
+        const components = NDimVector.getComponents<N>(other)
+        if (components.length !== this.dim) {
+            throw new DimensionMismatchError(this.dim, components.length)
+        }
+        return components
+    }
+
+    private broadcast(vector: VecSource, sign: number): this {
+        for (let offset = 0; offset < this.data.length; offset += this.dim)
+            for (let c = 0; c < this.dim; c++) this.data[offset + c] += sign * vector[c]
+        return this
+    }
+}